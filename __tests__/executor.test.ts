@@ -0,0 +1,296 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+// Runs intents and remittance steps against a Ganache chain served over HTTP,
+// which stands in for Sepolia so the chain's read provider reaches it too
+
+import { ethers } from "ethers";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  ExecutionEvent,
+  executeIntent,
+  executeRemittanceStep,
+} from "../util/executor";
+import { TransferIntent } from "../util/intents";
+import { NATIVE_TOKEN_ADDRESS } from "../util/tokens";
+import { WalletProvider } from "../util/utils";
+import {
+  compileContracts,
+  deployContract,
+  startChainServer,
+} from "./helpers/chain";
+
+const SEPOLIA_CHAIN_ID = 11155111;
+
+// Test-only contracts: a token whose transfer fails on an overdraft, and a
+// contract that reverts with whatever it is given
+const CONTRACTS = `
+pragma solidity ^0.8.20;
+
+contract TestToken {
+    string public constant name = "Test Token";
+    string public constant symbol = "TST";
+    uint8 public constant decimals = 18;
+    mapping(address => uint256) public balanceOf;
+
+    constructor() {
+        balanceOf[msg.sender] = 100 ether;
+    }
+
+    function transfer(address to, uint256 amount) external returns (bool) {
+        require(balanceOf[msg.sender] >= amount, "TestToken: insufficient balance");
+        balanceOf[msg.sender] -= amount;
+        balanceOf[to] += amount;
+        return true;
+    }
+}
+
+contract Reverter {
+    function fail(string calldata reason) external pure {
+        revert(reason);
+    }
+
+    function succeed() external {}
+}
+`;
+
+// A wallet on the local chain that signs with its first account
+class TestWallet implements WalletProvider {
+  constructor(
+    readonly address: string,
+    private readonly provider: ethers.providers.JsonRpcProvider,
+  ) {}
+
+  async switchChain(): Promise<void> {}
+
+  async getEthersProvider(): Promise<ethers.providers.JsonRpcProvider> {
+    return this.provider;
+  }
+}
+
+// A provider whose wallet declines every transaction it is asked to send
+class RejectingProvider extends ethers.providers.JsonRpcProvider {
+  override send(method: string, params: unknown[]): Promise<any> {
+    if (method === "eth_sendTransaction") {
+      return Promise.reject({
+        code: 4001,
+        message: "User rejected the request.",
+      });
+    }
+    return super.send(method, params);
+  }
+}
+
+describe("executor against a local chain", () => {
+  let close: () => Promise<void>;
+  let wallet: TestWallet;
+  let rejectingWallet: TestWallet;
+  let token: ethers.Contract;
+  let reverter: ethers.Contract;
+
+  const RECIPIENT = "0x000000000000000000000000000000000000dEaD";
+
+  const collect = () => {
+    const events: ExecutionEvent[] = [];
+    return { events, onEvent: (event: ExecutionEvent) => events.push(event) };
+  };
+
+  const submittedHash = (events: ExecutionEvent[]) => {
+    const [event] = events;
+    if (event?.type !== "submitted") {
+      throw new Error("Nothing was submitted");
+    }
+    return event.transactionHash;
+  };
+
+  const transfer = (amount: string, tokenAddress: string): TransferIntent => ({
+    transaction_type: "transfer",
+    response: {
+      recipientAddress: RECIPIENT,
+      chain: "sepolia",
+      amount,
+      token: tokenAddress,
+    },
+  });
+
+  beforeAll(async () => {
+    const chain = await startChainServer(SEPOLIA_CHAIN_ID);
+    close = chain.close;
+    // Read before the configuration is first resolved
+    vi.stubEnv("NEXT_PUBLIC_SEPOLIA_RPC_URLS", chain.url);
+
+    const provider = new ethers.providers.JsonRpcProvider(chain.url);
+    const signer = provider.getSigner();
+    const address = await signer.getAddress();
+    wallet = new TestWallet(address, provider);
+    rejectingWallet = new TestWallet(address, new RejectingProvider(chain.url));
+
+    const artifacts = compileContracts({ "Contracts.sol": CONTRACTS });
+    token = await deployContract(signer, artifacts["TestToken"]!);
+    reverter = await deployContract(signer, artifacts["Reverter"]!);
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await close?.();
+  });
+
+  describe("executeIntent", () => {
+    it("reports a transfer as submitted and then confirmed", async () => {
+      const { events, onEvent } = collect();
+
+      const result = await executeIntent(
+        transfer("0.5", NATIVE_TOKEN_ADDRESS),
+        [wallet],
+        onEvent,
+      );
+
+      expect(events.map((event) => event.type)).toEqual([
+        "submitted",
+        "confirmed",
+      ]);
+      expect(result).toBe(events[1]);
+      expect(result).toMatchObject({
+        transactionHash: submittedHash(events),
+      });
+      const provider = await wallet.getEthersProvider();
+      expect(await provider.getBalance(RECIPIENT)).toEqual(
+        ethers.utils.parseEther("0.5"),
+      );
+    });
+
+    it("reports a transfer that would revert as failed without sending it", async () => {
+      const { events, onEvent } = collect();
+
+      const result = await executeIntent(
+        transfer("1000", token.address),
+        [wallet],
+        onEvent,
+      );
+
+      expect(events).toEqual([result]);
+      expect(result).toEqual({
+        type: "failed",
+        error: "Transaction would fail: TestToken: insufficient balance",
+      });
+      expect(await token.balanceOf(RECIPIENT)).toEqual(ethers.constants.Zero);
+    });
+
+    it("reports a transfer declined in the wallet as rejected", async () => {
+      const { events, onEvent } = collect();
+
+      const result = await executeIntent(
+        transfer("1", token.address),
+        [rejectingWallet],
+        onEvent,
+      );
+
+      expect(events).toEqual([result]);
+      expect(result.type).toBe("rejected");
+    });
+  });
+
+  describe("executeRemittanceStep", () => {
+    const step = (data: string) => ({
+      name: "step",
+      description: "Test step",
+      requires_signature: true,
+      tx_data: { to: reverter.address, data },
+    });
+
+    it("reports a sent step as submitted and returns its hash", async () => {
+      const { events, onEvent } = collect();
+
+      const result = await executeRemittanceStep(
+        step(reverter.interface.encodeFunctionData("succeed")),
+        "sepolia",
+        [wallet],
+        onEvent,
+      );
+
+      expect(events).toEqual([
+        { type: "submitted", transactionHash: expect.any(String) },
+      ]);
+      expect(result).toEqual({
+        success: true,
+        type: "transaction",
+        hash: submittedHash(events),
+      });
+    });
+
+    it("fails a reverting step without sending it", async () => {
+      const { events, onEvent } = collect();
+
+      const result = await executeRemittanceStep(
+        step(reverter.interface.encodeFunctionData("fail", ["Quote expired"])),
+        "sepolia",
+        [wallet],
+        onEvent,
+      );
+
+      expect(events).toEqual([]);
+      expect(result).toEqual({
+        success: false,
+        error: "Transaction would fail: Quote expired",
+      });
+    });
+
+    it("flags a step declined in the wallet as rejected", async () => {
+      const { events, onEvent } = collect();
+
+      const result = await executeRemittanceStep(
+        step(reverter.interface.encodeFunctionData("succeed")),
+        "sepolia",
+        [rejectingWallet],
+        onEvent,
+      );
+
+      expect(events).toEqual([]);
+      expect(result).toMatchObject({ success: false, userRejected: true });
+    });
+
+    it("reads the balance a check_balance step asks for", async () => {
+      const result = await executeRemittanceStep(
+        {
+          name: "check",
+          description: "Check the token balance",
+          requires_signature: false,
+          check_balance: { token_address: token.address },
+        },
+        "sepolia",
+        [wallet],
+      );
+
+      expect(result).toEqual({
+        success: true,
+        type: "balance_check",
+        balance: {
+          address: token.address,
+          symbol: "TST",
+          balance: "100.0",
+          decimals: 18,
+        },
+      });
+    });
+  });
+});
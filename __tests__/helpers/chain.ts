@@ -0,0 +1,149 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+// Shared setup for tests that run against a local Ganache chain: compiling
+// Solidity with solc-js, starting the chain and deploying contracts
+
+import { ethers } from "ethers";
+import ganache from "ganache";
+import { readFileSync } from "node:fs";
+import { createRequire } from "node:module";
+
+const require = createRequire(import.meta.url);
+const solc = require("solc");
+
+export type Artifact = { abi: ethers.ContractInterface; bytecode: string };
+
+// Ganache 7 does not implement Cancun opcodes
+const HARDFORK = "shanghai";
+
+const findImports = (path: string) => {
+  try {
+    return { contents: readFileSync(require.resolve(path), "utf8") };
+  } catch {
+    return { error: `Not found: ${path}` };
+  }
+};
+
+/**
+ * Compiles Solidity sources, resolving imports from node_modules
+ * @param sources Source text keyed by file name
+ * @param viaIR Whether to compile through the IR pipeline, for contracts with
+ * too many locals for the legacy code generator
+ * @returns ABI and bytecode keyed by contract name
+ * @throws Error listing the compiler errors
+ */
+export function compileContracts(
+  sources: Record<string, string>,
+  viaIR = false,
+): Record<string, Artifact> {
+  const input = {
+    language: "Solidity",
+    sources: Object.fromEntries(
+      Object.entries(sources).map(([file, content]) => [file, { content }]),
+    ),
+    settings: {
+      evmVersion: HARDFORK,
+      ...(viaIR ? { viaIR: true, optimizer: { enabled: true } } : {}),
+      outputSelection: { "*": { "*": ["abi", "evm.bytecode.object"] } },
+    },
+  };
+  const output = JSON.parse(
+    solc.compile(JSON.stringify(input), { import: findImports }),
+  );
+  const errors = (output.errors ?? []).filter(
+    (error: { severity: string }) => error.severity === "error",
+  );
+  if (errors.length > 0) {
+    throw new Error(
+      errors
+        .map((error: { formattedMessage: string }) => error.formattedMessage)
+        .join("\n"),
+    );
+  }
+
+  const artifacts: Record<string, Artifact> = {};
+  for (const file of Object.values(output.contracts) as Record<string, any>[]) {
+    for (const [name, contract] of Object.entries(file)) {
+      artifacts[name] = {
+        abi: contract.abi,
+        bytecode: `0x${contract.evm.bytecode.object}`,
+      };
+    }
+  }
+  return artifacts;
+}
+
+/**
+ * Starts an in-process chain with funded, unlocked deterministic accounts
+ * @param chainId Chain id the chain reports
+ */
+export function startChain(chainId = 1337): ethers.providers.Web3Provider {
+  return new ethers.providers.Web3Provider(
+    ganache.provider({
+      logging: { quiet: true },
+      chain: { hardfork: HARDFORK, chainId },
+      wallet: { deterministic: true },
+    }) as unknown as ethers.providers.ExternalProvider,
+  );
+}
+
+/**
+ * Serves a chain over HTTP, for code that reaches it through configured RPC URLs
+ * @param chainId Chain id the chain reports
+ * @returns The RPC URL and a function that stops the server
+ */
+export async function startChainServer(
+  chainId = 1337,
+): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = ganache.server({
+    logging: { quiet: true },
+    chain: { hardfork: HARDFORK, chainId },
+    wallet: { deterministic: true },
+  });
+  await server.listen(0, "127.0.0.1");
+  const address = server.address();
+  return {
+    url: `http://127.0.0.1:${address.port}`,
+    close: () => server.close(),
+  };
+}
+
+/**
+ * Deploys a compiled contract and waits for it to be mined
+ * @param signer Account that deploys the contract
+ * @param artifact Compiled contract
+ * @param args Constructor arguments
+ */
+export async function deployContract(
+  signer: ethers.Signer,
+  artifact: Artifact,
+  ...args: unknown[]
+): Promise<ethers.Contract> {
+  const contract = await new ethers.ContractFactory(
+    artifact.abi,
+    artifact.bytecode,
+    signer,
+  ).deploy(...args);
+  return contract.deployed();
+}
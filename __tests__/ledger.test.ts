@@ -0,0 +1,172 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import "fake-indexeddb/auto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createTransaction,
+  queryTransactions,
+  updateTransaction,
+} from "../util/ledger";
+
+const newTransfer = () =>
+  createTransaction({
+    type: "transfer",
+    status: "pending",
+    message: "Sending 5 USDC",
+    data: {
+      transactionHash: "0xabc",
+      chain: "base",
+      amount: "5",
+      fees: { network_fee_usd: 0.01, service_fee_usd: 0 },
+    },
+  });
+
+const readBack = async (id: string) => {
+  const { items } = await queryTransactions({}, 0, 100);
+  const entry = items.find((item) => item.id === id);
+  expect(entry).toBeDefined();
+  return entry!;
+};
+
+describe("ledger status transitions", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(1_700_000_000_000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("persists pending → completed with merged data and a timeline", async () => {
+    const { entry, saved } = newTransfer();
+    await saved;
+
+    vi.setSystemTime(1_700_000_060_000);
+    await updateTransaction(entry.id, {
+      status: "completed",
+      message: "Sent 5 USDC",
+      data: {
+        blockNumber: 123,
+        gasUsed: "21000",
+        fees: { network_fee_usd: 0.02 },
+      },
+    });
+
+    const stored = await readBack(entry.id);
+    expect(stored.status).toBe("completed");
+    expect(stored.message).toBe("Sent 5 USDC");
+    expect(stored.data).toEqual({
+      transactionHash: "0xabc",
+      chain: "base",
+      amount: "5",
+      blockNumber: 123,
+      gasUsed: "21000",
+      fees: { network_fee_usd: 0.02, service_fee_usd: 0 },
+    });
+    expect(stored.timeline).toEqual([
+      {
+        status: "pending",
+        timestamp: 1_700_000_000_000,
+        message: "Sending 5 USDC",
+      },
+      {
+        status: "completed",
+        timestamp: 1_700_000_060_000,
+        message: "Sent 5 USDC",
+      },
+    ]);
+  });
+
+  it("persists pending → failed and keeps fields the update leaves unset", async () => {
+    const { entry, saved } = newTransfer();
+    await saved;
+
+    vi.setSystemTime(1_700_000_030_000);
+    await updateTransaction(entry.id, {
+      status: "failed",
+      message: "Transfer was dropped",
+      data: { outcome: "dropped", transactionHash: undefined },
+    });
+
+    const stored = await readBack(entry.id);
+    expect(stored.status).toBe("failed");
+    expect(stored.data.transactionHash).toBe("0xabc");
+    expect(stored.data.outcome).toBe("dropped");
+    expect(stored.timeline?.map((change) => change.status)).toEqual([
+      "pending",
+      "failed",
+    ]);
+    expect(stored.timeline?.[1]?.timestamp).toBe(1_700_000_030_000);
+
+    const { items } = await queryTransactions({ statuses: ["failed"] }, 0, 100);
+    expect(items.map((item) => item.id)).toContain(entry.id);
+  });
+
+  it("does not extend the timeline when the status stays the same", async () => {
+    const { entry, saved } = newTransfer();
+    await saved;
+
+    await updateTransaction(entry.id, { data: { nonce: 7 } });
+
+    const stored = await readBack(entry.id);
+    expect(stored.status).toBe("pending");
+    expect(stored.data.nonce).toBe(7);
+    expect(stored.timeline).toHaveLength(1);
+  });
+});
+
+describe("queryTransactions", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(1_700_000_000_000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns an empty page for a date range that ends before it starts", async () => {
+    const { saved } = newTransfer();
+    await saved;
+
+    expect(
+      await queryTransactions({
+        from: 1_700_000_100_000,
+        to: 1_699_999_900_000,
+      }),
+    ).toEqual({
+      items: [],
+      total: 0,
+    });
+    expect(
+      (
+        await queryTransactions({
+          from: 1_699_999_900_000,
+          to: 1_700_000_100_000,
+        })
+      ).total,
+    ).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  coinbasePriceSource,
+  getUsdPrice,
+  PriceSource,
+  setPriceSource,
+} from "../util/prices";
+
+describe("getUsdPrice", () => {
+  let fetchUsdPrice: ReturnType<typeof vi.fn<PriceSource["fetchUsdPrice"]>>;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    fetchUsdPrice = vi.fn(async (symbol: string) => {
+      if (symbol === "ETH") return 2000;
+      throw new Error(`No price for ${symbol}`);
+    });
+    setPriceSource({ name: "Stub", fetchUsdPrice });
+  });
+
+  afterEach(() => {
+    setPriceSource(coinbasePriceSource);
+    vi.useRealTimers();
+  });
+
+  it("caches a price for a minute", async () => {
+    expect(await getUsdPrice("eth")).toBe(2000);
+    expect(await getUsdPrice("ETH")).toBe(2000);
+    expect(fetchUsdPrice).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(60_000);
+    await getUsdPrice("ETH");
+    expect(fetchUsdPrice).toHaveBeenCalledTimes(2);
+  });
+
+  it("caches a failed lookup for a minute", async () => {
+    expect(await getUsdPrice("NOPE")).toBeUndefined();
+    expect(await getUsdPrice("NOPE")).toBeUndefined();
+    expect(fetchUsdPrice).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(60_000);
+    await getUsdPrice("NOPE");
+    expect(fetchUsdPrice).toHaveBeenCalledTimes(2);
+  });
+
+  it("prices wrapped tokens as their underlying asset", async () => {
+    expect(await getUsdPrice("WETH")).toBe(2000);
+    expect(await getUsdPrice("ETH")).toBe(2000);
+    expect(fetchUsdPrice).toHaveBeenCalledTimes(1);
+    expect(fetchUsdPrice).toHaveBeenCalledWith("ETH");
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  AdapterQuote,
+  getBestQuote,
+  getSwapQuotes,
+  QuoteRequest,
+  VenueAdapter,
+} from "../util/quotes";
+import { getUsdPrice } from "../util/prices";
+
+const WETH = "0x4200000000000000000000000000000000000006";
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const DAI = "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb";
+
+vi.mock("../util/chains", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../util/chains")>()),
+  requireChain: () => ({
+    key: "base",
+    chainId: 8453,
+    weth: WETH,
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+  }),
+}));
+
+vi.mock("../util/tokens", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../util/tokens")>()),
+  resolveToken: async (_provider: unknown, chainId: number, address: string) =>
+    address === USDC
+      ? {
+          chainId,
+          address,
+          symbol: "USDC",
+          name: "USD Coin",
+          decimals: 6,
+          isStablecoin: true,
+          fiatPeg: "USD",
+        }
+      : {
+          chainId,
+          address,
+          symbol: "DAI",
+          name: "Dai",
+          decimals: 18,
+          isStablecoin: true,
+        },
+}));
+
+// 1 gwei per gas
+vi.mock("../util/fees", () => ({
+  estimateFees: async () => ({
+    expectedFeePerGas: ethers.utils.parseUnits("1", "gwei"),
+  }),
+}));
+
+vi.mock("../util/prices", () => ({ getUsdPrice: vi.fn() }));
+
+const provider = {} as ethers.providers.Provider;
+
+const request = (toAsset: string): QuoteRequest => ({
+  chain: "base",
+  owner: "0x0000000000000000000000000000000000000001",
+  fromAsset: DAI,
+  toAsset,
+  amountIn: ethers.utils.parseUnits("1000", 18),
+  slippage: 0.005,
+});
+
+const stubAdapter = (
+  name: string,
+  quote: (request: QuoteRequest) => Promise<Partial<AdapterQuote> | null>,
+): VenueAdapter => ({
+  venue: "uniswap-v2",
+  name,
+  supports: () => true,
+  quote: async (_provider, request) => {
+    const result = await quote(request);
+    return (
+      result && {
+        spender: "0x0000000000000000000000000000000000000002",
+        path: [request.fromAsset, request.toAsset],
+        amountOut: ethers.constants.Zero,
+        amountOutMin: ethers.constants.Zero,
+        gasUnits: ethers.constants.Zero,
+        ...result,
+      }
+    );
+  },
+  swap: async () => ({ transactionHash: "0x" }),
+});
+
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+
+describe("getSwapQuotes", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    // ETH at $2000, so 1 gwei × 1,000,000 gas = 0.001 ETH = 2 USDC
+    vi.mocked(getUsdPrice).mockImplementation(async (symbol) =>
+      symbol === "ETH" ? 2000 : undefined,
+    );
+  });
+
+  it("ranks quotes by output after the network fee", async () => {
+    const adapters = [
+      // Most output, but the 1,000,000 gas swap costs 2 USDC
+      stubAdapter("Expensive", async () => ({
+        amountOut: usdc("1001"),
+        gasUnits: ethers.BigNumber.from(1_000_000),
+      })),
+      stubAdapter("Gasless", async () => ({ amountOut: usdc("999.5") })),
+      stubAdapter("Cheap", async () => ({
+        amountOut: usdc("1000"),
+        gasUnits: ethers.BigNumber.from(100_000),
+      })),
+    ];
+
+    const { quotes, failures } = await getSwapQuotes(
+      provider,
+      request(USDC),
+      adapters,
+    );
+
+    expect(failures).toEqual([]);
+    expect(quotes.map((quote) => quote.venueName)).toEqual([
+      "Cheap",
+      "Gasless",
+      "Expensive",
+    ]);
+    expect(quotes.map((quote) => quote.netOutput?.toString())).toEqual([
+      usdc("999.8").toString(),
+      usdc("999.5").toString(),
+      usdc("999").toString(),
+    ]);
+    expect(quotes[1]!.gasless).toBe(true);
+  });
+
+  it("reports a venue that throws as a failure without dropping the others", async () => {
+    const adapters = [
+      stubAdapter("Broken", async () => {
+        throw new Error("429 Too Many Requests");
+      }),
+      stubAdapter("No route", async () => null),
+      stubAdapter("Working", async () => ({ amountOut: usdc("1000") })),
+    ];
+
+    const { quotes, failures } = await getSwapQuotes(
+      provider,
+      request(USDC),
+      adapters,
+    );
+
+    expect(quotes.map((quote) => quote.venueName)).toEqual(["Working"]);
+    expect(failures).toEqual([
+      { venueName: "Broken", error: "429 Too Many Requests" },
+    ]);
+  });
+
+  it("ranks quotes whose network fee cannot be priced after priced ones", async () => {
+    // DAI has no price and no USD peg, so gas cannot be valued in it
+    const adapters = [
+      stubAdapter("Unpriced", async () => ({
+        amountOut: ethers.utils.parseUnits("1005", 18),
+        gasUnits: ethers.BigNumber.from(200_000),
+      })),
+      stubAdapter("Gasless", async () => ({
+        amountOut: ethers.utils.parseUnits("999", 18),
+      })),
+    ];
+
+    const { quotes } = await getSwapQuotes(
+      provider,
+      { ...request(DAI), fromAsset: USDC },
+      adapters,
+    );
+
+    expect(quotes.map((quote) => quote.venueName)).toEqual([
+      "Gasless",
+      "Unpriced",
+    ]);
+    expect(quotes[1]!.netOutput).toBeUndefined();
+    expect(quotes[1]!.gasCostInOutput).toBeUndefined();
+  });
+});
+
+describe("getBestQuote", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("returns the top ranked quote", async () => {
+    const adapters = [
+      stubAdapter("Worse", async () => ({ amountOut: usdc("998") })),
+      stubAdapter("Better", async () => ({ amountOut: usdc("999") })),
+    ];
+
+    expect(
+      (await getBestQuote(provider, request(USDC), adapters)).venueName,
+    ).toBe("Better");
+  });
+
+  it("throws with every venue's error when none can quote", async () => {
+    const adapters = [
+      stubAdapter("Down", async () => {
+        throw new Error("Network error");
+      }),
+      stubAdapter("No route", async () => null),
+    ];
+
+    await expect(
+      getBestQuote(provider, request(USDC), adapters),
+    ).rejects.toThrow("No venue could quote this swap (Down: Network error)");
+  });
+
+  it("throws when no venue has a route", async () => {
+    await expect(
+      getBestQuote(provider, request(USDC), [
+        stubAdapter("No route", async () => null),
+      ]),
+    ).rejects.toThrow(/^No venue could quote this swap$/);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+// Runs the recipient checks against accounts and contracts on an in-process
+// Ganache chain, which has no ENS deployment
+
+import { ethers } from "ethers";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { Contact } from "../util/addressBook";
+import { checkRecipient, RecipientCheckOptions } from "../util/recipients";
+import { compileContracts, deployContract, startChain } from "./helpers/chain";
+
+// Test-only contracts: an ERC20 token and a contract that is not one
+const CONTRACTS = `
+pragma solidity ^0.8.20;
+
+contract TestToken {
+    string public constant symbol = "TST";
+    uint8 public constant decimals = 18;
+    uint256 public constant totalSupply = 1000 ether;
+}
+
+contract Vault {
+    receive() external payable {}
+}
+`;
+
+// USDC on Arbitrum, from the default token list
+const ARBITRUM_USDC = "0xaf88d065e77c8cC2239327C5EDb3A432268e5831";
+
+const DENYLISTED = "0x000000000000000000000000000000000000dEaD";
+
+// Swaps a few characters in the middle, keeping the start and end intact
+const lookalikeOf = (address: string) => {
+  const hex = address.toLowerCase();
+  const swapped = hex
+    .slice(20, 23)
+    .replace(/./g, (char) => (char === "0" ? "1" : "0"));
+  return ethers.utils.getAddress(
+    `${hex.slice(0, 20)}${swapped}${hex.slice(23)}`,
+  );
+};
+
+describe("checkRecipient against a local chain", () => {
+  let options: RecipientCheckOptions;
+  let wallet: string;
+  let token: ethers.Contract;
+  let vault: ethers.Contract;
+  let mom: Contact;
+
+  beforeAll(async () => {
+    // Read before the configuration is first resolved
+    vi.stubEnv("NEXT_PUBLIC_RECIPIENT_DENYLIST", DENYLISTED);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const provider = startChain();
+    const signer = provider.getSigner(0);
+    wallet = await provider.getSigner(1).getAddress();
+    mom = {
+      id: "1",
+      nickname: "Mom",
+      address: await provider.getSigner(2).getAddress(),
+    };
+
+    const artifacts = compileContracts({ "Contracts.sol": CONTRACTS });
+    token = await deployContract(signer, artifacts["TestToken"]!);
+    vault = await deployContract(signer, artifacts["Vault"]!);
+
+    options = {
+      provider,
+      ensProvider: provider,
+      chainId: (await provider.getNetwork()).chainId,
+      contacts: [mom],
+    };
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("finds nothing wrong with a plain wallet", async () => {
+    expect(await checkRecipient(wallet, options)).toEqual({
+      address: wallet,
+      isContract: false,
+      denylisted: false,
+    });
+  });
+
+  it("flags a contract that is not a token", async () => {
+    const check = await checkRecipient(vault.address, options);
+
+    expect(check.isContract).toBe(true);
+    expect(check.token).toBeUndefined();
+  });
+
+  it("flags a token contract by its symbol", async () => {
+    expect(await checkRecipient(token.address, options)).toMatchObject({
+      isContract: true,
+      token: "TST",
+    });
+  });
+
+  it("flags a known token's address pasted from another chain", async () => {
+    expect(await checkRecipient(ARBITRUM_USDC, options)).toMatchObject({
+      isContract: false,
+      token: "USDC",
+    });
+  });
+
+  it("flags an address that differs from a contact's by a few characters", async () => {
+    const lookalike = lookalikeOf(mom.address);
+    expect(lookalike).not.toBe(mom.address);
+
+    expect(await checkRecipient(lookalike, options)).toMatchObject({
+      lookalikeOf: "Mom",
+    });
+    expect(
+      (await checkRecipient(mom.address, options)).lookalikeOf,
+    ).toBeUndefined();
+  });
+
+  it("flags an address on the configured denylist", async () => {
+    expect((await checkRecipient(DENYLISTED, options)).denylisted).toBe(true);
+    expect(
+      (await checkRecipient(wallet, { ...options, denylist: [wallet] }))
+        .denylisted,
+    ).toBe(true);
+  });
+
+  it("leaves the ENS name out on a chain without ENS", async () => {
+    const check = await checkRecipient(wallet, options);
+
+    expect(check).not.toHaveProperty("ensName");
+    expect(check).not.toHaveProperty("avatar");
+  });
+});
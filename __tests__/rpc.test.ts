@@ -0,0 +1,355 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+// Runs RpcProvider against JSON-RPC endpoints served from local HTTP stubs
+
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { RpcProvider } from "../util/rpc";
+
+type Reply = {
+  status?: number;
+  result?: unknown;
+  error?: { code: number; message: string };
+  delayMs?: number;
+};
+
+interface Stub {
+  url: string;
+  // Every request the stub has received
+  calls: { method: string; params: unknown[] }[];
+  server: Server;
+}
+
+const ADDRESS = "0x0000000000000000000000000000000000000001";
+
+const stubs: Stub[] = [];
+
+const startStub = async (
+  handle: (method: string, params: unknown[]) => Reply,
+): Promise<Stub> => {
+  const calls: Stub["calls"] = [];
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", async () => {
+      const { id, method, params } = JSON.parse(body);
+      calls.push({ method, params });
+      const reply = handle(method, params);
+      if (reply.delayMs)
+        await new Promise((resolve) => setTimeout(resolve, reply.delayMs));
+      res.writeHead(reply.status ?? 200, {
+        "content-type": "application/json",
+      });
+      res.end(
+        reply.status && reply.status !== 200
+          ? "Too Many Requests"
+          : JSON.stringify({
+              jsonrpc: "2.0",
+              id,
+              ...(reply.error
+                ? { error: reply.error }
+                : { result: reply.result }),
+            }),
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const stub = {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    calls,
+    server,
+  };
+  stubs.push(stub);
+  return stub;
+};
+
+// A node at the given block that holds the given balance for every address
+const node = (blockNumber: number, balance = "0x64", delayMs = 0) =>
+  startStub((method) => {
+    switch (method) {
+      case "eth_blockNumber":
+        return { result: `0x${blockNumber.toString(16)}`, delayMs };
+      case "eth_getBalance":
+        return { result: balance, delayMs };
+      default:
+        return { result: "0x", delayMs };
+    }
+  });
+
+// Nothing listens on port 1
+const DOWN = "http://127.0.0.1:1";
+
+const settings = {
+  quorum: 1,
+  timeoutMs: 2_000,
+  maxRetries: 2,
+  healthCheckIntervalMs: 60_000,
+};
+
+// Runs the initial health check, then makes one endpoint look the fastest
+const rankFirst = async (provider: RpcProvider, url: string) => {
+  await provider.checkHealth();
+  for (const endpoint of (
+    provider as unknown as { endpoints: { url: string; latencyMs: number }[] }
+  ).endpoints) {
+    endpoint.latencyMs = endpoint.url === url ? 1 : 100;
+  }
+};
+
+const methods = (stub: Stub) => stub.calls.map((call) => call.method);
+
+afterEach(async () => {
+  await Promise.all(
+    stubs
+      .splice(0)
+      .map((stub) => new Promise((resolve) => stub.server.close(resolve))),
+  );
+});
+
+describe("RpcProvider", () => {
+  it("fails over when the first endpoint is down", async () => {
+    const backup = await node(100, "0x2a");
+    const provider = new RpcProvider(
+      "base",
+      8453,
+      [DOWN, backup.url],
+      settings,
+    );
+
+    expect((await provider.getBalance(ADDRESS)).toNumber()).toBe(42);
+
+    const [best, down] = provider.getMetrics();
+    expect(best).toMatchObject({ url: backup.url, healthy: true, errors: 0 });
+    expect(down).toMatchObject({ url: DOWN, healthy: false });
+    expect(down!.errors).toBeGreaterThan(0);
+  });
+
+  it("does not fail over when the node answers with a JSON-RPC error", async () => {
+    const reverting = await startStub((method) =>
+      method === "eth_blockNumber"
+        ? { result: "0x64" }
+        : { error: { code: 3, message: "execution reverted" } },
+    );
+    const other = await node(100);
+    const provider = new RpcProvider(
+      "base",
+      8453,
+      [reverting.url, other.url],
+      settings,
+    );
+    await rankFirst(provider, reverting.url);
+
+    await expect(
+      provider.send("eth_call", [{ to: ADDRESS }, "latest"]),
+    ).rejects.toThrow();
+    expect(methods(other)).not.toContain("eth_call");
+    expect(provider.getMetrics()[0]).toMatchObject({
+      url: reverting.url,
+      healthy: true,
+      errors: 0,
+    });
+  });
+
+  it("backs off and retries a rate-limited endpoint before failing over", async () => {
+    let limited = 1;
+    const busy = await startStub((method) => {
+      if (method === "eth_getBalance" && limited-- > 0) return { status: 429 };
+      return { result: method === "eth_blockNumber" ? "0x64" : "0x7" };
+    });
+    const provider = new RpcProvider("base", 8453, [busy.url], settings);
+
+    expect((await provider.getBalance(ADDRESS)).toNumber()).toBe(7);
+    expect(provider.getMetrics()[0]).toMatchObject({
+      rateLimited: 1,
+      retries: 1,
+      errors: 0,
+      healthy: true,
+    });
+    expect(
+      methods(busy).filter((method) => method === "eth_getBalance"),
+    ).toHaveLength(2);
+  });
+
+  it("sets a rate-limited endpoint aside until its retry time once retries run out", async () => {
+    const busy = await startStub((method) =>
+      method === "eth_blockNumber" ? { result: "0x64" } : { status: 429 },
+    );
+    const backup = await node(100, "0x9");
+    const provider = new RpcProvider("base", 8453, [busy.url, backup.url], {
+      ...settings,
+      maxRetries: 0,
+    });
+    await rankFirst(provider, busy.url);
+
+    expect((await provider.getBalance(ADDRESS)).toNumber()).toBe(9);
+    expect((await provider.getBalance(ADDRESS)).toNumber()).toBe(9);
+
+    expect(provider.getMetrics().map((metrics) => metrics.url)).toEqual([
+      backup.url,
+      busy.url,
+    ]);
+    expect(provider.getMetrics()[1]).toMatchObject({
+      healthy: false,
+      rateLimited: 1,
+      errors: 1,
+    });
+    // The second read skipped the busy endpoint while it was set aside
+    expect(
+      methods(busy).filter((method) => method === "eth_getBalance"),
+    ).toHaveLength(1);
+  });
+
+  it("re-ranks endpoints by latency and block height after a health check", async () => {
+    const slow = await node(200, "0x1", 150);
+    const fast = await node(200, "0x1");
+    const behind = await node(150, "0x1");
+    const provider = new RpcProvider(
+      "base",
+      8453,
+      [slow.url, behind.url, fast.url],
+      settings,
+    );
+
+    const metrics = await provider.checkHealth();
+
+    expect(metrics.map((endpoint) => endpoint.url)).toEqual([
+      fast.url,
+      slow.url,
+      behind.url,
+    ]);
+    expect(metrics[2]).toMatchObject({
+      healthy: false,
+      blockNumber: 150,
+      lastError: "50 blocks behind",
+    });
+    expect(metrics[0]!.latencyMs).toBeLessThan(metrics[1]!.latencyMs!);
+  });
+
+  it("returns a state read once the quorum agrees", async () => {
+    const endpoints = await Promise.all([
+      node(100, "0x5"),
+      node(100, "0x5"),
+      node(100, "0x5"),
+    ]);
+    const provider = new RpcProvider(
+      "base",
+      8453,
+      endpoints.map((endpoint) => endpoint.url),
+      { ...settings, quorum: 2 },
+    );
+
+    expect((await provider.getBalance(ADDRESS)).toNumber()).toBe(5);
+    const asked = endpoints.filter((endpoint) =>
+      methods(endpoint).includes("eth_getBalance"),
+    );
+    expect(asked).toHaveLength(2);
+  });
+
+  it("asks another endpoint when the first two disagree", async () => {
+    const endpoints = await Promise.all([
+      node(100, "0x5"),
+      node(100, "0x6"),
+      node(100, "0x6"),
+    ]);
+    const provider = new RpcProvider(
+      "base",
+      8453,
+      endpoints.map((endpoint) => endpoint.url),
+      { ...settings, quorum: 2 },
+    );
+
+    expect((await provider.getBalance(ADDRESS)).toNumber()).toBe(6);
+  });
+
+  it("throws when the endpoints cannot reach a quorum", async () => {
+    const endpoints = await Promise.all([
+      node(100, "0x5"),
+      node(100, "0x6"),
+      node(100, "0x7"),
+    ]);
+    const provider = new RpcProvider(
+      "base",
+      8453,
+      endpoints.map((endpoint) => endpoint.url),
+      { ...settings, quorum: 2 },
+    );
+
+    await expect(
+      provider.send("eth_getBalance", [ADDRESS, "latest"]),
+    ).rejects.toThrow("RPC endpoints for base disagree on eth_getBalance");
+  });
+
+  it("pins latest state reads to a block every voting endpoint has reached", async () => {
+    const endpoints = await Promise.all([node(101), node(100), node(80)]);
+    const provider = new RpcProvider(
+      "base",
+      8453,
+      endpoints.map((endpoint) => endpoint.url),
+      { ...settings, quorum: 2 },
+    );
+
+    await provider.send("eth_getBalance", [ADDRESS, "latest"]);
+
+    const reads = endpoints.flatMap((endpoint) =>
+      endpoint.calls.filter((call) => call.method === "eth_getBalance"),
+    );
+    expect(reads.map((call) => call.params)).toEqual([
+      [ADDRESS, "0x64"],
+      [ADDRESS, "0x64"],
+    ]);
+    // 21 blocks behind, so it sits the read out
+    expect(methods(endpoints[2]!)).not.toContain("eth_getBalance");
+  });
+
+  it("counts requests and errors per endpoint", async () => {
+    const healthy = await node(100);
+    const provider = new RpcProvider(
+      "base",
+      8453,
+      [DOWN, healthy.url],
+      settings,
+    );
+
+    await provider.getBalance(ADDRESS);
+    await provider.getBalance(ADDRESS);
+
+    const byUrl = Object.fromEntries(
+      provider.getMetrics().map((metrics) => [metrics.url, metrics]),
+    );
+    // One health check and two reads
+    expect(byUrl[healthy.url]).toMatchObject({
+      requests: 2,
+      errors: 0,
+      blockNumber: 100,
+    });
+    expect(healthy.calls).toHaveLength(3);
+    expect(byUrl[DOWN]).toMatchObject({
+      healthy: false,
+      errors: 1,
+      requests: 0,
+    });
+    expect(byUrl[DOWN]!.lastError).toBeDefined();
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+// Runs the pre-flight simulation against RemittanceSimulator deployed on an
+// in-process Ganache chain
+
+import { ethers } from "ethers";
+import { readFileSync } from "node:fs";
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  requireSuccessfulSimulation,
+  SimulationError,
+  simulateSequence,
+  simulateTransaction,
+} from "../util/simulation";
+import { compileContracts, deployContract, startChain } from "./helpers/chain";
+
+// Test-only contracts: a Uniswap V2 style router that enforces the minimum
+// output, and a contract that reverts with whatever it is given
+const HELPERS = `
+pragma solidity ^0.8.20;
+
+contract MockRouter {
+    function swapExactTokensForTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata,
+        address,
+        uint256
+    ) external pure returns (uint256 amountOut) {
+        amountOut = amountIn / 2;
+        require(amountOut >= amountOutMin, "UniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT");
+    }
+}
+
+contract Reverter {
+    function fail(string calldata reason) external pure {
+        revert(reason);
+    }
+}
+`;
+
+const USDC = (amount: string) => ethers.utils.parseUnits(amount, 6);
+
+describe("simulateTransaction against RemittanceSimulator", () => {
+  let provider: ethers.providers.Web3Provider;
+  let user: string;
+  let simulator: ethers.Contract;
+  let usdc: ethers.Contract;
+  let router: ethers.Contract;
+  let reverter: ethers.Contract;
+
+  beforeAll(async () => {
+    const artifacts = compileContracts(
+      {
+        "RemittanceSimulator.sol": readFileSync(
+          "util/contracts/RemittanceSimulator.sol",
+          "utf8",
+        ),
+        "Helpers.sol": HELPERS,
+      },
+      // processRemittance has too many locals for the legacy code generator
+      true,
+    );
+    provider = startChain();
+    const owner = provider.getSigner(0);
+    user = await provider.getSigner(1).getAddress();
+
+    const deploy = (name: string) => deployContract(owner, artifacts[name]!);
+    simulator = await deploy("RemittanceSimulator");
+    router = await deploy("MockRouter");
+    reverter = await deploy("Reverter");
+    usdc = new ethers.Contract(
+      await simulator.usdcToken(),
+      artifacts["MockStablecoin"]!.abi,
+      provider,
+    );
+
+    await (await simulator.buyUSDC(user, USDC("100"))).wait();
+    await (
+      await usdc
+        .connect(provider.getSigner(1))
+        .approve(simulator.address, ethers.constants.MaxUint256)
+    ).wait();
+  }, 120_000);
+
+  const populate = async (
+    contract: ethers.Contract,
+    method: string,
+    ...args: unknown[]
+  ) => ({
+    ...(await contract.populateTransaction[method]!(...args)),
+    from: user,
+  });
+
+  it("returns a gas estimate for a transaction that succeeds", async () => {
+    const balance: ethers.BigNumber = await usdc.balanceOf(user);
+    const tx = await populate(simulator, "swapUSDCtoEURC", user, balance);
+
+    const result = await simulateTransaction(provider, tx);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.gasLimit.gt(0)).toBe(true);
+    }
+  });
+
+  it("decodes Error(string) from a require", async () => {
+    const tx = await populate(simulator, "swapUSDCtoEURC", user, 0);
+
+    expect(await simulateTransaction(provider, tx)).toEqual({
+      success: false,
+      reason: "Amount must be positive",
+    });
+  });
+
+  it.each(["USDC transfer failed", "EURC transfer failed"])(
+    "explains %s",
+    async (message) => {
+      const tx = await populate(reverter, "fail", message);
+
+      const result = await simulateTransaction(provider, tx);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.reason).toMatch(
+          /^The simulator could not pull your (USDC|EURC)\./,
+        );
+        expect(result.reason).toContain(`(${message})`);
+      }
+    },
+  );
+
+  it("decodes Panic(uint256) from an arithmetic overflow", async () => {
+    const rate: ethers.BigNumber = await simulator.usdToEurRate();
+    await (
+      await simulator.updateExchangeRate(ethers.constants.MaxUint256)
+    ).wait();
+    try {
+      const tx = await populate(simulator, "swapUSDCtoEURC", user, USDC("1"));
+
+      expect(await simulateTransaction(provider, tx)).toEqual({
+        success: false,
+        reason: "panic: arithmetic overflow or underflow",
+      });
+    } finally {
+      await (await simulator.updateExchangeRate(rate)).wait();
+    }
+  });
+
+  it("blocks a transfer of more than the balance", async () => {
+    const [, , recipient] = await provider.listAccounts();
+    const tx = await populate(usdc, "transfer", recipient, USDC("1000"));
+
+    const error = await requireSuccessfulSimulation(provider, tx).catch(
+      (err: unknown) => err,
+    );
+
+    expect(error).toBeInstanceOf(SimulationError);
+    expect((error as SimulationError).reason).toBe(
+      "The amount is more than your balance (transfer amount exceeds balance)",
+    );
+  });
+
+  it("blocks a simulator swap of more than the balance", async () => {
+    const tx = await populate(simulator, "swapUSDCtoEURC", user, USDC("1000"));
+
+    await expect(requireSuccessfulSimulation(provider, tx)).rejects.toThrow(
+      "Transaction would fail: The amount is more than your balance",
+    );
+  });
+
+  it("blocks a swap whose output is below the minimum", async () => {
+    const tx = await populate(
+      router,
+      "swapExactTokensForTokens",
+      USDC("10"),
+      USDC("9"),
+      [usdc.address, simulator.address],
+      user,
+      Math.floor(Date.now() / 1000) + 600,
+    );
+
+    const error = await requireSuccessfulSimulation(provider, tx).catch(
+      (err: unknown) => err,
+    );
+
+    expect(error).toBeInstanceOf(SimulationError);
+    expect((error as SimulationError).reason).toBe(
+      "The price moved beyond your slippage tolerance (UniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT)",
+    );
+  });
+});
+
+describe("simulateSequence", () => {
+  const from = "0x0000000000000000000000000000000000000001";
+  const to = "0x0000000000000000000000000000000000000002";
+  const revert = ethers.utils.hexConcat([
+    "0x08c379a0",
+    ethers.utils.defaultAbiCoder.encode(["string"], ["USDC transfer failed"]),
+  ]);
+
+  // A node that answers eth_simulateV1 with the given call results
+  const nodeReturning = (calls: unknown[]) => {
+    const requests: unknown[][] = [];
+    const provider = {
+      send: async (method: string, params: unknown[]) => {
+        expect(method).toBe("eth_simulateV1");
+        requests.push(params);
+        return [{ number: "0x1", calls }];
+      },
+    } as unknown as ethers.providers.JsonRpcProvider;
+    return { provider, requests };
+  };
+
+  it("sends every transaction in one simulated block, in order", async () => {
+    const { provider, requests } = nodeReturning([
+      { status: "0x1", returnData: "0x", gasUsed: "0xb411" },
+      { status: "0x1", returnData: "0x", gasUsed: "0x1d4c0" },
+    ]);
+
+    const results = await simulateSequence(provider, [
+      { from, to, data: "0x01" },
+      { from, to, data: "0x02", value: 5 },
+    ]);
+
+    expect(requests).toEqual([
+      [
+        {
+          blockStateCalls: [
+            {
+              calls: [
+                { from, to, data: "0x01", value: "0x0" },
+                { from, to, data: "0x02", value: "0x5" },
+              ],
+            },
+          ],
+        },
+        "latest",
+      ],
+    ]);
+    expect(
+      results.map((result) => result.success && result.gasLimit.toNumber()),
+    ).toEqual([46_097, 120_000]);
+  });
+
+  it("decodes the revert of a later transaction", async () => {
+    const { provider } = nodeReturning([
+      { status: "0x1", returnData: "0x", gasUsed: "0xb411" },
+      {
+        status: "0x0",
+        returnData: revert,
+        gasUsed: "0x5208",
+        error: { code: 3, message: "execution reverted", data: revert },
+      },
+    ]);
+
+    const [approve, swap] = await simulateSequence(provider, [
+      { from, to, data: "0x01" },
+      { from, to, data: "0x02" },
+    ]);
+
+    expect(approve!.success).toBe(true);
+    expect(swap).toEqual({
+      success: false,
+      reason:
+        "The simulator could not pull your USDC. Check your balance and approval (USDC transfer failed)",
+    });
+  });
+
+  it("throws when the node leaves transactions out", async () => {
+    const { provider } = nodeReturning([
+      { status: "0x1", returnData: "0x", gasUsed: "0x1" },
+    ]);
+
+    await expect(
+      simulateSequence(provider, [
+        { from, to, data: "0x01" },
+        { from, to, data: "0x02" },
+      ]),
+    ).rejects.toThrow("The node returned an incomplete simulation");
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+// Quotes through the real venue adapters, with the Uniswap contracts answered
+// by a stub provider and the CoW order book by a stub client
+
+import { COW_PROTOCOL_VAULT_RELAYER_ADDRESS } from "@cowprotocol/cow-sdk";
+import { ethers } from "ethers";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getSwapQuotes, getVenueAdapter, QuoteRequest } from "../util/quotes";
+import { getUsdPrice } from "../util/prices";
+import { encodeUniswapV3Path } from "../util/uniswapV3";
+
+// Arbitrum, as configured by default
+const WETH = "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1";
+const USDC = "0xaf88d065e77c8cC2239327C5EDb3A432268e5831";
+const DAI = "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1";
+const UNISWAP_V2_FACTORY = "0xf1D7CC64Fb4452F05c498126312eBE29f30Fbcf9";
+const UNISWAP_V3_QUOTER = "0x61fFE014bA17989E743c5F6cB21bF9697530B21e";
+
+const getQuote = vi.hoisted(() => vi.fn());
+
+vi.mock("@cowprotocol/cow-sdk", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@cowprotocol/cow-sdk")>()),
+  OrderBookApi: class {
+    getQuote = getQuote;
+  },
+}));
+
+vi.mock("../util/tokens", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../util/tokens")>()),
+  resolveToken: async (_provider: unknown, chainId: number, address: string) =>
+    address === USDC
+      ? {
+          chainId,
+          address,
+          symbol: "USDC",
+          name: "USD Coin",
+          decimals: 6,
+          isStablecoin: true,
+          fiatPeg: "USD",
+        }
+      : { chainId, address, symbol: "DAI", name: "Dai", decimals: 18 },
+}));
+
+// 1 gwei per gas
+vi.mock("../util/fees", () => ({
+  estimateFees: async () => ({
+    expectedFeePerGas: ethers.utils.parseUnits("1", "gwei"),
+  }),
+}));
+
+vi.mock("../util/prices", () => ({ getUsdPrice: vi.fn() }));
+
+const V2_FACTORY = new ethers.utils.Interface([
+  "function getPair(address tokenA, address tokenB) view returns (address pair)",
+]);
+const V2_PAIR = new ethers.utils.Interface([
+  "function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)",
+  "function token0() view returns (address)",
+]);
+const V3_QUOTER = new ethers.utils.Interface([
+  "function quoteExactInput(bytes path, uint256 amountIn) returns (uint256 amountOut, uint160[] sqrtPriceX96AfterList, uint32[] initializedTicksCrossedList, uint256 gasEstimate)",
+]);
+
+// Answers eth_call with whatever `call` returns for the target and calldata,
+// recording every call; a thrown error stands for a revert
+const stubProvider = (call: (to: string, data: string) => string) => {
+  const calls: { to: string; data: string }[] = [];
+  const provider = {
+    _isProvider: true,
+    call: async ({ to, data }: { to: string; data: string }) => {
+      calls.push({ to, data });
+      return call(to, data);
+    },
+  } as unknown as ethers.providers.Provider;
+  return { provider, calls };
+};
+
+const dai = (amount: string) => ethers.utils.parseUnits(amount, 18);
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+const weth = (amount: string) => ethers.utils.parseUnits(amount, 18);
+
+const request: QuoteRequest = {
+  chain: "arbitrum",
+  owner: "0x0000000000000000000000000000000000000001",
+  fromAsset: DAI,
+  toAsset: USDC,
+  amountIn: dai("1000"),
+  slippage: 0.005,
+};
+
+beforeEach(() => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  // ETH at $2000, so each 100,000 gas at 1 gwei costs 0.2 USDC
+  vi.mocked(getUsdPrice).mockImplementation(async (symbol) =>
+    symbol === "ETH" ? 2000 : undefined,
+  );
+});
+
+describe("Uniswap V2 adapter", () => {
+  // Pools by pair address, with their reserves in token0, token1 order
+  const pools = [
+    { tokens: [DAI, USDC], reserves: [dai("1000000"), usdc("990000")] },
+    { tokens: [DAI, WETH], reserves: [dai("2000000"), weth("1000")] },
+    { tokens: [WETH, USDC], reserves: [weth("1000"), usdc("2000000")] },
+  ].map(({ tokens, reserves }, i) => {
+    const [token0, token1] = [...tokens].sort((a, b) =>
+      a.toLowerCase() < b.toLowerCase() ? -1 : 1,
+    );
+    return {
+      address: ethers.utils.hexZeroPad(ethers.utils.hexlify(i + 1), 20),
+      token0: token0!,
+      token1: token1!,
+      reserves: token0 === tokens[0] ? reserves : [...reserves].reverse(),
+    };
+  });
+
+  const { provider, calls } = stubProvider((to, data) => {
+    if (to.toLowerCase() === UNISWAP_V2_FACTORY.toLowerCase()) {
+      const [tokenA, tokenB] = V2_FACTORY.decodeFunctionData("getPair", data);
+      const pool = pools.find(
+        ({ token0, token1 }) =>
+          [token0, token1].includes(tokenA) &&
+          [token0, token1].includes(tokenB),
+      );
+      return V2_FACTORY.encodeFunctionResult("getPair", [
+        pool?.address ?? ethers.constants.AddressZero,
+      ]);
+    }
+    const pool = pools.find(({ address }) => address === to.toLowerCase())!;
+    const { name } = V2_PAIR.parseTransaction({ data });
+    return name === "token0"
+      ? V2_PAIR.encodeFunctionResult("token0", [pool.token0])
+      : V2_PAIR.encodeFunctionResult("getReserves", [...pool.reserves, 0]);
+  });
+
+  // The constant product formula with the 0.3% pool fee
+  const amountOut = (
+    amountIn: ethers.BigNumber,
+    reserveIn: ethers.BigNumber,
+    reserveOut: ethers.BigNumber,
+  ) =>
+    amountIn
+      .mul(997)
+      .mul(reserveOut)
+      .div(reserveIn.mul(1000).add(amountIn.mul(997)));
+
+  it("routes through the pools that give the most output and nets off the gas", async () => {
+    const { quotes, failures } = await getSwapQuotes(provider, request, [
+      getVenueAdapter("uniswap-v2"),
+    ]);
+
+    // Direct and through WETH, the only base token other than the pair itself
+    const pairsRead = calls
+      .filter(({ to }) => to === UNISWAP_V2_FACTORY)
+      .map(({ data }) => [...V2_FACTORY.decodeFunctionData("getPair", data)]);
+    expect(pairsRead).toEqual([
+      [DAI, USDC],
+      [DAI, WETH],
+      [WETH, USDC],
+    ]);
+
+    const viaWeth = amountOut(
+      amountOut(dai("1000"), dai("2000000"), weth("1000")),
+      weth("1000"),
+      usdc("2000000"),
+    );
+    const direct = amountOut(dai("1000"), dai("1000000"), usdc("990000"));
+    expect(viaWeth.gt(direct)).toBe(true);
+
+    expect(failures).toEqual([]);
+    const [quote] = quotes;
+    expect(quote).toMatchObject({
+      venue: "uniswap-v2",
+      path: [DAI, WETH, USDC],
+      amountOut: viaWeth,
+      amountOutMin: viaWeth.mul(9950).div(10000),
+      // Two hops
+      gasUnits: ethers.BigNumber.from(210_000),
+      gasCost: ethers.utils.parseUnits("210000", "gwei"),
+      gasCostInOutput: usdc("0.42"),
+      netOutput: viaWeth.sub(usdc("0.42")),
+      gasless: false,
+    });
+  });
+});
+
+describe("Uniswap V3 adapter", () => {
+  // USDC out per DAI in, in millionths, and the gas the quoter measures, for
+  // each direct pool; there is no 0.01% pool and nothing routes through WETH
+  const directPools: Record<number, { rate: number; gas: number }> = {
+    500: { rate: 998_500, gas: 150_000 },
+    3000: { rate: 999_000, gas: 110_000 },
+    10000: { rate: 990_000, gas: 100_000 },
+  };
+
+  const { provider, calls } = stubProvider((to, data) => {
+    expect(to).toBe(UNISWAP_V3_QUOTER);
+    const [path, amountIn] = V3_QUOTER.decodeFunctionData(
+      "quoteExactInput",
+      data,
+    );
+    const fee = Object.keys(directPools)
+      .map(Number)
+      .find((tier) => encodeUniswapV3Path([DAI, USDC], [tier]) === path);
+    if (fee === undefined) {
+      throw new Error("execution reverted");
+    }
+    const { rate, gas } = directPools[fee]!;
+    return V3_QUOTER.encodeFunctionResult("quoteExactInput", [
+      amountIn.mul(rate).div(1_000_000).div(1e12),
+      [],
+      [],
+      gas,
+    ]);
+  });
+
+  it("picks the fee tier with the most output and nets off the gas", async () => {
+    const { quotes, failures } = await getSwapQuotes(provider, request, [
+      getVenueAdapter("uniswap-v3"),
+    ]);
+
+    // Four direct tiers and four routes through WETH, then a small reference
+    // quote on the best route for the price impact
+    expect(calls).toHaveLength(9);
+
+    expect(failures).toEqual([]);
+    const [quote] = quotes;
+    expect(quote).toMatchObject({
+      venue: "uniswap-v3",
+      path: [DAI, USDC],
+      poolFees: [3000],
+      amountOut: usdc("999"),
+      amountOutMin: usdc("994.005"),
+      priceImpact: 0,
+      // Quoter gas plus the router overhead
+      gasUnits: ethers.BigNumber.from(170_000),
+      gasCostInOutput: usdc("0.34"),
+      netOutput: usdc("998.66"),
+      gasless: false,
+    });
+  });
+});
+
+describe("CoW Protocol adapter", () => {
+  const provider = {} as ethers.providers.Provider;
+
+  it("quotes the buy amount net of the solver fee with no network fee", async () => {
+    // The solver fee comes out of the sell amount, so it is already reflected
+    // in the buy amount
+    getQuote.mockResolvedValue({
+      quote: {
+        sellToken: DAI,
+        buyToken: USDC,
+        sellAmount: dai("998").toString(),
+        feeAmount: dai("2").toString(),
+        buyAmount: usdc("997.5").toString(),
+        kind: "sell",
+      },
+    });
+
+    const { quotes, failures } = await getSwapQuotes(provider, request, [
+      getVenueAdapter("cow"),
+    ]);
+
+    expect(getQuote).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sellToken: DAI,
+        buyToken: USDC,
+        from: request.owner,
+        sellAmountBeforeFee: dai("1000").toString(),
+        kind: "sell",
+      }),
+    );
+    expect(failures).toEqual([]);
+    const [quote] = quotes;
+    expect(quote).toMatchObject({
+      venue: "cow",
+      spender: COW_PROTOCOL_VAULT_RELAYER_ADDRESS[42161],
+      path: [DAI, USDC],
+      amountOut: usdc("997.5"),
+      amountOutMin: usdc("992.5125"),
+      gasUnits: ethers.constants.Zero,
+      gasCost: ethers.constants.Zero,
+      netOutput: usdc("997.5"),
+      gasless: true,
+    });
+  });
+
+  it("reports an order book error as a failure", async () => {
+    getQuote.mockRejectedValue(new Error("NoLiquidity"));
+
+    const { quotes, failures } = await getSwapQuotes(provider, request, [
+      getVenueAdapter("cow"),
+    ]);
+
+    expect(quotes).toEqual([]);
+    expect(failures).toEqual([
+      { venueName: "CoW Protocol", error: "NoLiquidity" },
+    ]);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+
+import React, { useState } from "react";
+import { Contact, ContactInput, validateContact } from "../util/addressBook";
+import { getChain, getChains } from "../util/chains";
+
+interface AddressBookPanelProps {
+  contacts: Contact[];
+  // Resolve to whether the change was saved; failures are reported by the caller
+  onSave: (contact: ContactInput) => Promise<boolean>;
+  onDelete: (contact: Contact) => Promise<boolean>;
+}
+
+// Every field as typed; empty strings are dropped when the contact is saved
+interface ContactForm {
+  id?: string;
+  nickname: string;
+  address: string;
+  preferredChain: string;
+  payoutCurrency: string;
+  country: string;
+}
+
+const EMPTY_FORM: ContactForm = { nickname: "", address: "", preferredChain: "", payoutCurrency: "", country: "" };
+
+const toForm = (contact: Contact): ContactForm => ({
+  id: contact.id,
+  nickname: contact.nickname,
+  address: contact.address,
+  preferredChain: contact.preferredChain ?? "",
+  payoutCurrency: contact.payoutCurrency ?? "",
+  country: contact.country ?? "",
+});
+
+const toContactInput = (form: ContactForm): ContactInput => {
+  const contact: ContactInput = { nickname: form.nickname, address: form.address };
+  if (form.id) contact.id = form.id;
+  if (form.preferredChain) contact.preferredChain = form.preferredChain;
+  if (form.payoutCurrency.trim()) contact.payoutCurrency = form.payoutCurrency;
+  if (form.country.trim()) contact.country = form.country.trim();
+  return contact;
+};
+
+const describeContact = (contact: Contact) =>
+  [
+    contact.preferredChain && (getChain(contact.preferredChain)?.name ?? contact.preferredChain),
+    contact.payoutCurrency,
+    contact.country,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+export default function AddressBookPanel({ contacts, onSave, onDelete }: AddressBookPanelProps) {
+  const [expanded, setExpanded] = useState<boolean>(false);
+  const [form, setForm] = useState<ContactForm | null>(null);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const update = (changes: Partial<ContactForm>) => {
+    setForm((current) => (current ? { ...current, ...changes } : current));
+    setIssues([]);
+  };
+
+  const edit = (contact: ContactForm | null) => {
+    setForm(contact);
+    setIssues([]);
+  };
+
+  const save = async () => {
+    if (!form) return;
+    const contact = toContactInput(form);
+    const found = validateContact(contact, contacts);
+    if (found.length > 0) {
+      setIssues(found);
+      return;
+    }
+    setBusy(true);
+    try {
+      if (await onSave(contact)) setForm(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async (contact: Contact) => {
+    setBusy(true);
+    try {
+      if ((await onDelete(contact)) && form?.id === contact.id) setForm(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="w-full border border-gray-800 rounded-lg overflow-hidden">
+      <button onClick={() => setExpanded(!expanded)} className="transaction-history-header">
+        <div className="flex items-center">
+          <span className="text-primary font-medium">Address book</span>
+          {contacts.length > 0 && (
+            <span className="ml-2 bg-primary text-white text-xs rounded-full h-5 min-w-[1.25rem] px-1 flex items-center justify-center">
+              {contacts.length}
+            </span>
+          )}
+        </div>
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className={`h-4 w-4 text-gray-400 transition-transform duration-200 ${expanded ? "transform rotate-180" : ""}`}
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <polyline points="6 9 12 15 18 9"></polyline>
+        </svg>
+      </button>
+
+      {expanded && (
+        <div className="max-h-[500px] overflow-y-auto bg-[#1a1a1a]">
+          <div className="flex justify-between items-center px-4 pt-4 text-xs text-gray-400">
+            <span>Send to a contact by nickname, e.g. &quot;send 20 USDC to Mom&quot;.</span>
+            {!form && (
+              <button onClick={() => edit(EMPTY_FORM)} className="text-primary hover:underline">
+                Add contact
+              </button>
+            )}
+          </div>
+
+          {form && (
+            <div className="p-4 space-y-2">
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  value={form.nickname}
+                  onChange={(e) => update({ nickname: e.target.value })}
+                  placeholder="Nickname"
+                  className="history-filter-input"
+                />
+                <input
+                  value={form.address}
+                  onChange={(e) => update({ address: e.target.value })}
+                  placeholder="0x address or ENS name"
+                  className="history-filter-input font-mono"
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <select
+                  value={form.preferredChain}
+                  onChange={(e) => update({ preferredChain: e.target.value })}
+                  className="history-filter-input"
+                >
+                  <option value="">Any chain</option>
+                  {getChains().map((chain) => (
+                    <option key={chain.key} value={chain.key}>
+                      {chain.name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  value={form.payoutCurrency}
+                  onChange={(e) => update({ payoutCurrency: e.target.value })}
+                  placeholder="Payout currency"
+                  className="history-filter-input"
+                />
+                <input
+                  value={form.country}
+                  onChange={(e) => update({ country: e.target.value })}
+                  placeholder="Country, e.g. MX"
+                  maxLength={2}
+                  className="history-filter-input"
+                />
+              </div>
+              {issues.map((issue) => (
+                <p key={issue} className="text-xs text-status-error">
+                  {issue}
+                </p>
+              ))}
+              <div className="flex justify-end space-x-4 text-sm">
+                <button onClick={() => edit(null)} disabled={busy} className="text-gray-400 hover:underline">
+                  Cancel
+                </button>
+                <button
+                  onClick={() => void save()}
+                  disabled={busy}
+                  className="text-primary hover:underline disabled:text-gray-600 disabled:no-underline"
+                >
+                  {busy ? "Saving…" : "Save"}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {contacts.length === 0 && !form && (
+            <p className="p-4 text-sm text-gray-400 text-center">No saved contacts yet.</p>
+          )}
+          <div className="divide-y divide-gray-800">
+            {contacts.map((contact) => (
+              <div key={contact.id} className="transaction-item">
+                <div className="min-w-0">
+                  <div className="font-medium">{contact.nickname}</div>
+                  <div className="text-sm text-gray-400 mt-1 font-mono truncate">{contact.address}</div>
+                  {describeContact(contact) && (
+                    <div className="text-xs text-gray-500 mt-1">{describeContact(contact)}</div>
+                  )}
+                </div>
+                <div className="text-right text-xs space-x-3 whitespace-nowrap">
+                  <button onClick={() => edit(toForm(contact))} disabled={busy} className="text-primary hover:underline disabled:text-gray-600">
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => void remove(contact)}
+                    disabled={busy}
+                    className="text-status-error hover:underline disabled:text-gray-600 disabled:no-underline"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { AllowanceEntry, listAllowances } from "../util/allowances";
+import { getExplorerAddressUrl, requireChain } from "../util/chains";
+
+interface AllowancesPanelProps {
+  owner?: string;
+  // Resolves to whether the allowance was revoked; failures are reported by the caller
+  onRevoke: (entry: AllowanceEntry) => Promise<boolean>;
+}
+
+const entryKey = (entry: AllowanceEntry) => `${entry.chain}:${entry.token.address}:${entry.spender.address}`;
+
+const formatAmount = (entry: AllowanceEntry) =>
+  entry.unlimited
+    ? `Unlimited ${entry.token.symbol}`
+    : `${ethers.utils.formatUnits(entry.amount, entry.token.decimals)} ${entry.token.symbol}`;
+
+export default function AllowancesPanel({ owner, onRevoke }: AllowancesPanelProps) {
+  const [expanded, setExpanded] = useState<boolean>(false);
+  const [entries, setEntries] = useState<AllowanceEntry[] | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  const load = async () => {
+    if (!owner) return;
+    setLoading(true);
+    try {
+      setEntries(await listAllowances(owner));
+    } catch (error) {
+      console.error("Failed to load allowances:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // A different wallet has different allowances
+  useEffect(() => {
+    setEntries(null);
+    setExpanded(false);
+  }, [owner]);
+
+  // Allowances are read from every chain, so only once the section is opened
+  const toggle = () => {
+    if (!expanded && !entries) void load();
+    setExpanded(!expanded);
+  };
+
+  const revoke = async (entry: AllowanceEntry) => {
+    setRevoking(entryKey(entry));
+    try {
+      if (!(await onRevoke(entry))) return;
+      setEntries((current) => current?.filter((other) => entryKey(other) !== entryKey(entry)) ?? null);
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <div className="w-full border border-gray-800 rounded-lg overflow-hidden">
+      <button onClick={toggle} className="transaction-history-header">
+        <div className="flex items-center">
+          <span className="text-primary font-medium">Allowances</span>
+          {entries && entries.length > 0 && (
+            <span className="ml-2 bg-primary text-white text-xs rounded-full h-5 min-w-[1.25rem] px-1 flex items-center justify-center">
+              {entries.length}
+            </span>
+          )}
+        </div>
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className={`h-4 w-4 text-gray-400 transition-transform duration-200 ${expanded ? "transform rotate-180" : ""}`}
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <polyline points="6 9 12 15 18 9"></polyline>
+        </svg>
+      </button>
+
+      {expanded && (
+        <div className="max-h-[500px] overflow-y-auto bg-[#1a1a1a]">
+          <div className="flex justify-between items-center px-4 pt-4 text-xs text-gray-400">
+            <span>Tokens the swap venues can spend from your wallet.</span>
+            <button onClick={() => void load()} disabled={loading} className="text-primary hover:underline disabled:text-gray-600">
+              Refresh
+            </button>
+          </div>
+          {loading && !entries && <p className="p-4 text-sm text-gray-400 text-center">Reading allowances…</p>}
+          {entries && entries.length === 0 && (
+            <p className="p-4 text-sm text-gray-400 text-center">No open allowances for known tokens.</p>
+          )}
+          <div className="divide-y divide-gray-800">
+            {entries?.map((entry) => (
+              <div key={entryKey(entry)} className="transaction-item">
+                <div>
+                  <div className="font-medium">{entry.token.symbol}</div>
+                  <div className="text-sm text-gray-400 mt-1">
+                    {requireChain(entry.chain).name} ·{" "}
+                    <a
+                      href={getExplorerAddressUrl(entry.chain, entry.spender.address)}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-primary hover:underline"
+                    >
+                      {entry.spender.name}
+                    </a>
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div className={`font-mono ${entry.unlimited ? "text-status-error" : ""}`}>{formatAmount(entry)}</div>
+                  <button
+                    onClick={() => void revoke(entry)}
+                    disabled={revoking !== null}
+                    className="text-xs text-status-error hover:underline mt-1 disabled:text-gray-600 disabled:no-underline"
+                  >
+                    {revoking === entryKey(entry) ? "Revoking…" : "Revoke"}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import Head from "next/head";
+import { ConfigError } from "../util/config";
+
+interface ConfigErrorPageProps {
+  error: ConfigError;
+}
+
+export default function ConfigErrorPage({ error }: ConfigErrorPageProps) {
+  return (
+    <>
+      <Head>
+        <title>Brinco - Configuration Error</title>
+      </Head>
+
+      <main className="flex flex-col items-center justify-center min-h-screen px-4 sm:px-20 bg-background text-text">
+        <div className="card w-full max-w-2xl">
+          <h1 className="text-xl font-semibold text-status-error mb-4">Brinco is misconfigured</h1>
+          <p className="text-gray-400 mb-4">
+            The app can't start until the following settings are fixed. Check the NEXT_PUBLIC_* environment
+            variables and the JSON config file for this deployment.
+          </p>
+          <ul className="list-disc list-inside space-y-2 font-mono text-sm text-gray-300">
+            {error.issues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        </div>
+      </main>
+    </>
+  );
+}
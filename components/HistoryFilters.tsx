@@ -0,0 +1,150 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+
+import React from "react";
+import { getChains } from "../util/chains";
+import { LedgerFilter, TransactionStatus, TransactionType } from "../util/ledger";
+
+interface HistoryFiltersProps {
+  filter: LedgerFilter;
+  onChange: (filter: LedgerFilter) => void;
+}
+
+const TYPES: TransactionType[] = ["transfer", "swap", "wrap", "buy", "remittance"];
+const STATUSES: TransactionStatus[] = ["pending", "completed", "failed"];
+
+// <input type="date"> works with YYYY-MM-DD in local time
+const toDateInput = (timestamp?: number) => {
+  if (timestamp === undefined) return "";
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const fromDateInput = (value: string, endOfDay: boolean) => {
+  if (!value) return undefined;
+  const date = new Date(`${value}T00:00:00`);
+  if (endOfDay) date.setHours(23, 59, 59, 999);
+  return date.getTime();
+};
+
+export default function HistoryFilters({ filter, onChange }: HistoryFiltersProps) {
+  const update = (changes: Partial<LedgerFilter>) => onChange({ ...filter, ...changes });
+  const isFiltered = Object.values(filter).some((value) =>
+    Array.isArray(value) ? value.length > 0 : value !== undefined && value !== ""
+  );
+  const invertedRange = filter.from !== undefined && filter.to !== undefined && filter.from > filter.to;
+
+  return (
+    <div className="p-4 bg-[#1a1a1a] space-y-2">
+      <input
+        type="search"
+        value={filter.search ?? ""}
+        onChange={(e) => update({ search: e.target.value || undefined })}
+        placeholder="Search messages"
+        className="history-filter-input"
+      />
+      <div className="grid grid-cols-3 gap-2">
+        <select
+          value={filter.types?.[0] ?? ""}
+          onChange={(e) => update({ types: e.target.value ? [e.target.value as TransactionType] : undefined })}
+          className="history-filter-input"
+        >
+          <option value="">All types</option>
+          {TYPES.map((type) => (
+            <option key={type} value={type}>
+              {type}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filter.statuses?.[0] ?? ""}
+          onChange={(e) =>
+            update({ statuses: e.target.value ? [e.target.value as TransactionStatus] : undefined })
+          }
+          className="history-filter-input"
+        >
+          <option value="">All statuses</option>
+          {STATUSES.map((status) => (
+            <option key={status} value={status}>
+              {status}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filter.chain ?? ""}
+          onChange={(e) => update({ chain: e.target.value || undefined })}
+          className="history-filter-input"
+        >
+          <option value="">All chains</option>
+          {getChains().map((chain) => (
+            <option key={chain.key} value={chain.key}>
+              {chain.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          value={filter.token ?? ""}
+          onChange={(e) => update({ token: e.target.value.trim() || undefined })}
+          placeholder="Token address"
+          className="history-filter-input font-mono"
+        />
+        <input
+          value={filter.recipient ?? ""}
+          onChange={(e) => update({ recipient: e.target.value.trim() || undefined })}
+          placeholder="Recipient"
+          className="history-filter-input font-mono"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-2 items-center text-sm text-gray-400">
+        <label className="flex items-center space-x-2">
+          <span>From</span>
+          <input
+            type="date"
+            value={toDateInput(filter.from)}
+            onChange={(e) => update({ from: fromDateInput(e.target.value, false) })}
+            className="history-filter-input"
+          />
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>To</span>
+          <input
+            type="date"
+            value={toDateInput(filter.to)}
+            onChange={(e) => update({ to: fromDateInput(e.target.value, true) })}
+            className="history-filter-input"
+          />
+        </label>
+      </div>
+      {invertedRange && <p className="text-xs text-red-500">The From date is after the To date.</p>}
+      {isFiltered && (
+        <button onClick={() => onChange({})} className="text-xs text-primary hover:underline">
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
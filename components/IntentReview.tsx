@@ -0,0 +1,400 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React, { useState } from "react";
+import { IntentPreview, TokenInfo } from "../util/preview";
+import { DEFAULT_FEE_SPEED, FEE_SPEEDS, FeeSpeed } from "../util/fees";
+import { ApprovalMode, DEFAULT_APPROVAL_MODE } from "../util/approvals";
+import { ExecutionOptions } from "../util/executor";
+import { SwapVenue } from "../util/config";
+import {
+  PriceImpactTier,
+  SlippageSetting,
+  formatSlippage,
+  validateSlippage,
+} from "../util/slippage";
+import { getTokenLabel, isNativeToken } from "../util/tokens";
+
+interface IntentReviewProps {
+  preview: IntentPreview;
+  onConfirm: (options: ExecutionOptions) => void;
+  // Re-previews the swap on another quoted venue
+  onSelectVenue: (venue: SwapVenue) => void;
+  // Saves a new slippage setting and re-previews the swap with it
+  onSlippageChange: (setting: SlippageSetting) => void;
+  onEdit: () => void;
+  onReject: () => void;
+}
+
+const titles: Record<IntentPreview["intent"]["transaction_type"], string> = {
+  transfer: "Review Transfer",
+  swap: "Review Swap",
+  wrap: "Review Wrap",
+  unwrap: "Review Unwrap",
+  buy: "Review Purchase",
+};
+
+const Row = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <>
+    <div className="text-gray-400">{label}:</div>
+    <div className="text-right font-mono break-all">{children}</div>
+  </>
+);
+
+const speedLabels: Record<FeeSpeed, string> = {
+  slow: "Slow",
+  normal: "Normal",
+  fast: "Fast",
+};
+
+const impactColors: Record<PriceImpactTier, string> = {
+  low: "text-green-500",
+  medium: "text-yellow-500",
+  high: "text-red-500",
+};
+
+const formatToken = (token: TokenInfo) =>
+  isNativeToken(token.address)
+    ? `${token.symbol} (native currency)`
+    : `${token.symbol} (${token.decimals} decimals) ${token.address.slice(0, 6)}...${token.address.slice(-4)}`;
+
+export default function IntentReview({
+  preview,
+  onConfirm,
+  onSelectVenue,
+  onSlippageChange,
+  onEdit,
+  onReject,
+}: IntentReviewProps) {
+  const { intent, recipient, token, swap, wrap, approval, gas, fees } = preview;
+  const [speed, setSpeed] = useState<FeeSpeed>(DEFAULT_FEE_SPEED);
+  const [approvalMode, setApprovalMode] = useState<ApprovalMode>(DEFAULT_APPROVAL_MODE);
+  const [customSlippage, setCustomSlippage] = useState<string>(
+    swap?.slippageSetting.mode === "custom" ? String(swap.slippageSetting.tolerance * 100) : ""
+  );
+  // Acknowledgements hold the preview they were given for, so a new quote or
+  // recipient has to be acknowledged again
+  const [impactAcceptedFor, setImpactAcceptedFor] = useState<IntentPreview | null>(null);
+  const [recipientAcceptedFor, setRecipientAcceptedFor] = useState<IntentPreview | null>(null);
+  const impactAccepted = impactAcceptedFor === preview;
+  const recipientAccepted = recipientAcceptedFor === preview;
+  const fee = fees?.[speed];
+  // Lookalike and token contract recipients almost always lose the funds
+  const riskyRecipient = Boolean(recipient?.check?.lookalikeOf || recipient?.check?.token);
+  const slippageError = customSlippage ? validateSlippage(Number(customSlippage) / 100) : undefined;
+  const blocked =
+    Boolean(recipient?.error) ||
+    Boolean(preview.revert) ||
+    (swap !== undefined && !swap.minimumReceived) ||
+    (swap?.priceImpactTier === "high" && !impactAccepted) ||
+    (riskyRecipient && !recipientAccepted);
+
+  const applyCustomSlippage = () => {
+    if (customSlippage && !slippageError) {
+      onSlippageChange({ mode: "custom", tolerance: Number(customSlippage) / 100 });
+    }
+  };
+
+  return (
+    <div className="text-center w-full">
+      <h3 className="text-xl font-semibold mb-4">{titles[intent.transaction_type]}</h3>
+      <p className="text-sm text-gray-400 mb-4">
+        Check that this matches what you asked for. Nothing has been signed yet.
+      </p>
+
+      <div className="bg-gray-900 p-4 rounded-lg border border-gray-700 text-left">
+        <div className="grid grid-cols-2 gap-2">
+          <Row label="Network">
+            {preview.chain} ({preview.chainId})
+          </Row>
+
+          {intent.transaction_type === "buy" ? (
+            <>
+              <Row label="Amount">${preview.amount} USD</Row>
+              <Row label="Asset">{getTokenLabel(preview.chainId, intent.response.cryptoAsset)}</Row>
+              <Row label="Payment Method">{preview.paymentMethod?.replace("_", " ")}</Row>
+            </>
+          ) : (
+            <>
+              <Row label="Amount">
+                {preview.amount} {token?.symbol}
+              </Row>
+              {token && <Row label="Token">{formatToken(token)}</Row>}
+            </>
+          )}
+
+          {recipient && (
+            <Row label="Recipient">
+              {recipient.address && recipient.address !== recipient.input ? (
+                <>
+                  {recipient.input}
+                  <span className="block text-xs text-gray-400">
+                    {recipient.contact ? "saved contact, " : ""}resolves to {recipient.address}
+                  </span>
+                </>
+              ) : (
+                recipient.address || recipient.input
+              )}
+              {recipient.check?.ensName && (
+                <span className="flex items-center text-xs text-gray-400 mt-1">
+                  {recipient.check.avatar && (
+                    <img src={recipient.check.avatar} alt="" className="h-4 w-4 rounded-full mr-1" />
+                  )}
+                  Primary name {recipient.check.ensName}
+                </span>
+              )}
+              {recipient.firstTime && (
+                <span className="block text-xs text-yellow-500">First time sending to this address</span>
+              )}
+              {recipient.check?.denylisted && <span className="block text-xs text-red-500">On the denylist</span>}
+              {recipient.check?.lookalikeOf && (
+                <span className="block text-xs text-red-500">Looks like {recipient.check.lookalikeOf}&apos;s address</span>
+              )}
+              {recipient.check?.token ? (
+                <span className="block text-xs text-red-500">Token contract ({recipient.check.token})</span>
+              ) : (
+                recipient.check?.isContract && <span className="block text-xs text-yellow-500">Contract, not a wallet</span>
+              )}
+            </Row>
+          )}
+
+          {wrap && (
+            <Row label="You Receive">
+              {preview.amount} {wrap.outputToken.symbol}
+            </Row>
+          )}
+
+          {swap && (
+            <>
+              <Row label="Venue">{swap.venueName ?? "Unavailable"}</Row>
+              <Row label="You Receive">{formatToken(swap.outputToken)}</Row>
+              <Row label="Expected Output">
+                {swap.expectedOutput ? `${swap.expectedOutput} ${swap.outputToken.symbol}` : "Unavailable"}
+              </Row>
+              <Row label="Minimum Received">
+                {swap.minimumReceived
+                  ? `${swap.minimumReceived} ${swap.outputToken.symbol} (${formatSlippage(swap.slippage)} slippage)`
+                  : "Unavailable"}
+              </Row>
+              {swap.priceImpact !== undefined && swap.priceImpactTier && (
+                <Row label="Price Impact">
+                  <span className={impactColors[swap.priceImpactTier]}>{formatSlippage(swap.priceImpact)}</span>
+                </Row>
+              )}
+            </>
+          )}
+
+          {intent.transaction_type !== "buy" && (
+            <Row label="Network Fee">
+              {fee ? `${fee.usd ? `≈ ${fee.usd} · ` : ""}${fee.cost}` : gas ? gas.cost : "Unknown"}
+              {gas && gas.units !== "0" && <span className="block text-xs text-gray-400">{gas.units} gas</span>}
+            </Row>
+          )}
+        </div>
+
+        {fees && (
+          <div className="flex justify-end space-x-2 mt-4">
+            {FEE_SPEEDS.map((option) => (
+              <button
+                key={option}
+                onClick={() => setSpeed(option)}
+                className={`px-3 py-1 rounded-md text-sm border ${
+                  option === speed ? "border-primary text-primary" : "border-gray-700 text-gray-400"
+                }`}
+              >
+                {speedLabels[option]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {swap && (
+          <div className="mt-4">
+            <p className="text-sm text-gray-400 mb-2">Slippage tolerance:</p>
+            <div className="flex items-center justify-end space-x-2">
+              <button
+                onClick={() => {
+                  setCustomSlippage("");
+                  onSlippageChange({ mode: "auto" });
+                }}
+                className={`px-3 py-1 rounded-md text-sm border ${
+                  swap.slippageSetting.mode === "auto" ? "border-primary text-primary" : "border-gray-700 text-gray-400"
+                }`}
+              >
+                Auto
+              </button>
+              <input
+                type="number"
+                min="0.01"
+                max="50"
+                step="0.1"
+                value={customSlippage}
+                onChange={(e) => setCustomSlippage(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && applyCustomSlippage()}
+                placeholder={formatSlippage(swap.slippage).replace("%", "")}
+                className={`w-20 px-2 py-1 rounded-md text-sm bg-transparent border text-right ${
+                  swap.slippageSetting.mode === "custom" ? "border-primary" : "border-gray-700"
+                }`}
+              />
+              <span className="text-sm text-gray-400">%</span>
+            </div>
+            {slippageError && <p className="text-xs text-red-500 text-right mt-1">{slippageError}</p>}
+          </div>
+        )}
+
+        {swap?.priceImpactTier === "high" && swap.priceImpact !== undefined && (
+          <div className="mt-4 p-3 bg-red-50 rounded-lg text-red-700 text-sm">
+            <p className="font-medium mb-1">High price impact</p>
+            <p>
+              This swap moves the price by {formatSlippage(swap.priceImpact)}, so you get noticeably less than the
+              market rate. A smaller amount or another venue may do better.
+            </p>
+            <label className="flex items-center mt-2">
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={impactAccepted}
+                onChange={(e) => setImpactAcceptedFor(e.target.checked ? preview : null)}
+              />
+              I understand and want to swap anyway
+            </label>
+          </div>
+        )}
+
+        {riskyRecipient && !recipient?.check?.denylisted && (
+          <div className="mt-4 p-3 bg-red-50 rounded-lg text-red-700 text-sm">
+            <p className="font-medium mb-1">Check the recipient</p>
+            <p>Compare the whole address with the one you meant to send to, not just its first and last characters.</p>
+            <label className="flex items-center mt-2">
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={recipientAccepted}
+                onChange={(e) => setRecipientAcceptedFor(e.target.checked ? preview : null)}
+              />
+              I have checked the address and want to send anyway
+            </label>
+          </div>
+        )}
+
+        {swap && swap.quotes.length > 1 && (
+          <div className="mt-4">
+            <p className="text-sm text-gray-400 mb-2">Quotes, best after network fees first:</p>
+            <div className="space-y-2">
+              {swap.quotes.map((quote) => (
+                <button
+                  key={quote.venue}
+                  onClick={() => onSelectVenue(quote.venue)}
+                  disabled={quote.venue === swap.venue}
+                  className={`w-full flex justify-between p-2 rounded-md text-sm border text-left ${
+                    quote.venue === swap.venue ? "border-primary" : "border-gray-700 hover:border-gray-500"
+                  }`}
+                >
+                  <span>
+                    {quote.venueName}
+                    <span className="block text-xs text-gray-400">{quote.route}</span>
+                  </span>
+                  <span className="text-right font-mono">
+                    {quote.expectedOutput} {swap.outputToken.symbol}
+                    <span className="block text-xs text-gray-400">
+                      {quote.netOutput ? `${quote.netOutput} after fees · ` : ""}
+                      {quote.networkFee}
+                    </span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {approval && (
+          <div className="mt-4 p-3 bg-yellow-50 rounded-lg text-yellow-800 text-sm">
+            <p className="font-medium mb-1">⚠️ Approval required</p>
+            <p>
+              {approval.permit
+                ? `You will sign a permit, with no transaction, letting the ${approval.spenderName} (${approval.spender}) spend`
+                : `Before the swap, your wallet will ask you to approve the ${approval.spenderName} (${approval.spender}) to spend`}{" "}
+              {approvalMode === "exact" ? `exactly ${approval.exactAmount}` : "unlimited"} {token?.symbol}.
+            </p>
+            <div className="flex space-x-4 mt-2">
+              <label className="flex items-center">
+                <input
+                  type="radio"
+                  className="mr-1"
+                  checked={approvalMode === "exact"}
+                  onChange={() => setApprovalMode("exact")}
+                />
+                Exact amount
+              </label>
+              <label className="flex items-center">
+                <input
+                  type="radio"
+                  className="mr-1"
+                  checked={approvalMode === "unlimited"}
+                  onChange={() => setApprovalMode("unlimited")}
+                />
+                Unlimited
+              </label>
+            </div>
+            {approvalMode === "unlimited" && (
+              <p className="text-xs mt-2">
+                Future swaps won&apos;t need another approval, but the spender can move any amount of this token until
+                you revoke it under Allowances.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {preview.revert && (
+        <div className="mt-4 p-4 bg-red-50 rounded-lg text-left">
+          <p className="font-medium text-red-700 mb-1">This transaction would fail</p>
+          <p className="text-sm text-red-700">{preview.revert}</p>
+          <p className="text-xs text-gray-600 mt-2">It was simulated against the pending block and reverted, so it can't be sent.</p>
+        </div>
+      )}
+
+      {preview.warnings.length > 0 && (
+        <div className="mt-4 p-4 bg-red-50 rounded-lg text-left">
+          <ul className="list-disc list-inside text-sm text-red-700">
+            {preview.warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex justify-center space-x-4 mt-6">
+        <button onClick={() => onConfirm({ speed, approval: approvalMode, venue: swap?.venue, slippage: swap?.slippage })} className="btn-primary" disabled={blocked}>
+          Confirm
+        </button>
+        <button onClick={onEdit} className="btn-secondary">
+          Edit
+        </button>
+        <button onClick={onReject} className="btn-secondary">
+          Reject
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { OpenOrder, listOpenOrders } from "../util/orders";
+import { requireChain } from "../util/chains";
+import { getToken, getTokenLabel } from "../util/tokens";
+
+interface OrdersPanelProps {
+  owner?: string;
+  // Resolves to whether the order was cancelled; failures are reported by the caller
+  onCancel: (order: OpenOrder) => Promise<boolean>;
+}
+
+const formatAmount = (chainId: number, address: string, amount: string) => {
+  const token = getToken(chainId, address);
+  return token
+    ? `${ethers.utils.formatUnits(amount, token.decimals)} ${token.symbol}`
+    : `${amount} ${getTokenLabel(chainId, address)}`;
+};
+
+export default function OrdersPanel({ owner, onCancel }: OrdersPanelProps) {
+  const [expanded, setExpanded] = useState<boolean>(false);
+  const [orders, setOrders] = useState<OpenOrder[] | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [cancelling, setCancelling] = useState<string | null>(null);
+
+  const load = async () => {
+    if (!owner) return;
+    setLoading(true);
+    try {
+      setOrders(await listOpenOrders(owner));
+    } catch (error) {
+      console.error("Failed to load open orders:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // A different wallet has different orders
+  useEffect(() => {
+    setOrders(null);
+    setExpanded(false);
+  }, [owner]);
+
+  // Orders are read from every chain's order book, so only once the section is opened
+  const toggle = () => {
+    if (!expanded && !orders) void load();
+    setExpanded(!expanded);
+  };
+
+  const cancel = async (order: OpenOrder) => {
+    setCancelling(order.orderId);
+    try {
+      if (!(await onCancel(order))) return;
+      setOrders((current) => current?.filter((other) => other.orderId !== order.orderId) ?? null);
+    } finally {
+      setCancelling(null);
+    }
+  };
+
+  return (
+    <div className="w-full border border-gray-800 rounded-lg overflow-hidden">
+      <button onClick={toggle} className="transaction-history-header">
+        <div className="flex items-center">
+          <span className="text-primary font-medium">Open orders</span>
+          {orders && orders.length > 0 && (
+            <span className="ml-2 bg-primary text-white text-xs rounded-full h-5 min-w-[1.25rem] px-1 flex items-center justify-center">
+              {orders.length}
+            </span>
+          )}
+        </div>
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className={`h-4 w-4 text-gray-400 transition-transform duration-200 ${expanded ? "transform rotate-180" : ""}`}
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <polyline points="6 9 12 15 18 9"></polyline>
+        </svg>
+      </button>
+
+      {expanded && (
+        <div className="max-h-[500px] overflow-y-auto bg-[#1a1a1a]">
+          <div className="flex justify-between items-center px-4 pt-4 text-xs text-gray-400">
+            <span>CoW Protocol orders waiting to be filled.</span>
+            <button onClick={() => void load()} disabled={loading} className="text-primary hover:underline disabled:text-gray-600">
+              Refresh
+            </button>
+          </div>
+          {loading && !orders && <p className="p-4 text-sm text-gray-400 text-center">Reading orders…</p>}
+          {orders && orders.length === 0 && (
+            <p className="p-4 text-sm text-gray-400 text-center">No open orders.</p>
+          )}
+          <div className="divide-y divide-gray-800">
+            {orders?.map((order) => (
+              <div key={order.orderId} className="transaction-item">
+                <div>
+                  <div className="font-medium">
+                    {getTokenLabel(order.chainId, order.sellToken)} → {getTokenLabel(order.chainId, order.buyToken)}
+                  </div>
+                  <div className="text-sm text-gray-400 mt-1">
+                    {requireChain(order.chain).name} · Expires {new Date(order.validTo * 1000).toLocaleString()}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div className="font-mono">{formatAmount(order.chainId, order.sellToken, order.sellAmount)}</div>
+                  <div className="text-xs text-gray-400">
+                    Min. {formatAmount(order.chainId, order.buyToken, order.buyAmount)}
+                    {order.filled > 0 && ` · ${Math.round(order.filled * 100)}% filled`}
+                  </div>
+                  <button
+                    onClick={() => void cancel(order)}
+                    disabled={cancelling !== null}
+                    className="text-xs text-status-error hover:underline mt-1 disabled:text-gray-600 disabled:no-underline"
+                  >
+                    {cancelling === order.orderId ? "Cancelling…" : "Cancel"}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+
+import React, { useEffect, useRef, useState } from "react";
+import { ChainPortfolio, getPortfolioUsdValue, loadPortfolio, readChainPortfolio, watchBlocks } from "../util/portfolio";
+import { formatUsdValue, getPriceSource } from "../util/prices";
+
+interface PortfolioPanelProps {
+  owner?: string;
+}
+
+// New blocks arrive every few seconds on L2s; a chain is re-read at most this often
+const REFRESH_INTERVAL_MS = 15_000;
+
+const formatBalance = (formatted: string) => {
+  const value = Number(formatted);
+  return value > 0 && value < 0.0001 ? "< 0.0001" : value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+};
+
+export default function PortfolioPanel({ owner }: PortfolioPanelProps) {
+  const [expanded, setExpanded] = useState<boolean>(false);
+  const [portfolio, setPortfolio] = useState<ChainPortfolio[] | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const lastRefresh = useRef<Record<string, number>>({});
+
+  const load = async () => {
+    if (!owner) return;
+    setLoading(true);
+    try {
+      const loaded = await loadPortfolio(owner);
+      const now = Date.now();
+      lastRefresh.current = Object.fromEntries(loaded.map((entry) => [entry.chain, now]));
+      setPortfolio(loaded);
+    } catch (error) {
+      console.error("Failed to load portfolio:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // A different wallet has different balances
+  useEffect(() => {
+    setPortfolio(null);
+    setExpanded(false);
+  }, [owner]);
+
+  // While the section is open, re-read a chain when it has a new block
+  const chains = portfolio?.map((entry) => entry.chain).join(",");
+  useEffect(() => {
+    if (!expanded || !owner || !chains) return;
+    const refresh = (chain: string) => {
+      const now = Date.now();
+      if (now - (lastRefresh.current[chain] ?? 0) < REFRESH_INTERVAL_MS) return;
+      lastRefresh.current[chain] = now;
+      readChainPortfolio(owner, chain)
+        .then((updated) =>
+          setPortfolio((current) => current?.map((entry) => (entry.chain === chain ? updated : entry)) ?? null)
+        )
+        .catch((error) => console.warn(`Failed to refresh balances on ${chain}:`, error));
+    };
+    const stops = chains.split(",").map((chain) => watchBlocks(chain, () => refresh(chain)));
+    return () => stops.forEach((stop) => stop());
+  }, [expanded, owner, chains]);
+
+  // Balances are read from every chain, so only once the section is opened
+  const toggle = () => {
+    if (!expanded && !portfolio) void load();
+    setExpanded(!expanded);
+  };
+
+  const holdings = portfolio?.flatMap((entry) => entry.balances.map((balance) => ({ ...balance, entry }))) ?? [];
+  const failed = portfolio?.filter((entry) => entry.error) ?? [];
+
+  return (
+    <div className="w-full border border-gray-800 rounded-lg overflow-hidden">
+      <button onClick={toggle} className="transaction-history-header">
+        <div className="flex items-center">
+          <span className="text-primary font-medium">Portfolio</span>
+          {portfolio && (
+            <span className="ml-2 text-sm text-gray-400">{formatUsdValue(getPortfolioUsdValue(portfolio))}</span>
+          )}
+        </div>
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className={`h-4 w-4 text-gray-400 transition-transform duration-200 ${expanded ? "transform rotate-180" : ""}`}
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <polyline points="6 9 12 15 18 9"></polyline>
+        </svg>
+      </button>
+
+      {expanded && (
+        <div className="max-h-[500px] overflow-y-auto bg-[#1a1a1a]">
+          <div className="flex justify-between items-center px-4 pt-4 text-xs text-gray-400">
+            <span>Balances on every network. Prices from {getPriceSource().name}; testnet tokens are not valued.</span>
+            <button onClick={() => void load()} disabled={loading} className="text-primary hover:underline disabled:text-gray-600">
+              Refresh
+            </button>
+          </div>
+          {loading && !portfolio && <p className="p-4 text-sm text-gray-400 text-center">Reading balances…</p>}
+          {portfolio && holdings.length === 0 && (
+            <p className="p-4 text-sm text-gray-400 text-center">No balances on any network.</p>
+          )}
+          <div className="divide-y divide-gray-800">
+            {holdings.map(({ token, formatted, usdValue, entry }) => (
+              <div key={`${entry.chain}:${token.address}`} className="transaction-item">
+                <div>
+                  <div className="font-medium">{token.symbol}</div>
+                  <div className="text-sm text-gray-400 mt-1">{entry.chainName}</div>
+                </div>
+                <div className="text-right">
+                  <div className="font-mono">{formatBalance(formatted)}</div>
+                  {usdValue !== undefined && (
+                    <div className="text-sm text-gray-400 mt-1">{formatUsdValue(usdValue)}</div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+          {failed.length > 0 && (
+            <p className="px-4 pb-4 text-xs text-status-error">
+              Could not read {failed.map((entry) => entry.chainName).join(", ")}.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
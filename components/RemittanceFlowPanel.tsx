@@ -0,0 +1,325 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React, { useState } from "react";
+import { CostSimulation } from "../util/intents";
+import { TokenBalance } from "../util/executor";
+import { RemittanceFlow, RemittanceMode, StepState, currentStepIndex } from "../util/remittance";
+import { getExplorerTxUrl } from "../util/chains";
+import { abbreviateTransactionHash } from "../util/utils";
+
+interface RemittanceFlowPanelProps {
+  flow: RemittanceFlow;
+  balances: TokenBalance[];
+  onStart: (mode: RemittanceMode) => void;
+  onModeChange: (mode: RemittanceMode) => void;
+  onExecute: () => void;
+  onSkip: () => void;
+  onCancel: () => void;
+  onHide: () => void;
+  onDone: () => void;
+}
+
+const stateLabels: Record<StepState, string> = {
+  idle: "Not started",
+  awaiting_signature: "Awaiting signature",
+  submitted: "Submitted",
+  confirmed: "Confirmed",
+  failed: "Failed",
+  skipped: "Skipped",
+};
+
+const stateColors: Record<StepState, string> = {
+  idle: "text-gray-400",
+  awaiting_signature: "text-status-pending",
+  submitted: "text-status-pending",
+  confirmed: "text-status-success",
+  failed: "text-status-error",
+  skipped: "text-gray-500",
+};
+
+const Spinner = () => (
+  <div className="mt-4 flex justify-center">
+    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+  </div>
+);
+
+const Balances = ({ title, balances }: { title: string; balances: TokenBalance[] }) =>
+  balances.length > 0 ? (
+    <div className="mt-4 p-4 bg-gray-900 rounded-lg border border-gray-800">
+      <h4 className="text-primary font-medium mb-2">{title}</h4>
+      <div className="grid grid-cols-2 gap-2">
+        {balances.map((token) => (
+          <div key={token.address} className="flex justify-between items-center">
+            <span>{token.symbol}:</span>
+            <span className="font-mono">{parseFloat(token.balance).toFixed(4)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  ) : null;
+
+const CostBreakdown = ({ cost }: { cost: CostSimulation }) => (
+  <div className="bg-gray-900 p-4 rounded-lg border border-gray-700 text-left mt-4">
+    <h4 className="text-lg font-medium text-primary mb-2">Remittance Cost Simulation</h4>
+
+    <div className="grid grid-cols-2 gap-2 mt-4">
+      <div className="text-gray-400">USD Amount:</div>
+      <div className="text-right font-mono">${cost.usd_amount.toFixed(2)}</div>
+
+      <div className="text-gray-400">EUR Amount:</div>
+      <div className="text-right font-mono">€{cost.eur_amount.toFixed(2)}</div>
+
+      <div className="text-gray-400">Exchange Rate:</div>
+      <div className="text-right font-mono">1 USD ≈ {cost.exchange_rates.usdc_to_eurc.toFixed(4)} EUR</div>
+
+      <div className="text-gray-400">Network Fee:</div>
+      <div className="text-right font-mono">${cost.fees.network_fee_usd.toFixed(2)}</div>
+
+      <div className="text-gray-400">Service Fee:</div>
+      <div className="text-right font-mono">${cost.fees.service_fee_usd.toFixed(2)}</div>
+
+      <div className="text-gray-400 font-medium">Total Cost:</div>
+      <div className="text-right font-mono font-medium">${cost.fees.total_cost_usd.toFixed(2)}</div>
+    </div>
+
+    <div className="mt-4 pt-4 border-t border-gray-700">
+      <p className="text-sm text-gray-400">
+        Cost simulation based on current market rates and estimated gas prices. Actual costs may vary at the time of
+        execution.
+      </p>
+    </div>
+  </div>
+);
+
+export default function RemittanceFlowPanel({
+  flow,
+  balances,
+  onStart,
+  onModeChange,
+  onExecute,
+  onSkip,
+  onCancel,
+  onHide,
+  onDone,
+}: RemittanceFlowPanelProps) {
+  const [showCost, setShowCost] = useState<boolean>(true);
+  const { response, steps } = flow;
+  const total = steps.length;
+
+  if (flow.status === "ready") {
+    const signatures = steps.filter((s) => response.transaction_flow[s.key]?.requires_signature).length;
+    return (
+      <div className="text-center">
+        <h3 className="text-xl font-semibold mb-4">Remittance Process</h3>
+        <div className="bg-secondary/20 p-4 rounded-lg mb-4">
+          <p className="mb-2">Remittance flow initialized with {total} steps.</p>
+          {response.using_test_tokens && (
+            <p className="text-yellow-400 text-sm mb-2">Using test tokens (tUSD and tEUR) for simulation.</p>
+          )}
+          {response.cost_simulation && (
+            <div className="mt-4">
+              <button onClick={() => setShowCost(!showCost)} className="text-primary hover:text-primary/80 underline">
+                {showCost ? "Hide Cost Simulation" : "Show Cost Simulation"}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {showCost && response.cost_simulation && <CostBreakdown cost={response.cost_simulation} />}
+
+        {/* Everything "Run All Steps" will do, reviewed once up front */}
+        <div className="bg-gray-900 p-4 rounded-lg border border-gray-700 text-left mt-4">
+          <h4 className="text-lg font-medium text-primary mb-2">Steps</h4>
+          <ol className="list-decimal list-inside text-sm space-y-2">
+            {steps.map((s) => {
+              const step = response.transaction_flow[s.key]!;
+              return (
+                <li key={s.key}>
+                  {step.name}
+                  {step.requires_signature && step.tx_data && (
+                    <span className="text-yellow-400"> · signs a transaction to {abbreviateTransactionHash(step.tx_data.to)}</span>
+                  )}
+                  <p className="text-xs text-gray-400 ml-5">{step.description}</p>
+                </li>
+              );
+            })}
+          </ol>
+          <p className="text-xs text-gray-400 mt-4">
+            Run All Steps executes these in order and asks your wallet for {signatures} signature
+            {signatures === 1 ? "" : "s"}, one after another, or for a single confirmation if it supports batched
+            calls. It stops at the first failure.
+          </p>
+        </div>
+
+        <Balances title="Token Balances" balances={balances} />
+
+        <div className="flex justify-center space-x-4 mt-6">
+          <button onClick={() => onStart("auto")} className="btn-primary">
+            Run All Steps
+          </button>
+          <button onClick={() => onStart("step")} className="btn-secondary">
+            Step Through
+          </button>
+          <button onClick={onCancel} className="btn-secondary">
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (flow.status === "completed") {
+    return (
+      <div className="text-center">
+        <h3 className="text-xl font-semibold mb-4">Remittance Complete</h3>
+        <div className="bg-green-100 p-4 rounded-lg mb-4">
+          <p className="text-green-800">✅ Remittance process completed successfully!</p>
+          {steps.some((step) => step.state === "skipped") && (
+            <p className="text-sm text-yellow-800 mt-2">Some steps were skipped and may not have settled.</p>
+          )}
+          {response.using_test_tokens && (
+            <p className="text-sm mt-2">
+              You now have tEUR tokens in your wallet representing the euros that would be sent to the recipient in a
+              real remittance.
+            </p>
+          )}
+        </div>
+        <Balances title="Final Token Balances" balances={balances} />
+        <button onClick={onDone} className="btn-primary mt-4">
+          Done
+        </button>
+      </div>
+    );
+  }
+
+  const index = currentStepIndex(flow);
+  const current = steps[index]!;
+  const step = response.transaction_flow[current.key]!;
+  const settled = steps.filter((s) => s.state === "confirmed" || s.state === "skipped").length;
+
+  return (
+    <div className="text-center">
+      <h3 className="text-xl font-semibold mb-4">Remittance Process</h3>
+      <div className="bg-secondary/20 p-4 rounded-lg mb-4">
+        <p className="mb-2">
+          Step {index + 1} of {total}: {step.name}
+        </p>
+        <p className="text-sm text-gray-400 mb-2">{step.description}</p>
+        {step.explain && <p className="text-xs text-gray-500 mb-4">{step.explain}</p>}
+        <div className="w-full bg-gray-700 h-2 rounded-full overflow-hidden">
+          <div className="bg-primary h-full" style={{ width: `${(settled / total) * 100}%` }}></div>
+        </div>
+
+        {current.state === "awaiting_signature" && (
+          <>
+            <p className="text-sm text-gray-400 mt-4">Confirm the request in your wallet...</p>
+            <Spinner />
+          </>
+        )}
+        {current.state === "submitted" && (
+          <>
+            <p className="text-sm text-gray-400 mt-4">
+              Your transaction has been submitted and is waiting for confirmation. You can close this window; it
+              will be picked up again when you come back.
+            </p>
+            <Spinner />
+          </>
+        )}
+        {current.state === "failed" && (
+          <div className="bg-red-50 p-4 rounded-lg mt-4">
+            <p className="text-red-700">
+              Failed to execute step {index + 1}.
+              {flow.mode === "auto" && " Auto-run stopped here; try again to resume from this step, or skip it."}
+            </p>
+            <p className="text-sm text-gray-600 mt-2">{current.error}</p>
+          </div>
+        )}
+      </div>
+
+      <ul className="text-left text-sm space-y-1">
+        {steps.map((s, i) => (
+          <li key={s.key} className="flex justify-between">
+            <span>
+              {i + 1}. {response.transaction_flow[s.key]?.name}
+            </span>
+            <span className={stateColors[s.state]}>
+              {s.transactionHash ? (
+                <a
+                  className="underline"
+                  href={getExplorerTxUrl(response.chain, s.transactionHash)}
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  {stateLabels[s.state]} ({abbreviateTransactionHash(s.transactionHash)})
+                </a>
+              ) : (
+                `${stateLabels[s.state]}${s.batchId ? " (batched)" : ""}`
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      <Balances title="Token Balances" balances={balances} />
+
+      <div className="flex justify-center space-x-4 mt-6">
+        {current.state === "idle" && flow.mode === "step" && (
+          <>
+            <button onClick={onExecute} className="btn-primary">
+              Execute Step {index + 1}
+            </button>
+            <button onClick={() => onModeChange("auto")} className="btn-secondary">
+              Run Remaining Steps
+            </button>
+          </>
+        )}
+        {current.state === "failed" && (
+          <button onClick={onExecute} className="btn-primary">
+            Try Again
+          </button>
+        )}
+        {(current.state === "failed" || current.state === "submitted") && (
+          <button onClick={onSkip} className="btn-secondary">
+            Skip Step
+          </button>
+        )}
+        {flow.mode === "auto" && current.state !== "failed" && (
+          <button onClick={() => onModeChange("step")} className="btn-secondary">
+            Pause
+          </button>
+        )}
+        {current.state !== "awaiting_signature" && (
+          <>
+            <button onClick={onHide} className="btn-secondary">
+              Hide
+            </button>
+            <button onClick={onCancel} className="btn-secondary">
+              Cancel Process
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -26,9 +26,41 @@ import type {AppProps} from 'next/app';
 import Head from 'next/head';
 import {PrivyProvider} from '@privy-io/react-auth';
 import {useRouter} from 'next/router';
+import {useEffect, useState} from 'react';
+import {ConfigError, getConfig, hasRemoteConfig, loadConfig} from '../util/config';
+import ConfigErrorPage from '../components/ConfigErrorPage';
+
+const toConfigError = (error: unknown): ConfigError =>
+  error instanceof ConfigError
+    ? error
+    : new ConfigError([error instanceof Error ? error.message : String(error)]);
 
 function MyApp({Component, pageProps}: AppProps) {
   const router = useRouter();
+  const [configError, setConfigError] = useState<ConfigError | null>(() => {
+    try {
+      getConfig();
+      return null;
+    } catch (error) {
+      return toConfigError(error);
+    }
+  });
+  const [configLoaded, setConfigLoaded] = useState(!hasRemoteConfig());
+
+  // Layer the deployment's JSON config file on top of the env vars
+  useEffect(() => {
+    if (!hasRemoteConfig()) return;
+    loadConfig()
+      .then(() => setConfigLoaded(true))
+      .catch((error) => setConfigError(toConfigError(error)));
+  }, []);
+
+  if (configError) {
+    return <ConfigErrorPage error={configError} />;
+  }
+  if (!configLoaded) {
+    return null;
+  }
 
   return (
     <>
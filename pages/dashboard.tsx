@@ -21,55 +21,74 @@
  * SPDX-License-Identifier: MIT
  */
 import { useRouter } from "next/router";
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { usePrivy, useWallets } from "@privy-io/react-auth";
+import { OrderStatus } from "@cowprotocol/cow-sdk";
 import Head from "next/head";
+import { abbreviateTransactionHash, getReadProvider } from "../util/utils";
+import { getChain, getChainId, getExplorerTxUrl, requireChain } from "../util/chains";
+import { getConfig } from "../util/config";
 import {
-  chainToUrl,
-  abbreviateTransactionHash,
-  BACKEND_URL,
-  sendTransaction,
-  sendOrder,
-  waitForOrderStatus,
-  uniswapV2Swap,
-  processBuyRequest,
-} from "../util/utils";
-import { ethers } from "ethers";
-import { OrderStatus } from "@cowprotocol/cow-sdk";
-import { encode_abi } from "eth-abi";
-
-const ERC20_ABI = [
-  "function balanceOf(address owner) view returns (uint256)",
-  "function decimals() view returns (uint8)",
-  "function symbol() view returns (string)"
-];
-
-interface TransactionHistoryItem {
-  id: string;
-  timestamp: number;
-  type: "transfer" | "swap" | "buy" | "remittance";
-  status: "pending" | "completed" | "failed";
-  data: {
-    transactionHash?: string;
-    chain?: string;
-    fromAsset?: string;
-    toAsset?: string;
-    amount?: string;
-    recipientAddress?: string;
-    orderId?: string;
-    moonpayUrl?: string;
-    exchangeRates?: any;
-    fees?: any;
-  };
-  message: string;
-}
+  Intent,
+  RemittanceResponse,
+  parseAnswerResponse,
+} from "../util/intents";
+import {
+  ExecutableIntent,
+  ExecutionEvent,
+  ExecutionOptions,
+  TokenBalance,
+  canBatchRemittanceSteps,
+  checkRemittanceBatch,
+  executeIntent,
+  executeRemittanceBatch,
+  executeRemittanceStep as runRemittanceStep,
+  readTokenBalance,
+} from "../util/executor";
+import { IntentPreview, PreviewChoices, previewIntent, toConfirmedIntent } from "../util/preview";
+import { SlippageSetting, loadSlippageSetting, parseSlippageFromPrompt, saveSlippageSetting } from "../util/slippage";
+import { NATIVE_TOKEN_ADDRESS, getTokenLabel } from "../util/tokens";
+import {
+  LedgerFilter,
+  NewTransaction,
+  TransactionHistoryItem,
+  TransactionUpdate,
+  countTransactions,
+  createTransaction,
+  migrateLegacyHistory,
+  queryTransactions,
+  updateTransaction,
+} from "../util/ledger";
+import { downloadFile, hasReceipt, openRemittanceReceipt, toCsv, toJson } from "../util/export";
+import IntentReview from "../components/IntentReview";
+import HistoryFilters from "../components/HistoryFilters";
+import RemittanceFlowPanel from "../components/RemittanceFlowPanel";
+import AllowancesPanel from "../components/AllowancesPanel";
+import { AllowanceEntry, revokeAllowance } from "../util/allowances";
+import OrdersPanel from "../components/OrdersPanel";
+import { CowOrderState, cancelOrder, describeOrderFill } from "../util/orders";
+import AddressBookPanel from "../components/AddressBookPanel";
+import PortfolioPanel from "../components/PortfolioPanel";
+import { Contact, ContactInput, deleteContact, loadAddressBook, saveContact, toAgentContext } from "../util/addressBook";
+import {
+  RemittanceAction,
+  RemittanceFlow,
+  createRemittanceFlow,
+  currentStepIndex,
+  getAutoRunStep,
+  getSubmittedBatches,
+  getSubmittedSteps,
+  loadRemittanceFlow,
+  saveRemittanceFlow,
+  transition,
+} from "../util/remittance";
+import { reconcilePending, startReconciler } from "../util/reconciler";
+import { cancelTransaction, speedUpTransaction } from "../util/fees";
+import { BatchStatus } from "../util/batch";
 
-interface TokenBalance {
-  address: string;
-  symbol: string;
-  balance: string;
-  decimals: number;
-}
+const HISTORY_PAGE_SIZE = 10;
+const REMITTANCE_WATCH_TIMEOUT_MS = 60_000;
+const REMITTANCE_BATCH_POLL_MS = 4_000;
 
 export default function DashboardPage() {
   const [intentValue, setIntentValue] = useState<string>("");
@@ -80,11 +99,23 @@ export default function DashboardPage() {
   const [transactionHistory, setTransactionHistory] = useState<TransactionHistoryItem[]>([]);
   const [networkError, setNetworkError] = useState<string | null>(null);
   const [showHistory, setShowHistory] = useState<boolean>(false);
-  const [remittanceCost, setRemittanceCost] = useState<any>(null);
-  const [showCostSimulation, setShowCostSimulation] = useState<boolean>(false);
+  const [historyFilter, setHistoryFilter] = useState<LedgerFilter>({});
+  const [historyPage, setHistoryPage] = useState<number>(0);
+  const [historyTotal, setHistoryTotal] = useState<number>(0);
+  const [ledgerSize, setLedgerSize] = useState<number>(0);
+  // Bumped after every ledger write so the visible page is re-read
+  const [ledgerVersion, setLedgerVersion] = useState<number>(0);
   const [tokenBalances, setTokenBalances] = useState<Record<string, TokenBalance>>({});
-  const [currentRemittanceStep, setCurrentRemittanceStep] = useState<number>(1);
-  const [remittanceFlowData, setRemittanceFlowData] = useState<any>(null);
+  const [remittanceFlow, setRemittanceFlow] = useState<RemittanceFlow | null>(null);
+  const [showRemittance, setShowRemittance] = useState<boolean>(false);
+  // Guards against running a step twice, e.g. a click racing auto-run. The
+  // state copy re-triggers auto-run once the running step returns.
+  const remittanceStepRunning = useRef<boolean>(false);
+  const [remittanceStepBusy, setRemittanceStepBusy] = useState<boolean>(false);
+  const [review, setReview] = useState<IntentPreview | null>(null);
+  const [reviewPrompt, setReviewPrompt] = useState<string>("");
+  const [reviewChoices, setReviewChoices] = useState<PreviewChoices>({});
+  const [contacts, setContacts] = useState<Contact[]>([]);
   
   const router = useRouter();
   const { ready, authenticated, logout } = usePrivy();
@@ -98,69 +129,242 @@ export default function DashboardPage() {
       const storedName = localStorage.getItem("brinco_user_name");
       setUserName(storedName || "");
       
-      // Load transaction history from localStorage
-      const storedHistory = localStorage.getItem("brinco_transaction_history");
-      if (storedHistory) {
-        try {
-          setTransactionHistory(JSON.parse(storedHistory));
-        } catch (e) {
-          console.error("Failed to parse transaction history:", e);
-        }
-      }
+      // Import history saved by earlier versions, then load the ledger
+      migrateLegacyHistory()
+        .catch((e) => console.error("Failed to migrate transaction history:", e))
+        .finally(() => setLedgerVersion(v => v + 1));
     }
   }, [ready, authenticated, router]);
 
-  // Save transaction history to localStorage whenever it changes
+  // Read the visible page of the ledger whenever it or the filters change
   useEffect(() => {
-    if (transactionHistory.length > 0) {
-      localStorage.setItem("brinco_transaction_history", JSON.stringify(transactionHistory));
+    if (ledgerVersion === 0) {
+      return;
     }
-  }, [transactionHistory]);
+    let cancelled = false;
+    Promise.all([
+      queryTransactions(historyFilter, historyPage * HISTORY_PAGE_SIZE, HISTORY_PAGE_SIZE),
+      countTransactions(),
+    ])
+      .then(([page, size]) => {
+        if (cancelled) return;
+        setTransactionHistory(page.items);
+        setHistoryTotal(page.total);
+        setLedgerSize(size);
+      })
+      .catch((e) => console.error("Failed to load transaction history:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [historyFilter, historyPage, ledgerVersion]);
 
+  // Settle entries left pending by a closed tab or a confirmation timeout
   useEffect(() => {
-    if (remittanceFlowData) {
-      localStorage.setItem("brinco_remittance_flow", JSON.stringify({
-        data: remittanceFlowData,
-        step: currentRemittanceStep
-      }));
+    if (!ready || !authenticated) {
+      return;
     }
-  }, [remittanceFlowData, currentRemittanceStep]);
+    return startReconciler(() => setLedgerVersion(v => v + 1));
+  }, [ready, authenticated]);
 
   useEffect(() => {
     if (ready && authenticated) {
-      const storedFlowData = localStorage.getItem("brinco_remittance_flow");
-      if (storedFlowData) {
-        try {
-          const parsedData = JSON.parse(storedFlowData);
-          setRemittanceFlowData(parsedData.data);
-          setCurrentRemittanceStep(parsedData.step);
-        } catch (e) {
-          console.error("Failed to parse stored remittance flow data:", e);
-        }
+      const stored = loadRemittanceFlow();
+      if (stored) {
+        setRemittanceFlow(stored);
+        setShowRemittance(true);
       }
     }
   }, [ready, authenticated]);
 
   const { wallets } = useWallets();
-  
-  const addTransactionToHistory = (item: Omit<TransactionHistoryItem, 'id' | 'timestamp'>) => {
-    const newItem: TransactionHistoryItem = {
-      ...item,
-      id: `tx-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
-      timestamp: Date.now(),
+
+  // Each wallet keeps its own address book
+  const owner = wallets[0]?.address;
+  useEffect(() => {
+    setContacts([]);
+    if (!owner) return;
+    let cancelled = false;
+    loadAddressBook(owner)
+      .then((loaded) => {
+        if (!cancelled) setContacts(loaded);
+      })
+      .catch((e) => console.error("Failed to load address book:", e));
+    return () => {
+      cancelled = true;
     };
-    
-    setTransactionHistory(prev => [newItem, ...prev].slice(0, 10)); // Keep 10 transactions
+  }, [owner]);
+  
+  // Returns the new entry's id so later events can update it
+  const addTransactionToHistory = (item: NewTransaction): string => {
+    const { entry, saved } = createTransaction(item);
+    saved
+      .then(() => setLedgerVersion(v => v + 1))
+      .catch((e) => console.error("Failed to save transaction:", e));
+    return entry.id;
   };
   
-  const updateTransactionInHistory = (id: string, updates: Partial<TransactionHistoryItem>) => {
-    setTransactionHistory(prev => 
-      prev.map(item => 
-        item.id === id ? { ...item, ...updates } : item
-      )
-    );
+  const updateTransactionInHistory = (id: string, updates: TransactionUpdate) => {
+    updateTransaction(id, updates)
+      .then(() => setLedgerVersion(v => v + 1))
+      .catch((e) => console.error("Failed to update transaction:", e));
+  };
+
+  const changeHistoryFilter = (filter: LedgerFilter) => {
+    setHistoryFilter(filter);
+    setHistoryPage(0);
+  };
+
+  // Export every entry matching the current filters, not just the visible page
+  const exportHistory = async (format: "csv" | "json") => {
+    try {
+      const { items } = await queryTransactions(historyFilter, 0, Number.MAX_SAFE_INTEGER);
+      const filename = `brinco-history-${new Date().toISOString().slice(0, 10)}.${format}`;
+      if (format === "csv") {
+        downloadFile(filename, toCsv(items), "text/csv");
+      } else {
+        downloadFile(filename, toJson(items), "application/json");
+      }
+    } catch (error) {
+      console.error("Failed to export transaction history:", error);
+    }
+  };
+
+  const showReceipt = async (tx: TransactionHistoryItem) => {
+    try {
+      const { items } = await queryTransactions({ types: ["remittance"] }, 0, Number.MAX_SAFE_INTEGER);
+      openRemittanceReceipt(tx, items);
+    } catch (error) {
+      console.error("Failed to open receipt:", error);
+      setStatus(
+        <div className="text-center">
+          <h3 className="text-xl font-semibold mb-4 text-red-600">Could Not Open Receipt</h3>
+          <div className="bg-red-50 p-4 rounded-lg">
+            <p className="text-sm text-gray-600">{error instanceof Error ? error.message : "Unknown error"}</p>
+          </div>
+        </div>
+      );
+      setShowStatusPopup(true);
+    }
   };
   
+  // Speeds up or cancels a stuck transaction by replacing it with the same nonce
+  const replacePendingTransaction = async (tx: TransactionHistoryItem, kind: "speed_up" | "cancel") => {
+    const { chain, transactionHash } = tx.data;
+    if (!chain || !transactionHash || !wallets[0]) {
+      return;
+    }
+    try {
+      await checkNetwork(chain);
+      const signer = (await wallets[0].getEthersProvider()).getSigner();
+      const replacement =
+        kind === "cancel"
+          ? await cancelTransaction(signer, transactionHash)
+          : await speedUpTransaction(signer, transactionHash);
+      updateTransactionInHistory(tx.id, {
+        data: {
+          transactionHash: replacement.hash,
+          replacedHashes: [...(tx.data.replacedHashes ?? []), transactionHash],
+          // Speeding up a cancellation keeps it a cancellation
+          replacement: tx.data.replacement === "cancel" ? "cancel" : kind,
+        },
+        message:
+          kind === "cancel"
+            ? `Cancellation submitted as ${abbreviateTransactionHash(replacement.hash)}`
+            : `Sped up, resubmitted as ${abbreviateTransactionHash(replacement.hash)}`,
+      });
+    } catch (error) {
+      console.error("Failed to replace transaction:", error);
+      setStatus(
+        <div className="text-center">
+          <h3 className="text-xl font-semibold mb-4 text-red-600">
+            {kind === "cancel" ? "Could Not Cancel Transaction" : "Could Not Speed Up Transaction"}
+          </h3>
+          <div className="bg-red-50 p-4 rounded-lg">
+            <p className="text-sm text-gray-600">{error instanceof Error ? error.message : "Unknown error"}</p>
+          </div>
+        </div>
+      );
+      setShowStatusPopup(true);
+    }
+  };
+
+  // Revoking sets the allowance to zero; the panel drops the entry once it is mined
+  const revokeTokenAllowance = async (entry: AllowanceEntry): Promise<boolean> => {
+    if (!wallets[0]) {
+      return false;
+    }
+    try {
+      await checkNetwork(entry.chain);
+      await revokeAllowance(wallets[0], entry);
+      return true;
+    } catch (error) {
+      console.error("Failed to revoke allowance:", error);
+      setStatus(
+        <div className="text-center">
+          <h3 className="text-xl font-semibold mb-4 text-red-600">Could Not Revoke Allowance</h3>
+          <div className="bg-red-50 p-4 rounded-lg">
+            <p className="text-sm text-gray-600">{error instanceof Error ? error.message : "Unknown error"}</p>
+          </div>
+        </div>
+      );
+      setShowStatusPopup(true);
+      return false;
+    }
+  };
+
+  const updateAddressBook = async (change: (owner: string) => Promise<Contact[]>): Promise<boolean> => {
+    if (!wallets[0]) {
+      return false;
+    }
+    try {
+      setContacts(await change(wallets[0].address));
+      return true;
+    } catch (error) {
+      console.error("Failed to update address book:", error);
+      setStatus(
+        <div className="text-center">
+          <h3 className="text-xl font-semibold mb-4 text-red-600">Could Not Update Address Book</h3>
+          <div className="bg-red-50 p-4 rounded-lg">
+            <p className="text-sm text-gray-600">{error instanceof Error ? error.message : "Unknown error"}</p>
+          </div>
+        </div>
+      );
+      setShowStatusPopup(true);
+      return false;
+    }
+  };
+
+  const saveAddressBookContact = (contact: ContactInput) =>
+    updateAddressBook((owner) => saveContact(owner, contact));
+
+  const deleteAddressBookContact = (contact: Contact) =>
+    updateAddressBook((owner) => deleteContact(owner, contact.id));
+
+  // The order book marks the order cancelled right away, so reconcile to record it
+  const cancelCowOrder = async ({ chain, orderId }: { chain: string; orderId: string }): Promise<boolean> => {
+    if (!wallets[0]) {
+      return false;
+    }
+    try {
+      await checkNetwork(chain);
+      await cancelOrder(wallets[0], chain, orderId);
+      void reconcilePending().then(() => setLedgerVersion(v => v + 1));
+      return true;
+    } catch (error) {
+      console.error("Failed to cancel order:", error);
+      setStatus(
+        <div className="text-center">
+          <h3 className="text-xl font-semibold mb-4 text-red-600">Could Not Cancel Order</h3>
+          <div className="bg-red-50 p-4 rounded-lg">
+            <p className="text-sm text-gray-600">{error instanceof Error ? error.message : "Unknown error"}</p>
+          </div>
+        </div>
+      );
+      setShowStatusPopup(true);
+      return false;
+    }
+  };
+
   const checkNetwork = async (chain: string) => {
     if (!wallets[0]) {
       throw new Error("No wallet connected");
@@ -170,26 +374,20 @@ export default function DashboardPage() {
       const provider = await wallets[0].getEthersProvider();
       const network = await provider.getNetwork();
       
-      const chainIds: { [key: string]: number } = {
-        'mainnet': 1,
-        'sepolia': 11155111,
-        'base': 8453
-      };
-
-      const targetChainId = chainIds[chain];
-      if (!targetChainId) {
+      const targetChain = getChain(chain);
+      if (!targetChain) {
         throw new Error(`Unsupported chain: ${chain}`);
       }
 
-      if (network.chainId !== targetChainId) {
+      if (network.chainId !== targetChain.chainId) {
         try {
-          await wallets[0].switchChain(targetChainId);
+          await wallets[0].switchChain(targetChain.chainId);
           const newProvider = await wallets[0].getEthersProvider();
           await newProvider.getNetwork(); 
           setNetworkError(null);
         } catch (switchError) {
           console.error("Failed to switch network:", switchError);
-          throw new Error(`Please switch your wallet to ${chain} network`);
+          throw new Error(`Please switch your wallet to ${targetChain.name} network`);
         }
       }
 
@@ -207,786 +405,521 @@ export default function DashboardPage() {
     }
   };
 
-  const checkTokenBalance = async (tokenAddress: string, walletAddress: string) => {
+  const checkTokenBalance = async (chain: string, tokenAddress: string, walletAddress: string) => {
     try {
-      if (!wallets[0]) {
-        throw new Error("No wallet connected");
-      }
-      
-      const provider = await wallets[0].getEthersProvider();
-      const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
-      
-      const balance = await tokenContract.balanceOf(walletAddress);
-      const decimals = await tokenContract.decimals();
-      const symbol = await tokenContract.symbol();
-      
-      const formattedBalance = ethers.utils.formatUnits(balance, decimals);
+      const tokenBalance = await readTokenBalance(getReadProvider(chain), tokenAddress, walletAddress);
       
       // Update the token balances state
       setTokenBalances(prev => ({
         ...prev,
-        [tokenAddress]: {
-          address: tokenAddress,
-          symbol: symbol,
-          balance: formattedBalance,
-          decimals: decimals
-        }
+        [tokenAddress]: tokenBalance
       }));
       
-      return formattedBalance;
+      return tokenBalance.balance;
     } catch (error) {
       console.error("Failed to check token balance:", error);
       return "0";
     }
   };
 
-  // Function to execute a transaction step
-  const executeRemittanceStep = async (stepData: any) => {
-    try {
-      if (!wallets[0]) {
-        throw new Error("No wallet connected");
-      }
-      
-      // Get the current wallet address - this is key to fixing the error
-      const walletAddress = wallets[0].address;
-      console.log("🔍 Starting executeRemittanceStep with wallet address:", walletAddress);
-      
-      if (stepData.check_balance) {
-        console.log("📊 Executing balance check for token:", stepData.check_balance.token_address);
-        const balance = await checkTokenBalance(
-          stepData.check_balance.token_address,
-          walletAddress 
-        );
-        
-        return {
-          success: true,
-          type: "balance_check",
-          balance
-        };
-      }
-      
-      if (!stepData.requires_signature) {
-        // No signature required, just return success
-        console.log("✅ Step doesn't require signature, returning success");
-        return {
-          success: true,
-          type: "no_signature_required"
-        };
-      }
-      
-      // Execute the transaction
-      const provider = await wallets[0].getEthersProvider();
-      console.log("🔗 Connected to blockchain provider, network:", await provider.getNetwork());
-      const signer = provider.getSigner();
-      
-      // Create a new transaction object with the correct from address
-      const txData = { 
-        ...stepData.tx_data,
-        from: walletAddress 
-      };
-      
-      if (txData.gas) {
-        txData.gasLimit = txData.gas;
-        delete txData.gas;
-      }
-      
-      console.log("📝 Preparing to send transaction with data:", JSON.stringify(txData, null, 2));
-      
-      // Send the transaction with the corrected data
-      console.log("🚀 Sending transaction...");
-      const tx = await signer.sendTransaction(txData);
-      console.log("📨 Transaction sent! Hash:", tx.hash);
-      console.log("📊 Transaction details:", JSON.stringify(tx, null, 2));
-      
-      // Set loading state to show transaction is being processed
-      setLoading(true);
-      setStatus(
-        <div className="text-center">
-          <h3 className="text-xl font-semibold mb-4">Transaction Submitted</h3>
-          <div className="bg-secondary/20 p-4 rounded-lg mb-4">
-            <p className="mb-2">Your transaction has been submitted and is being processed.</p>
-            <p className="text-sm text-gray-400">Transaction hash: {tx.hash}</p>
-            <div className="mt-4 flex justify-center">
-              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
-            </div>
-          </div>
-          <p className="text-sm text-gray-400">Please wait, this may take up to a minute...</p>
-        </div>
-      );
-      
-      // Wait for one confirmation with a timeout to prevent hanging
-      console.log("⏱️ Waiting for transaction confirmation...");
-      
-      // Create a promise that rejects after timeout
-      const timeout = new Promise((_, reject) =>
-        setTimeout(() => reject(new Error("Transaction confirmation timeout after 60 seconds")), 60000)
-      );
-      
-      // Race between the transaction confirmation and the timeout
+  // Applies an update to the remittance in progress and persists the result,
+  // so a reload resumes from the same step
+  const updateRemittance = (update: (flow: RemittanceFlow) => RemittanceFlow) => {
+    setRemittanceFlow(prev => {
+      if (!prev) return prev;
       try {
-        const receipt = await Promise.race([
-          tx.wait(1),
-          timeout
-        ]) as ethers.providers.TransactionReceipt;
-        
-        console.log("✅ Transaction confirmed! Receipt:", JSON.stringify(receipt, null, 2));
-        return {
-          success: true,
-          type: "transaction",
-          hash: receipt.transactionHash
-        };
-      } catch (timeoutError) {
-        console.error("⏱️ Transaction wait timed out or failed:", timeoutError);
-        
-        // Even if waiting times out, the transaction might still complete successfully later
-        console.log("🔍 Checking transaction status directly...");
-        try {
-          const latestStatus = await provider.getTransaction(tx.hash);
-          console.log("📊 Latest transaction status:", JSON.stringify(latestStatus, null, 2));
-          
-          if (latestStatus && latestStatus.blockNumber) {
-            console.log("✅ Transaction was mined in block:", latestStatus.blockNumber);
-            return {
-              success: true,
-              type: "transaction",
-              hash: tx.hash,
-              note: "Confirmed via direct check after timeout"
-            };
-          } else {
-            console.log("⏳ Transaction still pending after timeout");
-            return {
-              success: true,
-              type: "transaction",
-              hash: tx.hash,
-              pending: true,
-              note: "Transaction submitted but confirmation timed out. It may still complete later."
-            };
-          }
-        } catch (statusCheckError) {
-          console.error("❌ Failed to check transaction status:", statusCheckError);
-          throw new Error(`Transaction submitted (${tx.hash}) but confirmation status unknown: ${timeoutError}`);
-        }
-      }
-    } catch (error) {
-      console.error("❌ Failed to execute remittance step:", error);
-      
-      // Check if it's a user rejection
-      let errorMessage = error instanceof Error ? error.message : "Unknown error";
-      console.error("❌ Error details:", errorMessage);
-      
-      if (errorMessage.includes("user rejected") || errorMessage.includes("User denied")) {
-        console.log("🚫 Transaction was rejected by user");
-        return {
-          success: false,
-          error: "Transaction was rejected in your wallet. Please try again.",
-          userRejected: true
-        };
+        const next = update(prev);
+        saveRemittanceFlow(next);
+        return next;
+      } catch (error) {
+        console.error("Ignoring remittance update:", error);
+        return prev;
       }
-      
-      return {
-        success: false,
-        error: errorMessage
-      };
+    });
+  };
+
+  const dispatchRemittance = (action: RemittanceAction) =>
+    updateRemittance(flow => transition(flow, action));
+
+  const closeRemittance = () => {
+    saveRemittanceFlow(null);
+    setRemittanceFlow(null);
+    setShowRemittance(false);
+  };
+
+  const refreshRemittanceBalances = async (response: RemittanceResponse) => {
+    if (response.using_test_tokens && response.token_addresses && wallets[0]?.address) {
+      await checkTokenBalance(response.chain, response.token_addresses.tUSD, wallets[0].address);
+      await checkTokenBalance(response.chain, response.token_addresses.tEUR, wallets[0].address);
     }
   };
 
-  // Add a utility function to check transaction status
-  const checkTransactionStatus = async (txHash: string, chain: string) => {
-    try {
-      if (!wallets[0]) {
-        throw new Error("No wallet connected");
-      }
-      
-      console.log("🔍 Manually checking transaction status for hash:", txHash);
-      
-      // Ensure we're on the right network
-      await checkNetwork(chain);
-      
-      const provider = await wallets[0].getEthersProvider();
-      
-      // First check if the transaction is in the mempool
-      const tx = await provider.getTransaction(txHash);
-      console.log("📊 Transaction details:", tx ? JSON.stringify(tx, null, 2) : "Not found");
-      
-      if (!tx) {
-        return { found: false, status: "not_found" };
+  const remittanceStepLabel = (flow: RemittanceFlow, key: string) => {
+    const position = flow.steps.findIndex(step => step.key === key) + 1;
+    return `remittance step ${position}: ${flow.response.transaction_flow[key]?.name ?? "Transaction"}`;
+  };
+
+  // Records a step's outcome in its ledger entry as well as in the flow
+  const settleRemittanceStep = (
+    flow: RemittanceFlow,
+    key: string,
+    outcome: { confirmed: true; transactionHash?: string } | { confirmed: false; error: string }
+  ) => {
+    const label = remittanceStepLabel(flow, key);
+    const historyId = flow.steps.find(step => step.key === key)?.historyId;
+    if (outcome.confirmed) {
+      if (historyId) {
+        updateTransactionInHistory(historyId, { status: "completed", message: `Completed ${label}` });
       }
-      
-      // If the transaction has a blockNumber, it has been mined
-      if (tx.blockNumber) {
-        // Now get the receipt to check status
-        const receipt = await provider.getTransactionReceipt(txHash);
-        console.log("📝 Transaction receipt:", receipt ? JSON.stringify(receipt, null, 2) : "Receipt not found");
-        
-        if (receipt) {
-          // status: 1 = success, 0 = failure
-          return { 
-            found: true, 
-            mined: true, 
-            successful: receipt.status === 1,
-            blockNumber: receipt.blockNumber,
-            receipt: receipt
-          };
-        }
-        
-        // Transaction mined but no receipt yet
-        return { found: true, mined: true, blockNumber: tx.blockNumber };
+      dispatchRemittance({ type: "confirmed", step: key, transactionHash: outcome.transactionHash });
+    } else {
+      if (historyId) {
+        updateTransactionInHistory(historyId, { status: "failed", message: `Failed ${label}: ${outcome.error}` });
       }
-      
-      // Transaction found but not yet mined
-      return { found: true, mined: false, status: "pending" };
-      
-    } catch (error) {
-      console.error("❌ Error checking transaction status:", error);
-      return { found: false, error: error instanceof Error ? error.message : "Unknown error" };
+      dispatchRemittance({ type: "failed", step: key, error: outcome.error });
     }
   };
 
-  // Add a helper function to process the next step explicitly
-  const processNextStep = (flowData: any, nextStepNumber: number) => {
-    console.log(`🔼 Explicitly processing next step: ${nextStepNumber} (current state value: ${currentRemittanceStep})`);
-    // Update the step in state
-    setCurrentRemittanceStep(nextStepNumber);
-    console.log(`🔄 State update requested: currentRemittanceStep → ${nextStepNumber}`);
-    
-    // Update in localStorage to ensure persistence
-    localStorage.setItem("brinco_remittance_flow", JSON.stringify({
-      data: flowData,
-      step: nextStepNumber
-    }));
-    console.log(`💾 localStorage updated with step ${nextStepNumber}`);
-    
-    // Process with the updated step - pass the nextStepNumber directly
-    console.log(`⏱️ Setting timeout to process step ${nextStepNumber} in 100ms`);
-    setTimeout(() => {
-      console.log(`⏰ Timeout fired! Processing step ${nextStepNumber} now`);
-      processRemittanceFlow(flowData, nextStepNumber);
-    }, 100);
+  const cancelRemittance = () => {
+    if (remittanceFlow?.historyId) {
+      const { amount, recipient_address } = remittanceFlow.response;
+      updateTransactionInHistory(remittanceFlow.historyId, {
+        status: "failed",
+        message: `Remittance of $${amount} to ${recipient_address} was cancelled at step ${currentStepIndex(remittanceFlow) + 1}`,
+      });
+    }
+    closeRemittance();
   };
 
-  // Function to handle the remittance process
-  const processRemittanceFlow = async (flowData: any, forceStep?: number) => {
-    if (!flowData || !flowData.transaction_flow) {
-      console.log("❌ No flow data available to process");
+  // Signs and sends the current step. The panel renders from the flow state,
+  // so nothing here touches the UI directly.
+  const executeCurrentRemittanceStep = async () => {
+    const flow = remittanceFlow;
+    if (!flow || flow.status !== "in_progress" || remittanceStepRunning.current) {
       return;
     }
-    
-    const totalSteps = Object.keys(flowData.transaction_flow).length;
-    
+    remittanceStepRunning.current = true;
+    setRemittanceStepBusy(true);
+    try {
+      await runRemittanceFlowStep(flow);
+    } finally {
+      remittanceStepRunning.current = false;
+      setRemittanceStepBusy(false);
+    }
+  };
 
-    let currentStep = forceStep !== undefined ? forceStep : currentRemittanceStep;
-    console.log(`🔄 Initial step from state: ${currentStep} of ${totalSteps}`);
-    
-    // If current step is invalid (less than 1 or greater than total), reset to 1
-    if (currentStep < 1 || currentStep > totalSteps) {
-      console.log(`⚠️ Invalid step detected: ${currentStep}. Resetting to step 1`);
-      currentStep = 1;
-      setCurrentRemittanceStep(1);
-      // Update localStorage to ensure consistency
-      localStorage.setItem("brinco_remittance_flow", JSON.stringify({
-        data: flowData,
-        step: 1
+  const runRemittanceFlowStep = async (flow: RemittanceFlow) => {
+    const { response } = flow;
+    const progress = flow.steps[currentStepIndex(flow)]!;
+    const step = response.transaction_flow[progress.key]!;
+    const label = remittanceStepLabel(flow, progress.key);
+    let historyId: string | undefined;
+
+    // Wallets that support EIP-5792 confirm every remaining transaction at once
+    if (step.requires_signature) {
+      const batch = flow.steps
+        .filter(s => (s.state === "idle" || s.state === "failed") && response.transaction_flow[s.key]?.requires_signature)
+        .map(s => s.key);
+      const chainId = getChainId(response.chain);
+      if (batch.length > 1 && chainId !== undefined && (await canBatchRemittanceSteps(wallets, chainId))) {
+        await runRemittanceBatch(flow, batch, chainId);
+        return;
+      }
+    }
+
+    dispatchRemittance({ type: "sign" });
+    try {
+      await checkNetwork(response.chain);
+    } catch (error) {
+      dispatchRemittance({
+        type: "failed",
+        step: progress.key,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      return;
+    }
+
+    const result = await runRemittanceStep(step, response.chain, wallets, (event) => {
+      if (event.type !== "submitted" || !event.transactionHash) {
+        return;
+      }
+      // Record the hash before waiting, so a reload re-attaches to this
+      // transaction instead of asking for another signature
+      historyId = addTransactionToHistory({
+        type: "remittance",
+        status: "pending",
+        data: {
+          transactionHash: event.transactionHash,
+          chain: response.chain,
+          amount: response.amount.toString(),
+          recipientAddress: response.recipient_address,
+          remittanceId: flow.historyId ?? undefined,
+        },
+        message: `${label.charAt(0).toUpperCase()}${label.slice(1)} submitted, awaiting confirmation`,
+      });
+      dispatchRemittance({
+        type: "submitted",
+        step: progress.key,
+        transactionHash: event.transactionHash,
+        historyId,
+      });
+    });
+
+    // The flow captured above predates the submission, so pass the entry along
+    const settled = historyId
+      ? { ...flow, steps: flow.steps.map(s => (s.key === progress.key ? { ...s, historyId } : s)) }
+      : flow;
+    if (!result.success) {
+      settleRemittanceStep(settled, progress.key, { confirmed: false, error: result.error });
+      return;
+    }
+    if (result.type === "balance_check") {
+      setTokenBalances(prev => ({
+        ...prev,
+        [result.balance.address]: result.balance
       }));
     }
-    
-    console.log(`🔄 Processing remittance flow: Step ${currentStep} of ${totalSteps}`);
-    console.log(`🔍 Current step being processed: ${currentStep}`);
-    
-    // Check initial token balances if using test tokens
-    if (flowData.using_test_tokens && flowData.token_addresses && wallets[0]?.address) {
-      console.log("📊 Checking initial token balances");
-      await checkTokenBalance(flowData.token_addresses.tUSD, wallets[0].address);
-      await checkTokenBalance(flowData.token_addresses.tEUR, wallets[0].address);
+    await refreshRemittanceBalances(response);
+
+    // A transaction still pending after the timeout stays submitted and is
+    // watched in the background.
+    if (result.type !== "transaction" || !result.pending) {
+      settleRemittanceStep(settled, progress.key, {
+        confirmed: true,
+        transactionHash: result.type === "transaction" ? result.hash : undefined,
+      });
     }
-    
-    // Start processing the steps
-    if (currentStep <= totalSteps) {
-      const stepKey = `step${currentStep}`;
-      const stepData = flowData.transaction_flow[stepKey];
-      
-      if (!stepData) {
-        console.log(`❌ No data found for step ${currentStep}`);
+  };
+
+  // Sends signing steps as one atomic batch. Read-only steps between them run
+  // once the batch has landed.
+  const runRemittanceBatch = async (flow: RemittanceFlow, keys: string[], chainId: number) => {
+    const { response } = flow;
+    const failAll = (error: string) =>
+      keys.forEach(key => dispatchRemittance({ type: "failed", step: key, error }));
+
+    dispatchRemittance({ type: "sign", steps: keys });
+    try {
+      await checkNetwork(response.chain);
+    } catch (error) {
+      failAll(error instanceof Error ? error.message : "Unknown error");
+      return;
+    }
+
+    const result = await executeRemittanceBatch(
+      keys.map(key => response.transaction_flow[key]!),
+      wallets,
+      chainId
+    );
+    if (!result.success) {
+      failAll(result.error);
+      return;
+    }
+    // The batch id is persisted with the steps, so a reload keeps tracking it
+    keys.forEach(key => dispatchRemittance({ type: "submitted", step: key, batchId: result.batchId }));
+  };
+
+  const settleRemittanceBatch = (flow: RemittanceFlow, batchId: string, status: BatchStatus) => {
+    const keys = flow.steps
+      .filter(step => step.batchId === batchId && step.state === "submitted")
+      .map(step => step.key);
+    keys.forEach((key, i) => {
+      // Atomic batches usually land as a single transaction shared by every step
+      const transactionHash = status.transactionHashes[i] ?? status.transactionHashes[0];
+      if (status.state === "failed") {
+        dispatchRemittance({
+          type: "failed",
+          step: key,
+          error: transactionHash ? `Batch transaction ${transactionHash} reverted` : "The wallet could not complete the batch",
+        });
         return;
       }
-      
-      console.log(`🔍 Processing step ${currentStep}: ${stepData.name}`);
-      console.log(`📝 Step data:`, JSON.stringify(stepData, null, 2));
-      
-      // Update UI to indicate current step
-      setStatus(
-        <div className="text-center">
-          <h3 className="text-xl font-semibold mb-4">Remittance Process</h3>
-          <div className="bg-secondary/20 p-4 rounded-lg mb-4">
-            <p className="mb-2">
-              Step {currentStep} of {totalSteps}: {stepData.name}
-            </p>
-            <p className="text-sm text-gray-400 mb-2">{stepData.description}</p>
-            {stepData.explain && (
-              <p className="text-xs text-gray-500 mb-4">{stepData.explain}</p>
-            )}
-            <div className="w-full bg-gray-700 h-2 rounded-full overflow-hidden">
-              <div 
-                className="bg-primary h-full"
-                style={{ width: `${(currentStep / totalSteps) * 100}%` }}
-              ></div>
-            </div>
-          </div>
-          
-          {/* Display token balances if available */}
-          {Object.keys(tokenBalances).length > 0 && (
-            <div className="mt-4 p-4 bg-gray-900 rounded-lg border border-gray-800">
-              <h4 className="text-primary font-medium mb-2">Token Balances</h4>
-              <div className="grid grid-cols-2 gap-2">
-                {Object.values(tokenBalances).map((token) => (
-                  <div key={token.address} className="flex justify-between items-center">
-                    <span>{token.symbol}:</span>
-                    <span className="font-mono">{parseFloat(token.balance).toFixed(4)}</span>
-                  </div>
-                ))}
-              </div>
-            </div>
-          )}
-          
-          <div className="mt-4">
-            <button
-              onClick={() => executeCurrentStep()}
-              className="btn-primary"
-              disabled={loading}
-            >
-              {loading ? "Processing..." : `Execute Step ${currentStep}`}
-            </button>
-            {/* Add a Cancel button to allow exiting the process */}
-            <button
-              onClick={() => {
-                // Clear remittance data from localStorage when canceling
-                localStorage.removeItem("brinco_remittance_flow");
-                setRemittanceFlowData(null);
-                setCurrentRemittanceStep(1);
-                setShowStatusPopup(false);
-              }}
-              className="btn-secondary ml-2"
-              disabled={loading}
-            >
-              Cancel Process
-            </button>
-          </div>
-        </div>
-      );
-      
-      // Wait for user to execute the step
-      const executeCurrentStep = async () => {
-        setLoading(true);
-        console.log(`▶️ Executing step ${currentStep}: ${stepData.name}`);
-        const result = await executeRemittanceStep(stepData);
-        console.log(`📊 Step ${currentStep} execution result:`, JSON.stringify(result, null, 2));
-        setLoading(false);
-        
-        if (result.success) {
-          // If there's a pending transaction hash, double-check its status
-          if (result.pending && result.hash) {
-            console.log("⏳ Transaction appears to be pending, checking status...");
-            
-            setStatus(
-              <div className="text-center">
-                <h3 className="text-xl font-semibold mb-4">Checking Transaction Status</h3>
-                <div className="bg-secondary/20 p-4 rounded-lg mb-4">
-                  <p className="mb-2">Please wait while we check the status of your transaction...</p>
-                  <div className="mt-4 flex justify-center">
-                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
-                  </div>
-                </div>
-              </div>
-            );
-            
-            // Wait a bit for the transaction to propogate
-            await new Promise(resolve => setTimeout(resolve, 5000));
-            
-            // Check transaction status
-            const txStatus = await checkTransactionStatus(result.hash, "sepolia");
-            console.log("📊 Manual transaction status check result:", JSON.stringify(txStatus, null, 2));
-            
-            if (txStatus.mined && txStatus.successful) {
-              // Transaction succeeded!
-              console.log("✅ Transaction was successful despite the timeout!");
-              
-              // Update the transaction history
-              const stepInfo = flowData.transaction_flow[`step${currentStep}`];
-              const stepName = typeof stepInfo === 'object' && stepInfo !== null && 'name' in stepInfo 
-                ? String(stepInfo.name) 
-                : "Transaction";
-                
-              addTransactionToHistory({
-                type: "remittance",
-                status: "completed",
-                data: {
-                  transactionHash: result.hash,
-                  chain: "sepolia",
-                  amount: flowData.amount?.toString() || "0",
-                  recipientAddress: flowData.recipient_address || "",
-                },
-                message: `Completed remittance step ${currentStep}: ${stepName}`
-              });
-              
-              // Update balances if using test tokens
-              if (flowData.using_test_tokens && flowData.token_addresses && wallets[0]?.address) {
-                await checkTokenBalance(flowData.token_addresses.tUSD, wallets[0].address);
-                await checkTokenBalance(flowData.token_addresses.tEUR, wallets[0].address);
-              }
-              
-              setStatus(
-                <div className="text-center">
-                  <h3 className="text-xl font-semibold mb-4">Step Completed</h3>
-                  <div className="bg-green-100 p-4 rounded-lg mb-4">
-                    <p className="text-green-800">✅ Transaction successful!</p>
-                    <a
-                      className="text-primary hover:text-primary/80 underline block mt-2"
-                      href={`${chainToUrl.sepolia}${result.hash}`}
-                      target="_blank"
-                      rel="noreferrer"
-                    >
-                      View on Explorer: {abbreviateTransactionHash(result.hash || '')}
-                    </a>
-                  </div>
-                  <button
-                    onClick={() => {
-                      const nextStep = currentStep + 1;
-                      processNextStep(flowData, nextStep);
-                    }}
-                    className="btn-primary"
-                  >
-                    Next Step
-                  </button>
-                </div>
-              );
-              
-              return;
-            } else if (txStatus.found && !txStatus.mined) {
-              // Transaction is still in the mempool/pending
-              console.log("⏳ Transaction is still pending in the mempool");
-            } else {
-              // Transaction might be dropped or failed
-              console.log("⚠️ Transaction might be dropped or failed");
-            }
-          }
-          
-          // Handle pending transactions
-          if (result.pending) {
-            console.log("⏳ Transaction is pending. Providing user option to continue or wait.");
-            setStatus(
-              <div className="text-center">
-                <h3 className="text-xl font-semibold mb-4">Transaction Pending</h3>
-                <div className="bg-yellow-50 p-4 rounded-lg mb-4">
-                  <p className="text-yellow-800">
-                    ⚠️ Your transaction was submitted, but confirmation is taking longer than expected.
-                  </p>
-                  <p className="text-sm mt-2">Transaction hash: {result.hash}</p>
-                  <a
-                    className="text-primary hover:text-primary/80 underline block mt-2"
-                    href={`${chainToUrl.sepolia}${result.hash}`}
-                    target="_blank"
-                    rel="noreferrer"
-                  >
-                    View on Explorer: {result.hash ? abbreviateTransactionHash(result.hash || '') : ''}
-                  </a>
-                </div>
-                <div className="flex justify-center space-x-4">
-                  <button
-                    onClick={() => {
-                      console.log("👉 User chose to continue to next step anyway");
-                      const nextStep = currentStep + 1;
-                      // Use the explicit function to process the next step
-                      processNextStep(flowData, nextStep);
-                    }}
-                    className="btn-primary"
-                  >
-                    Next Step
-                  </button>
-                  <button
-                    onClick={() => {
-                      console.log("🔄 User chose to try this step again");
-                      processRemittanceFlow(flowData, currentStep);
-                    }}
-                    className="btn-secondary"
-                  >
-                    Try Again
-                  </button>
-                </div>
-              </div>
+      if (transactionHash) {
+        addTransactionToHistory({
+          type: "remittance",
+          status: "completed",
+          data: {
+            transactionHash,
+            chain: flow.response.chain,
+            amount: flow.response.amount.toString(),
+            recipientAddress: flow.response.recipient_address,
+            remittanceId: flow.historyId ?? undefined,
+          },
+          message: `Completed ${remittanceStepLabel(flow, key)}`,
+        });
+      }
+      dispatchRemittance({ type: "confirmed", step: key, transactionHash });
+    });
+  };
+
+  // Auto-run: execute the next step as soon as the previous one settles
+  const autoRunStep = remittanceFlow ? getAutoRunStep(remittanceFlow) : undefined;
+
+  useEffect(() => {
+    if (autoRunStep && !remittanceStepBusy) {
+      void executeCurrentRemittanceStep();
+    }
+  }, [autoRunStep, remittanceStepBusy]);
+
+  // Watch every submitted step until it is mined: after a reload, or once the
+  // executor stops waiting for a slow transaction
+  const submittedRemittanceHashes = remittanceFlow
+    ? getSubmittedSteps(remittanceFlow).map(step => step.transactionHash).join(",")
+    : "";
+
+  useEffect(() => {
+    if (!remittanceFlow || !submittedRemittanceHashes) {
+      return;
+    }
+    const flow = remittanceFlow;
+    const provider = getReadProvider(flow.response.chain);
+    let stopped = false;
+
+    getSubmittedSteps(flow).forEach((step) => {
+      void (async () => {
+        while (!stopped) {
+          try {
+            const receipt = await provider.waitForTransaction(step.transactionHash!, 1, REMITTANCE_WATCH_TIMEOUT_MS);
+            if (stopped) return;
+            settleRemittanceStep(
+              flow,
+              step.key,
+              receipt.status === 0
+                ? { confirmed: false, error: `Transaction ${step.transactionHash} reverted` }
+                : { confirmed: true }
             );
+            await refreshRemittanceBalances(flow.response);
             return;
-          }
-          
-          // Update the UI based on result type
-          if (result.type === "balance_check") {
-            // Just update the status to show the next step
-            setStatus(
-              <div className="text-center">
-                <h3 className="text-xl font-semibold mb-4">Balance Check Complete</h3>
-                <div className="bg-green-100 p-4 rounded-lg mb-4">
-                  <p className="text-green-800">
-                    ✅ Balance check complete! You have {result.balance} tokens.
-                  </p>
-                </div>
-                <button
-                  onClick={() => {
-                    const nextStep = currentStep + 1;
-                    // Use the explicit function to process the next step
-                    processNextStep(flowData, nextStep);
-                  }}
-                  className="btn-primary"
-                >
-                  Next Step
-                </button>
-              </div>
-            );
-          } else if (result.type === "transaction") {
-            // Update the transaction history
-            const stepInfo = flowData.transaction_flow[`step${currentStep}`];
-            const stepName = typeof stepInfo === 'object' && stepInfo !== null && 'name' in stepInfo 
-              ? String(stepInfo.name) 
-              : "Transaction";
-              
-            addTransactionToHistory({
-              type: "remittance",
-              status: "completed",
-              data: {
-                transactionHash: result.hash,
-                chain: "sepolia",
-                amount: flowData.amount?.toString() || "0",
-                recipientAddress: flowData.recipient_address || "",
-              },
-              message: `Completed remittance step ${currentStep}: ${stepName}`
-            });
-            
-            // Update balances if using test tokens
-            if (flowData.using_test_tokens && flowData.token_addresses && wallets[0]?.address) {
-              await checkTokenBalance(flowData.token_addresses.tUSD, wallets[0].address);
-              await checkTokenBalance(flowData.token_addresses.tEUR, wallets[0].address);
+          } catch (error) {
+            // Timeouts just mean the transaction is still pending
+            if ((error as { code?: unknown }).code !== "TIMEOUT") {
+              console.error(`Failed to check remittance transaction ${step.transactionHash}:`, error);
+              await new Promise(resolve => setTimeout(resolve, REMITTANCE_WATCH_TIMEOUT_MS));
             }
-            
-            // Show success and proceed to next step with button
-            setStatus(
-              <div className="text-center">
-                <h3 className="text-xl font-semibold mb-4">Step Completed</h3>
-                <div className="bg-green-100 p-4 rounded-lg mb-4">
-                  <p className="text-green-800">✅ Transaction successful!</p>
-                  <a
-                    className="text-primary hover:text-primary/80 underline block mt-2"
-                    href={`${chainToUrl.sepolia}${result.hash}`}
-                    target="_blank"
-                    rel="noreferrer"
-                  >
-                    View on Explorer: {abbreviateTransactionHash(result.hash || '')}
-                  </a>
-                </div>
-                <button
-                  onClick={() => {
-                    const nextStep = currentStep + 1;
-                    // Use the explicit function to process the next step
-                    processNextStep(flowData, nextStep);
-                  }}
-                  className="btn-primary"
-                >
-                  Next Step
-                </button>
-              </div>
-            );
-          } else {
-            // No signature required or other case
-            // Show success and proceed to next step with button
-            setStatus(
-              <div className="text-center">
-                <h3 className="text-xl font-semibold mb-4">Step Completed</h3>
-                <div className="bg-green-100 p-4 rounded-lg mb-4">
-                  <p className="text-green-800">✅ Step completed successfully!</p>
-                </div>
-                <button
-                  onClick={() => {
-                    const nextStep = currentStep + 1;
-                    // Use the explicit function to process the next step
-                    processNextStep(flowData, nextStep);
-                  }}
-                  className="btn-primary"
-                >
-                  Next Step
-                </button>
-              </div>
-            );
           }
-          
-          return; // Exit this iteration, the next step will be handled when user clicks the Next Step button
-        } else {
-          // Show error
-          setStatus(
-            <div className="text-center">
-              <h3 className="text-xl font-semibold mb-4 text-red-600">Step Failed</h3>
-              <div className="bg-red-50 p-4 rounded-lg mb-4">
-                <p className="text-red-700">Failed to execute step {currentStep}.</p>
-                <p className="text-sm text-gray-600 mt-2">{result.error}</p>
-              </div>
-              <button
-                onClick={() => processRemittanceFlow(flowData, currentStep)}
-                className="btn-primary"
-              >
-                Try Again
-              </button>
-            </div>
-          );
-          return; // Exit and wait for user to try again
         }
-      };
-      
-      // Wait for the async operation to complete before continuing
+      })();
+    });
+    return () => {
+      stopped = true;
+    };
+  }, [submittedRemittanceHashes]);
+
+  // Batch status comes from the wallet that sent it, so polling waits for it
+  const submittedRemittanceBatches = remittanceFlow ? getSubmittedBatches(remittanceFlow).join(",") : "";
+  const signerAddress = wallets[0]?.address;
+
+  useEffect(() => {
+    if (!remittanceFlow || !submittedRemittanceBatches || !signerAddress) {
       return;
     }
-    
-    // If we've reached here, all steps are complete
-    if (currentStep > totalSteps) {
-      setStatus(
-        <div className="text-center">
-          <h3 className="text-xl font-semibold mb-4">Remittance Complete</h3>
-          <div className="bg-green-100 p-4 rounded-lg mb-4">
-            <p className="text-green-800">
-              ✅ Remittance process completed successfully!
-            </p>
-            {flowData.using_test_tokens && (
-              <p className="text-sm mt-2">
-                You now have tEUR tokens in your wallet representing the euros that would
-                be sent to the recipient in a real remittance.
-              </p>
-            )}
-          </div>
-          
-          {/* Display final token balances */}
-          {Object.keys(tokenBalances).length > 0 && (
-            <div className="mt-4 p-4 bg-gray-900 rounded-lg border border-gray-800">
-              <h4 className="text-primary font-medium mb-2">Final Token Balances</h4>
-              <div className="grid grid-cols-2 gap-2">
-                {Object.values(tokenBalances).map((token) => (
-                  <div key={token.address} className="flex justify-between items-center">
-                    <span>{token.symbol}:</span>
-                    <span className="font-mono">{parseFloat(token.balance).toFixed(4)}</span>
-                  </div>
-                ))}
-              </div>
-            </div>
-          )}
-          
-          <button
-            onClick={() => {
-              // Clear remittance data from localStorage when done
-              localStorage.removeItem("brinco_remittance_flow");
-              setRemittanceFlowData(null);
-              setCurrentRemittanceStep(1);
-              setShowStatusPopup(false);
-            }}
-            className="btn-primary mt-4"
-          >
-            Done
-          </button>
-        </div>
-      );
+    const flow = remittanceFlow;
+    let stopped = false;
+
+    getSubmittedBatches(flow).forEach((batchId) => {
+      void (async () => {
+        while (!stopped) {
+          try {
+            const status = await checkRemittanceBatch(wallets, batchId);
+            if (stopped) return;
+            if (status.state !== "pending") {
+              settleRemittanceBatch(flow, batchId, status);
+              await refreshRemittanceBalances(flow.response);
+              return;
+            }
+          } catch (error) {
+            console.error(`Failed to check remittance batch ${batchId}:`, error);
+          }
+          await new Promise(resolve => setTimeout(resolve, REMITTANCE_BATCH_POLL_MS));
+        }
+      })();
+    });
+    return () => {
+      stopped = true;
+    };
+  }, [submittedRemittanceBatches, signerAddress]);
+
+  useEffect(() => {
+    if (remittanceFlow?.status !== "completed" || !remittanceFlow.historyId) {
+      return;
     }
-  };
+    const { amount, recipient_address } = remittanceFlow.response;
+    updateTransactionInHistory(remittanceFlow.historyId, {
+      status: "completed",
+      message: `Remittance of $${amount} to ${recipient_address} completed`,
+    });
+  }, [remittanceFlow?.status]);
 
   // Modify queryIntent to include the test token parameter and handle remittance
-  const queryIntent = async () => {
-    setNetworkError(null);
-    let data: any;
-    setLoading(true);
+  // Resolve the intent and show it for confirmation before any wallet prompt
+  const reviewIntent = async (data: ExecutableIntent) => {
     try {
-      const response = await fetch(`${BACKEND_URL}answer/`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ 
-          question: intentValue,
-          use_test_tokens: true // Always use test tokens
-        }),
-      });
-      if (!response.ok) {
-        throw new Error("Network response was not ok!");
-      }
-      data = await response.json();
+      await checkNetwork(data.response.chain);
+      // Slippage asked for in the prompt applies to this request only
+      const promptSlippage = parseSlippageFromPrompt(intentValue);
+      const choices: PreviewChoices = {
+        slippage: promptSlippage !== undefined ? { mode: "custom", tolerance: promptSlippage } : loadSlippageSetting(),
+      };
+      const preview = await previewIntent(data, wallets, choices);
+      setReviewChoices(choices);
+      setReviewPrompt(intentValue);
+      setReview(preview);
     } catch (error) {
-      console.error("Failed to fetch:", error);
+      console.error("Failed to prepare transaction preview:", error);
       setStatus(
         <div className="text-center">
-          <h3 className="text-xl font-semibold mb-4 text-red-600">Request Failed</h3>
+          <h3 className="text-xl font-semibold mb-4 text-red-600">Could Not Prepare Transaction</h3>
           <div className="bg-red-50 p-4 rounded-lg">
-            <p className="text-red-700">Failed to process your request. Please check your internet connection.</p>
+            <p className="text-red-700 mb-2">We couldn't build a preview of this request, so nothing was sent.</p>
+            <p className="text-sm text-gray-600">{error instanceof Error ? error.message : "Unknown error"}</p>
           </div>
         </div>
       );
-      setShowStatusPopup(true);
-      setLoading(false);
+    }
+    setShowStatusPopup(true);
+    setLoading(false);
+  };
+
+  // Preview the swap under review again after the user changed a choice
+  const updateReviewChoices = async (changes: PreviewChoices) => {
+    if (!review) {
       return;
     }
+    const choices = { ...reviewChoices, ...changes };
+    try {
+      setReview(await previewIntent(review.intent, wallets, choices));
+      setReviewChoices(choices);
+    } catch (error) {
+      console.error("Failed to update swap preview:", error);
+    }
+  };
+
+  const changeSlippage = (setting: SlippageSetting) => {
+    saveSlippageSetting(setting);
+    void updateReviewChoices({ slippage: setting });
+  };
+
+  // Execute a transfer, swap, wrap or buy once the user has confirmed the review
+  const runIntent = async (data: ExecutableIntent, options: ExecutionOptions) => {
+    setNetworkError(null);
+    setLoading(true);
+    setStatus(
+      <div className="text-center">
+        <h3 className="text-xl font-semibold mb-4">Confirm in Your Wallet</h3>
+        <div className="bg-secondary/20 p-4 rounded-lg">
+          <p>Please approve the request in your wallet to continue.</p>
+        </div>
+      </div>
+    );
+    setShowStatusPopup(true);
 
     if (data.transaction_type === "transfer") {
-      const { recipientAddress, chain, amount, token } = data.response;
-      try {
-        // Check network connectivity first
-        await checkNetwork(chain);
+      const intent = data;
+      const { recipientAddress, chain, amount, token } = intent.response;
+      const symbol = getTokenLabel(getChainId(chain), token);
+
+      // Add to history as pending
+      const historyId = addTransactionToHistory({
+        type: "transfer",
+        status: "pending",
+        data: { 
+          chain, 
+          amount, 
+          token,
+          recipientAddress,
+        },
+        message: `Preparing to transfer ${amount} ${symbol} to ${recipientAddress} on ${chain}...`,
+      });
+
+      const showTransferFailure = (errorMessage: string) => {
+        setNetworkError(errorMessage);
         
-        // Add to history as pending
-        const historyId = `tx-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-        addTransactionToHistory({
-          type: "transfer",
-          status: "pending",
-          data: { 
-            chain, 
-            amount: amount.toString(), 
-            recipientAddress,
-          },
-          message: `Preparing to transfer ${amount} tokens to ${recipientAddress} on ${chain}...`,
+        // Mark the transaction as failed in history
+        updateTransactionInHistory(historyId, {
+          status: "failed",
+          message: `Transfer failed: ${errorMessage}`,
         });
         
-        // Try to execute the transaction
-        try {
-          const tx: ethers.providers.TransactionResponse = await sendTransaction(
-            wallets,
-            recipientAddress,
-            amount.toString(),
-            chain,
-            token
+        // Build a helpful error message based on the error type
+        let title = "Transfer Failed";
+        let content = <p className="mb-4">Unable to complete the transfer.</p>;
+        let tips = null;
+        
+        if (errorMessage.includes('network')) {
+          title = "Network Connection Failed";
+          tips = (
+            <div className="mt-4 p-4 bg-yellow-50 rounded-lg">
+              <p className="text-sm text-yellow-800">
+                📝 Tips:
+                <ul className="list-disc list-inside mt-2">
+                  <li>Check your internet connection</li>
+                  <li>Make sure your wallet is connected to the {chain} network</li>
+                  <li>Try refreshing the page</li>
+                </ul>
+              </p>
+            </div>
           );
-          
-          // Update history with transaction hash
-          updateTransactionInHistory(historyId, {
-            status: "pending",
-            data: { transactionHash: tx.hash },
-            message: `Transfer of ${amount} tokens to ${recipientAddress} submitted. Awaiting confirmation...`,
-          });
-          
-          setStatus(
-            <div className="text-center">
-              <h3 className="text-xl font-semibold mb-4">Transfer Submitted</h3>
-              <div className="bg-secondary/20 p-4 rounded-lg mb-4">
-                <p className="mb-2">Transaction is being processed by the network.</p>
-                <a
-                  className="text-primary hover:text-primary/80 underline"
-                  href={`${chainToUrl[chain]}${tx.hash}`}
-                  target="_blank"
-                  rel="noreferrer"
-                >
-                  View on Explorer: {abbreviateTransactionHash(tx.hash || '')}
-                </a>
-              </div>
+        } else if (errorMessage.includes('insufficient') || errorMessage.includes('funds')) {
+          title = "Insufficient Funds";
+          content = <p className="mb-4">You don't have enough funds to complete this transfer.</p>;
+          tips = (
+            <div className="mt-4 p-4 bg-yellow-50 rounded-lg">
+              <p className="text-sm text-yellow-800">
+                📝 Tips:
+                <ul className="list-disc list-inside mt-2">
+                  <li>Make sure you have enough tokens in your wallet</li>
+                  <li>Consider network fees when transferring</li>
+                </ul>
+              </p>
             </div>
           );
-          setShowStatusPopup(true);
+        }
+        
+        setStatus(
+          <div className="text-center">
+            <h3 className="text-xl font-semibold mb-2 text-red-600">{title}</h3>
+            <div className="bg-red-50 p-4 rounded-lg">
+              {content}
+              <p className="text-sm text-gray-600">{errorMessage}</p>
+              {tips}
+            </div>
+          </div>
+        );
+      };
 
-          // Wait for confirmation
-          try {
-            const receipt = await tx.wait(1);
+      const onTransferEvent = (event: ExecutionEvent) => {
+        switch (event.type) {
+          case "submitted":
+            // Update history with transaction hash
+            updateTransactionInHistory(historyId, {
+              status: "pending",
+              data: { transactionHash: event.transactionHash },
+              message: `Transfer of ${amount} ${symbol} to ${recipientAddress} submitted. Awaiting confirmation...`,
+            });
             
+            setStatus(
+              <div className="text-center">
+                <h3 className="text-xl font-semibold mb-4">Transfer Submitted</h3>
+                <div className="bg-secondary/20 p-4 rounded-lg mb-4">
+                  <p className="mb-2">Transaction is being processed by the network.</p>
+                  <a
+                    className="text-primary hover:text-primary/80 underline"
+                    href={getExplorerTxUrl(chain, event.transactionHash || "")}
+                    target="_blank"
+                    rel="noreferrer"
+                  >
+                    View on Explorer: {abbreviateTransactionHash(event.transactionHash || '')}
+                  </a>
+                </div>
+              </div>
+            );
+            break;
+          case "confirmed":
             // Update history to completed
             updateTransactionInHistory(historyId, {
               status: "completed",
-              data: { transactionHash: receipt.transactionHash },
-              message: `Successfully transferred ${amount} tokens to ${recipientAddress}. View on explorer: ${abbreviateTransactionHash(receipt.transactionHash || '')}`,
+              data: { transactionHash: event.transactionHash },
+              message: `Successfully transferred ${amount} ${symbol} to ${recipientAddress}. View on explorer: ${abbreviateTransactionHash(event.transactionHash || '')}`,
             });
 
             setStatus(
@@ -996,22 +929,21 @@ export default function DashboardPage() {
                   <p className="text-green-800 mb-2">✅ Your transfer has been confirmed!</p>
                   <a
                     className="text-primary hover:text-primary/80 underline"
-                    href={`${chainToUrl[chain]}${receipt.transactionHash}`}
+                    href={getExplorerTxUrl(chain, event.transactionHash || "")}
                     target="_blank"
                     rel="noreferrer"
                   >
-                    View on Explorer: {abbreviateTransactionHash(receipt.transactionHash || '')}
+                    View on Explorer: {abbreviateTransactionHash(event.transactionHash || '')}
                   </a>
                 </div>
               </div>
             );
-          } catch (confirmError) {
-            console.error("Transaction confirmation failed:", confirmError);
-            
+            break;
+          case "unconfirmed":
             // Even if confirmation monitoring fails, the transaction might still go through
             updateTransactionInHistory(historyId, {
               status: "pending",
-              message: `Transfer submitted but confirmation status unknown. View on explorer: ${abbreviateTransactionHash(tx.hash || '')}`,
+              message: `Transfer submitted but confirmation status unknown. View on explorer: ${abbreviateTransactionHash(event.transactionHash || '')}`,
             });
             
             setStatus(
@@ -1022,55 +954,17 @@ export default function DashboardPage() {
                   <p className="mb-2">Please check the transaction status on the blockchain explorer:</p>
                   <a
                     className="text-primary hover:text-primary/80 underline"
-                    href={`${chainToUrl[chain]}${tx.hash}`}
+                    href={getExplorerTxUrl(chain, event.transactionHash || "")}
                     target="_blank"
                     rel="noreferrer"
                   >
-                    View on Explorer: {abbreviateTransactionHash(tx.hash || '')}
+                    View on Explorer: {abbreviateTransactionHash(event.transactionHash || '')}
                   </a>
                 </div>
               </div>
             );
-          }
-        } catch (txError: any) {
-          console.error("Transaction execution failed:", txError);
-          
-          // Handle ENS resolution errors specifically
-          if (txError.message && (
-              txError.message.includes("Could not resolve name") || 
-              txError.message.includes("invalid address") ||
-              txError.message.includes("ENS")
-          )) {
-            updateTransactionInHistory(historyId, {
-              status: "failed",
-              message: `Transfer failed: Could not resolve recipient address "${recipientAddress}"`,
-            });
-            
-            setStatus(
-              <div className="text-center">
-                <h3 className="text-xl font-semibold mb-2 text-red-600">Address Resolution Failed</h3>
-                <div className="bg-red-50 p-4 rounded-lg">
-                  <p className="mb-4">We couldn't resolve the recipient address.</p>
-                  <p className="text-sm text-gray-600">{txError.message}</p>
-                  <div className="mt-4 p-4 bg-yellow-50 rounded-lg">
-                    <p className="text-sm text-yellow-800">
-                      📝 Suggestions:
-                      <ul className="list-disc list-inside mt-2">
-                        <li>Check if the ENS name is correct</li>
-                        <li>Try using the full Ethereum address instead</li>
-                        <li>There might be network issues with the ENS resolution service</li>
-                      </ul>
-                    </p>
-                  </div>
-                </div>
-              </div>
-            );
-            setShowStatusPopup(true);
-            setLoading(false);
-            return;
-          }
-          
-          if (txError.message && txError.message.includes("user rejected")) {
+            break;
+          case "rejected":
             updateTransactionInHistory(historyId, {
               status: "failed",
               message: `Transfer was cancelled: You rejected the transaction in your wallet`,
@@ -1084,519 +978,613 @@ export default function DashboardPage() {
                 </div>
               </div>
             );
-            setShowStatusPopup(true);
-            setLoading(false);
-            return;
-          }
-          
-          // Re-throw for general error handling
-          throw txError;
+            break;
+          case "failed":
+            // Handle ENS resolution errors specifically
+            if (
+              event.error.includes("Could not resolve name") || 
+              event.error.includes("invalid address") ||
+              event.error.includes("ENS")
+            ) {
+              updateTransactionInHistory(historyId, {
+                status: "failed",
+                message: `Transfer failed: Could not resolve recipient address "${recipientAddress}"`,
+              });
+              
+              setStatus(
+                <div className="text-center">
+                  <h3 className="text-xl font-semibold mb-2 text-red-600">Address Resolution Failed</h3>
+                  <div className="bg-red-50 p-4 rounded-lg">
+                    <p className="mb-4">We couldn't resolve the recipient address.</p>
+                    <p className="text-sm text-gray-600">{event.error}</p>
+                    <div className="mt-4 p-4 bg-yellow-50 rounded-lg">
+                      <p className="text-sm text-yellow-800">
+                        📝 Suggestions:
+                        <ul className="list-disc list-inside mt-2">
+                          <li>Check if the ENS name is correct</li>
+                          <li>Try using the full Ethereum address instead</li>
+                          <li>There might be network issues with the ENS resolution service</li>
+                        </ul>
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              );
+              break;
+            }
+            showTransferFailure(event.error);
+            break;
         }
-        
-        setLoading(false);
+        setShowStatusPopup(true);
+      };
+
+      try {
+        // Check network connectivity first
+        await checkNetwork(chain);
       } catch (error) {
         console.error("Transfer failed:", error);
-        
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        setNetworkError(errorMessage);
-        
-        // Add failed transaction to history
-        addTransactionToHistory({
-          type: "transfer",
+        showTransferFailure(error instanceof Error ? error.message : 'Unknown error');
+        setShowStatusPopup(true);
+        setLoading(false);
+        return;
+      }
+
+      await executeIntent(intent, wallets, onTransferEvent, options);
+      setLoading(false);
+    } else if (data.transaction_type === "swap") {
+      const intent = data;
+      const { chain, amount, fromAsset, toAsset } = intent.response;
+      const fromSymbol = getTokenLabel(getChainId(chain), fromAsset);
+      const toSymbol = getTokenLabel(getChainId(chain), toAsset);
+
+      // Add to history as pending
+      const historyId = addTransactionToHistory({
+        type: "swap",
+        status: "pending",
+        data: { 
+          chain, 
+          amount, 
+          fromAsset,
+          toAsset
+        },
+        message: `Swapping ${amount} ${fromSymbol} to ${toSymbol} on ${chain}...`,
+      });
+
+      const showSwapFailure = (error: string) => {
+        // Mark the transaction as failed in history
+        updateTransactionInHistory(historyId, {
           status: "failed",
-          data: { 
-            chain, 
-            amount: amount.toString(), 
-            recipientAddress 
-          },
-          message: `Transfer failed: ${errorMessage}`,
+          message: `Swap of ${amount} ${fromSymbol} failed: ${error || 'Unknown error'}`,
         });
         
-        // Build a helpful error message based on the error type
-        let title = "Transfer Failed";
-        let content = <p className="mb-4">Unable to complete the transfer.</p>;
-        let tips = null;
+        let errorMessage = "Sorry, there was an issue processing your swap.";
         
-        if (errorMessage.includes('network')) {
-          title = "Network Connection Failed";
-          tips = (
-            <div className="mt-4 p-4 bg-yellow-50 rounded-lg">
-              <p className="text-sm text-yellow-800">
-                📝 Tips:
-                <ul className="list-disc list-inside mt-2">
-                  <li>Check your internet connection</li>
-                  <li>Make sure your wallet is connected to the {chain} network</li>
-                  <li>Try refreshing the page</li>
-                </ul>
-              </p>
-            </div>
-          );
-        } else if (errorMessage.includes('insufficient') || errorMessage.includes('funds')) {
-          title = "Insufficient Funds";
-          content = <p className="mb-4">You don't have enough funds to complete this transfer.</p>;
-          tips = (
-            <div className="mt-4 p-4 bg-yellow-50 rounded-lg">
-              <p className="text-sm text-yellow-800">
-                📝 Tips:
-                <ul className="list-disc list-inside mt-2">
-                  <li>Make sure you have enough tokens in your wallet</li>
-                  <li>Consider network fees when transferring</li>
-                </ul>
-              </p>
-            </div>
-          );
+        if (error.includes("NoLiquidity")) {
+          errorMessage = "Sorry, there is no liquidity available for this swap pair. Please try a different token pair.";
+        } else if (error.includes("Insufficient liquidity")) {
+          errorMessage = "Sorry, there is insufficient liquidity for this swap pair on Uniswap. Please try a different token pair.";
+        } else if (error.includes("No liquidity available")) {
+          errorMessage = "Sorry, there is no liquidity available for this swap pair on Uniswap V2. Please try a different token pair.";
+        } else if (error.includes("COWProtocolUnsupported")) {
+          errorMessage = "Sorry, COW Protocol doesn't support swaps on the Sepolia testnet. Please try using a different network like Ethereum Mainnet.";
+        } else if (error.includes("404") || error.includes("Not Found")) {
+          errorMessage = "Sorry, COW Protocol API endpoint not found. The Sepolia testnet is not supported by COW Protocol.";
+        } else if (error.includes("user rejected transaction")) {
+          errorMessage = "Transaction was rejected in your wallet.";
+        } else if (error) {
+          errorMessage = error;
         }
         
         setStatus(
           <div className="text-center">
-            <h3 className="text-xl font-semibold mb-2 text-red-600">{title}</h3>
+            <h3 className="text-xl font-semibold mb-4 text-red-600">Swap Failed</h3>
             <div className="bg-red-50 p-4 rounded-lg">
-              {content}
-              <p className="text-sm text-gray-600">{errorMessage}</p>
-              {tips}
+              <p className="text-red-700">{errorMessage}</p>
+              {error.includes("liquidity") && (
+                <p className="text-sm mt-2 text-gray-600">
+                  This may be due to insufficient liquidity between these tokens on the {chain} network.
+                </p>
+              )}
             </div>
           </div>
         );
-        setShowStatusPopup(true);
-        setLoading(false);
-      }
-    } else if (data.transaction_type === "swap") {
-      const { chain, amount, fromAsset, toAsset } = data.response;
-      try {
-        // Check network connectivity first
-        await checkNetwork(chain);
-        
-        // Add to history as pending
-        const historyId = `tx-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-        addTransactionToHistory({
-          type: "swap",
-          status: "pending",
-          data: { 
-            chain, 
-            amount: amount.toString(), 
-            fromAsset,
-            toAsset
-          },
-          message: `Swapping ${amount} from ${fromAsset.substring(0, 6)}... to ${toAsset.substring(0, 6)}... on ${chain}...`,
-        });
-        
-        if (chain === "sepolia") {
-          const txHash = await uniswapV2Swap(
-            wallets,
-            chain,
-            fromAsset,
-            toAsset,
-            amount.toString()
-          );
-          
-          // Update history with transaction hash
-          updateTransactionInHistory(historyId, {
-            status: "pending",
-            data: { transactionHash: txHash },
-            message: `Swap of ${amount} tokens submitted. Awaiting confirmation... View on explorer: ${abbreviateTransactionHash(txHash || '')}`,
-          });
-          
+      };
+
+      // Set when a CoW order is placed, to report the fill against the quote
+      let quotedBuyAmount: string | undefined;
+
+      // Records how much of the order has filled and, given a title, shows it
+      const recordOrderFill = async (orderState: CowOrderState, title?: string) => {
+        try {
+          const fill = await describeOrderFill(chain, toAsset, orderState, quotedBuyAmount);
+          updateTransactionInHistory(historyId, { data: fill });
+          if (!title) return;
           setStatus(
             <div className="text-center">
-              <h3 className="text-xl font-semibold mb-4">Swap Submitted</h3>
-              <div className="bg-secondary/20 p-4 rounded-lg mb-4">
-                <p className="mb-2">Your swap transaction is being processed by the network.</p>
-                <a
-                  className="text-primary hover:text-primary/80 underline"
-                  href={`${chainToUrl[chain]}${txHash}`}
-                  target="_blank"
-                  rel="noreferrer"
-                >
-                  View on Explorer: {abbreviateTransactionHash(txHash || '')}
-                </a>
+              <h3 className="text-xl font-semibold mb-4">{title}</h3>
+              <div className="bg-green-100 p-4 rounded-lg text-green-800">
+                <p>Received {fill.received}{fill.filledPercent < 100 && ` (${fill.filledPercent}% filled)`}</p>
+                {fill.surplus && <p className="text-sm mt-2">Surplus versus quote: {fill.surplus}</p>}
               </div>
             </div>
           );
           setShowStatusPopup(true);
-          
-          // Wait for transaction confirmation
-          const provider = await wallets[0]?.getEthersProvider();
-          if (!provider) {
-            throw new Error("No wallet provider available");
-          }
-          const receipt = await provider.waitForTransaction(txHash);
-          
-          // Update history to completed
-          updateTransactionInHistory(historyId, {
-            status: "completed",
-            data: { transactionHash: receipt.transactionHash },
-            message: `Successfully swapped ${amount} tokens on ${chain}! View on explorer: ${abbreviateTransactionHash(receipt.transactionHash || '')}`,
-          });
-          
-          setStatus(
-            <div className="text-center">
-              <h3 className="text-xl font-semibold mb-4">Swap Complete</h3>
-              <div className="bg-green-100 p-4 rounded-lg mb-4">
-                <p className="text-green-800 mb-2">✅ Your swap has been confirmed!</p>
-                <a
-                  className="text-primary hover:text-primary/80 underline"
-                  href={`${chainToUrl[chain]}${receipt.transactionHash}`}
-                  target="_blank"
-                  rel="noreferrer"
-                >
-                  View on Explorer: {abbreviateTransactionHash(receipt.transactionHash || '')}
-                </a>
+        } catch (error) {
+          console.warn("Failed to describe order fill:", error);
+        }
+      };
+
+      const onSwapEvent = (event: ExecutionEvent) => {
+        switch (event.type) {
+          case "submitted":
+            if (event.orderId) {
+              const { orderId, validTo } = event;
+              quotedBuyAmount = event.quotedBuyAmount;
+              // Update history with order ID
+              updateTransactionInHistory(historyId, {
+                status: "pending",
+                data: { orderId, quotedBuyAmount, validTo },
+                message: `Swap order ${orderId.substring(0, 8)}... submitted. Waiting for fill...`,
+              });
+              
+              setStatus(
+                <div className="text-center">
+                  <h3 className="text-xl font-semibold mb-4">Order Submitted</h3>
+                  <div className="bg-secondary/20 p-4 rounded-lg">
+                    <p>Your order has been sent to COW Protocol and is being processed.</p>
+                    <p className="text-sm mt-2">Order ID: {orderId.substring(0, 12)}...</p>
+                    {validTo && (
+                      <p className="text-sm mt-1">Expires {new Date(validTo * 1000).toLocaleString()} if not filled</p>
+                    )}
+                  </div>
+                </div>
+              );
+              break;
+            }
+
+            // Update history with transaction hash
+            updateTransactionInHistory(historyId, {
+              status: "pending",
+              data: { transactionHash: event.transactionHash },
+              message: `Swap of ${amount} ${fromSymbol} to ${toSymbol} submitted. Awaiting confirmation... View on explorer: ${abbreviateTransactionHash(event.transactionHash || '')}`,
+            });
+            
+            setStatus(
+              <div className="text-center">
+                <h3 className="text-xl font-semibold mb-4">Swap Submitted</h3>
+                <div className="bg-secondary/20 p-4 rounded-lg mb-4">
+                  <p className="mb-2">Your swap transaction is being processed by the network.</p>
+                  <a
+                    className="text-primary hover:text-primary/80 underline"
+                    href={getExplorerTxUrl(chain, event.transactionHash || "")}
+                    target="_blank"
+                    rel="noreferrer"
+                  >
+                    View on Explorer: {abbreviateTransactionHash(event.transactionHash || '')}
+                  </a>
+                </div>
               </div>
-            </div>
-          );
-          setLoading(false);
-        } else {
-          // Use COW Protocol for other chains
-          const orderId = await sendOrder(
-            wallets,
-            chain,
-            fromAsset,
-            toAsset,
-            amount.toString()
-          );
-          
-          // Update history with order ID
-          updateTransactionInHistory(historyId, {
-            status: "pending",
-            data: { orderId },
-            message: `Swap order ${orderId.substring(0, 8)}... submitted. Waiting for fill...`,
-          });
-          
-          setStatus(
-            <div className="text-center">
-              <h3 className="text-xl font-semibold mb-4">Order Submitted</h3>
-              <div className="bg-secondary/20 p-4 rounded-lg">
-                <p>Your order has been sent to COW Protocol and is being processed.</p>
-                <p className="text-sm mt-2">Order ID: {orderId.substring(0, 12)}...</p>
+            );
+            break;
+          case "confirmed":
+            if (event.orderId) {
+              // Update history to completed
+              updateTransactionInHistory(historyId, {
+                status: "completed",
+                data: { transactionHash: event.transactionHash },
+                message: `Successfully swapped ${amount} ${fromSymbol} to ${toSymbol} via COW Protocol. Order: ${event.orderId.substring(0, 8)}...`,
+              });
+              
+              setStatus(
+                <div className="text-center">
+                  <h3 className="text-xl font-semibold mb-4">Order Filled</h3>
+                  <div className="bg-green-100 p-4 rounded-lg">
+                    <p className="text-green-800">✅ Your swap order has been successfully filled!</p>
+                  </div>
+                </div>
+              );
+              if (event.orderState) {
+                void recordOrderFill(event.orderState, "Order Filled");
+              }
+              break;
+            }
+
+            // Update history to completed
+            updateTransactionInHistory(historyId, {
+              status: "completed",
+              data: { transactionHash: event.transactionHash },
+              message: `Successfully swapped ${amount} ${fromSymbol} to ${toSymbol} on ${chain}! View on explorer: ${abbreviateTransactionHash(event.transactionHash || '')}`,
+            });
+            
+            setStatus(
+              <div className="text-center">
+                <h3 className="text-xl font-semibold mb-4">Swap Complete</h3>
+                <div className="bg-green-100 p-4 rounded-lg mb-4">
+                  <p className="text-green-800 mb-2">✅ Your swap has been confirmed!</p>
+                  <a
+                    className="text-primary hover:text-primary/80 underline"
+                    href={getExplorerTxUrl(chain, event.transactionHash || "")}
+                    target="_blank"
+                    rel="noreferrer"
+                  >
+                    View on Explorer: {abbreviateTransactionHash(event.transactionHash || '')}
+                  </a>
+                </div>
               </div>
+            );
+            break;
+          case "failed":
+            if (event.orderStatus) {
+              const outcome =
+                event.orderStatus === OrderStatus.EXPIRED ? "expired"
+                : event.orderStatus === OrderStatus.CANCELLED ? "cancelled"
+                : undefined;
+              // Update history to failed
+              updateTransactionInHistory(historyId, {
+                status: "failed",
+                data: { outcome },
+                message: `Swap order failed with status: ${event.orderStatus}`,
+              });
+              if (event.orderState && event.orderState.filled > 0) {
+                void recordOrderFill(event.orderState);
+              }
+              
+              setStatus(
+                <div className="text-center">
+                  <h3 className="text-xl font-semibold mb-4 text-red-600">Order Failed</h3>
+                  <div className="bg-red-50 p-4 rounded-lg">
+                    <p className="text-red-700">Something went wrong with your order.</p>
+                    <p className="text-sm mt-2">Status: {event.orderStatus}</p>
+                  </div>
+                </div>
+              );
+              break;
+            }
+            showSwapFailure(event.error);
+            break;
+          case "rejected":
+            showSwapFailure("user rejected transaction");
+            break;
+          case "progress":
+            void recordOrderFill(event.orderState, "Order Partially Filled");
+            break;
+          case "unconfirmed":
+            // Only orders stop being watched early; the reconciler keeps checking them
+            updateTransactionInHistory(historyId, {
+              message: `Swap order ${event.orderId?.substring(0, 8)}... is still open. Its status will update when it fills or expires.`,
+            });
+            setStatus(
+              <div className="text-center">
+                <h3 className="text-xl font-semibold mb-4">Order Still Open</h3>
+                <div className="bg-yellow-50 p-4 rounded-lg">
+                  <p className="text-yellow-800">We stopped watching your order before it settled: {event.error}</p>
+                  <p className="text-sm mt-2">It stays in your history and Open orders until it fills, expires or is cancelled.</p>
+                </div>
+              </div>
+            );
+            break;
+        }
+        setShowStatusPopup(true);
+      };
+
+      try {
+        // Check network connectivity first
+        await checkNetwork(chain);
+      } catch (error: any) {
+        console.error("Swap failed:", error);
+        showSwapFailure(error.message || "");
+        setShowStatusPopup(true);
+        setLoading(false);
+        return;
+      }
+
+      await executeIntent(intent, wallets, onSwapEvent, options);
+      setLoading(false);
+    } else if (data.transaction_type === "wrap" || data.transaction_type === "unwrap") {
+      const intent = data;
+      const { chain, amount } = intent.response;
+      const chainId = getChainId(chain);
+      const wrapping = intent.transaction_type === "wrap";
+      const { weth } = requireChain(chain);
+      const fromAsset = wrapping ? NATIVE_TOKEN_ADDRESS : weth;
+      const toAsset = wrapping ? weth : NATIVE_TOKEN_ADDRESS;
+      const label = `${amount} ${getTokenLabel(chainId, fromAsset)} to ${getTokenLabel(chainId, toAsset)}`;
+      const verb = wrapping ? "Wrap" : "Unwrap";
+
+      // Add to history as pending
+      const historyId = addTransactionToHistory({
+        type: "wrap",
+        status: "pending",
+        data: { chain, amount, fromAsset, toAsset },
+        message: `Preparing to ${verb.toLowerCase()} ${label} on ${chain}...`,
+      });
+
+      const showWrapFailure = (error: string) => {
+        updateTransactionInHistory(historyId, {
+          status: "failed",
+          message: `${verb} of ${label} failed: ${error}`,
+        });
+        setStatus(
+          <div className="text-center">
+            <h3 className="text-xl font-semibold mb-4 text-red-600">{verb} Failed</h3>
+            <div className="bg-red-50 p-4 rounded-lg">
+              <p className="text-sm text-gray-600">{error}</p>
             </div>
-          );
-          setShowStatusPopup(true);
+          </div>
+        );
+      };
 
-          const orderStatus = await waitForOrderStatus(orderId, chain);
-          
-          if (orderStatus === OrderStatus.FULFILLED) {
-            // Update history to completed
+      const explorerLink = (hash?: string) => (
+        <a
+          className="text-primary hover:text-primary/80 underline"
+          href={getExplorerTxUrl(chain, hash || "")}
+          target="_blank"
+          rel="noreferrer"
+        >
+          View on Explorer: {abbreviateTransactionHash(hash || '')}
+        </a>
+      );
+
+      const onWrapEvent = (event: ExecutionEvent) => {
+        switch (event.type) {
+          case "submitted":
+            updateTransactionInHistory(historyId, {
+              status: "pending",
+              data: { transactionHash: event.transactionHash },
+              message: `${verb} of ${label} submitted. Awaiting confirmation...`,
+            });
+            setStatus(
+              <div className="text-center">
+                <h3 className="text-xl font-semibold mb-4">{verb} Submitted</h3>
+                <div className="bg-secondary/20 p-4 rounded-lg mb-4">
+                  <p className="mb-2">Transaction is being processed by the network.</p>
+                  {explorerLink(event.transactionHash)}
+                </div>
+              </div>
+            );
+            break;
+          case "confirmed":
             updateTransactionInHistory(historyId, {
               status: "completed",
-              message: `Successfully swapped ${amount} tokens via COW Protocol. Order: ${orderId.substring(0, 8)}...`,
+              data: { transactionHash: event.transactionHash },
+              message: `Successfully ${wrapping ? "wrapped" : "unwrapped"} ${label}`,
             });
-            
             setStatus(
               <div className="text-center">
-                <h3 className="text-xl font-semibold mb-4">Order Filled</h3>
-                <div className="bg-green-100 p-4 rounded-lg">
-                  <p className="text-green-800">✅ Your swap order has been successfully filled!</p>
+                <h3 className="text-xl font-semibold mb-4">{verb} Complete</h3>
+                <div className="bg-green-100 p-4 rounded-lg mb-4">
+                  <p className="text-green-800 mb-2">✅ {label}</p>
+                  {explorerLink(event.transactionHash)}
                 </div>
               </div>
             );
-          } else {
-            // Update history to failed
+            break;
+          case "unconfirmed":
             updateTransactionInHistory(historyId, {
-              status: "failed",
-              message: `Swap order failed with status: ${orderStatus}`,
+              message: `${verb} submitted but confirmation status unknown. View on explorer: ${abbreviateTransactionHash(event.transactionHash || '')}`,
             });
-            
             setStatus(
               <div className="text-center">
-                <h3 className="text-xl font-semibold mb-4 text-red-600">Order Failed</h3>
-                <div className="bg-red-50 p-4 rounded-lg">
-                  <p className="text-red-700">Something went wrong with your order.</p>
-                  <p className="text-sm mt-2">Status: {orderStatus}</p>
+                <h3 className="text-xl font-semibold mb-4 text-yellow-600">Confirmation Status Unknown</h3>
+                <div className="bg-yellow-50 p-4 rounded-lg mb-4">
+                  <p className="text-yellow-800 mb-2">Your transaction was submitted, but we couldn't monitor its status.</p>
+                  {explorerLink(event.transactionHash)}
                 </div>
               </div>
             );
-          }
-          setLoading(false);
+            break;
+          case "rejected":
+            showWrapFailure("You rejected the transaction in your wallet");
+            break;
+          case "failed":
+            showWrapFailure(event.error);
+            break;
         }
-      } catch (error: any) {
-        console.error("Swap failed:", error);
-        
-        // Add failed transaction to history
-        addTransactionToHistory({
-          type: "swap",
+        setShowStatusPopup(true);
+      };
+
+      try {
+        // Check network connectivity first
+        await checkNetwork(chain);
+      } catch (error) {
+        console.error(`${verb} failed:`, error);
+        showWrapFailure(error instanceof Error ? error.message : 'Unknown error');
+        setShowStatusPopup(true);
+        setLoading(false);
+        return;
+      }
+
+      await executeIntent(intent, wallets, onWrapEvent, options);
+      setLoading(false);
+    } else if (data.transaction_type === "buy") {
+      const intent = data;
+      const { cryptoAsset, amount, chain, paymentMethod } = intent.response;
+      const symbol = getTokenLabel(getChainId(chain), cryptoAsset);
+
+      // Add to history as pending
+      const historyId = addTransactionToHistory({
+        type: "buy",
+        status: "pending",
+        data: { 
+          chain, 
+          amount, 
+          toAsset: cryptoAsset,
+        },
+        message: `Initiating purchase of ${amount} ${symbol} on ${chain} using ${paymentMethod}`,
+      });
+
+      const showBuyFailure = (error: string) => {
+        // Mark the transaction as failed in history
+        updateTransactionInHistory(historyId, {
           status: "failed",
-          data: { 
-            chain, 
-            amount: amount.toString(), 
-            fromAsset,
-            toAsset 
-          },
-          message: `Swap of ${amount} tokens failed: ${error.message || 'Unknown error'}`,
+          message: `Purchase of ${amount} ${symbol} failed: ${error || 'Unknown error'}`,
         });
         
-        let errorMessage = "Sorry, there was an issue processing your swap.";
-        
-        if (error.message && error.message.includes("NoLiquidity")) {
-          errorMessage = "Sorry, there is no liquidity available for this swap pair. Please try a different token pair.";
-        } else if (error.message && error.message.includes("Insufficient liquidity")) {
-          errorMessage = "Sorry, there is insufficient liquidity for this swap pair on Uniswap. Please try a different token pair.";
-        } else if (error.message && error.message.includes("No liquidity available")) {
-          errorMessage = "Sorry, there is no liquidity available for this swap pair on Uniswap V2. Please try a different token pair.";
-        } else if (error.message && error.message.includes("COWProtocolUnsupported")) {
-          errorMessage = "Sorry, COW Protocol doesn't support swaps on the Sepolia testnet. Please try using a different network like Ethereum Mainnet.";
-        } else if (error.message && (error.message.includes("404") || error.message.includes("Not Found"))) {
-          errorMessage = "Sorry, COW Protocol API endpoint not found. The Sepolia testnet is not supported by COW Protocol.";
-        } else if (error.message && error.message.includes("user rejected transaction")) {
-          errorMessage = "Transaction was rejected in your wallet.";
-        } else if (error.message) {
-          errorMessage = error.message;
-        }
-        
         setStatus(
           <div className="text-center">
-            <h3 className="text-xl font-semibold mb-4 text-red-600">Swap Failed</h3>
+            <h3 className="text-xl font-semibold mb-4 text-red-600">Purchase Failed</h3>
             <div className="bg-red-50 p-4 rounded-lg">
-              <p className="text-red-700">{errorMessage}</p>
-              {error.message && error.message.includes("liquidity") && (
-                <p className="text-sm mt-2 text-gray-600">
-                  This may be due to insufficient liquidity between these tokens on the {chain} network.
-                </p>
-              )}
+              <p className="text-red-700 mb-4">Sorry, we couldn't process your purchase request.</p>
+              <p className="text-sm text-gray-600">
+                {error || "Unknown error"}
+              </p>
+              <p className="mt-4">Please try again later or use your wallet's built-in "Buy" feature.</p>
             </div>
           </div>
         );
+      };
+
+      const onBuyEvent = (event: ExecutionEvent) => {
+        if (event.type === "failed" || event.type === "rejected") {
+          showBuyFailure(event.error);
+        } else if (event.type === "confirmed" && event.moonpayUrl) {
+          const { moonpayUrl } = event;
+          // Update history with moonpay URL
+          updateTransactionInHistory(historyId, {
+            status: "completed",
+            data: { moonpayUrl },
+            message: `MoonPay purchase request for ${amount} initiated successfully. Complete the purchase in MoonPay.`,
+          });
+          
+          // Open the MoonPay widget in a new tab
+          window.open(moonpayUrl, "_blank");
+          
+          setStatus(
+            <div className="text-center space-y-6">
+              <h3 className="text-xl font-semibold">Buy {amount} USDC with MoonPay</h3>
+              
+              <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm text-left">
+                <p className="mb-4">We've opened MoonPay in a new tab where you can complete your purchase.</p>
+                
+                <ol className="list-decimal list-inside space-y-3">
+                  <li className="pb-2">Complete the checkout process in the MoonPay tab</li>
+                  <li className="pb-2">Your wallet address has been pre-filled for you</li>
+                  <li className="pb-2">Select your preferred payment method: {paymentMethod.replace('_', ' ')}</li>
+                  <li className="pb-2">Follow the prompts to complete KYC if required</li>
+                  <li>Once complete, USDC will be sent directly to your wallet</li>
+                </ol>
+              </div>
+              
+              <div className="bg-secondary/20 p-4 rounded-lg text-gray-800 text-sm">
+                <p className="font-medium mb-1">💡 About MoonPay</p>
+                <p>MoonPay is a trusted fiat-to-crypto service that makes buying cryptocurrency simple and secure. They handle all regulatory requirements and offer competitive rates.</p>
+              </div>
+              
+              {getChain(chain)?.testnet && (
+                <div className="bg-yellow-50 p-4 rounded-lg text-yellow-800 text-sm">
+                  <p className="font-medium mb-1">⚠️ Testnet Notice</p>
+                  <p>You're currently on {chain} testnet. For testing purposes, the MoonPay widget will be configured to purchase on testnet, but actual testnet purchases may not be supported by all providers.</p>
+                </div>
+              )}
+            </div>
+          );
+        }
         setShowStatusPopup(true);
-        setLoading(false);
-      }
-    } else if (data.transaction_type === "buy") {
-      const { cryptoAsset, amount, chain, paymentMethod } = data.response;
+      };
+
       try {
         // Check network connectivity first
         await checkNetwork(chain);
-        
-        // Add to history as pending
-        const historyId = `tx-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-        addTransactionToHistory({
-          type: "buy",
-          status: "pending",
-          data: { 
-            chain, 
-            amount: amount.toString(), 
-            toAsset: cryptoAsset,
-          },
-          message: `Initiating purchase of ${amount} ${cryptoAsset.substring(0, 8)}... on ${chain} using ${paymentMethod}`,
-        });
-        
-        // Process the buy request using MoonPay
-        const { moonpayUrl } = await processBuyRequest(
-          wallets,
-          amount.toString(),
-          cryptoAsset,
-          chain,
-          paymentMethod
-        );
-        
-        // Update history with moonpay URL
-        updateTransactionInHistory(historyId, {
-          status: "completed",
-          data: { moonpayUrl },
-          message: `MoonPay purchase request for ${amount} initiated successfully. Complete the purchase in MoonPay.`,
-        });
-        
-        // Open the MoonPay widget in a new tab
-        window.open(moonpayUrl, "_blank");
-        
-        setStatus(
-          <div className="text-center space-y-6">
-            <h3 className="text-xl font-semibold">Buy {amount} USDC with MoonPay</h3>
-            
-            <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm text-left">
-              <p className="mb-4">We've opened MoonPay in a new tab where you can complete your purchase.</p>
-              
-              <ol className="list-decimal list-inside space-y-3">
-                <li className="pb-2">Complete the checkout process in the MoonPay tab</li>
-                <li className="pb-2">Your wallet address has been pre-filled for you</li>
-                <li className="pb-2">Select your preferred payment method: {paymentMethod.replace('_', ' ')}</li>
-                <li className="pb-2">Follow the prompts to complete KYC if required</li>
-                <li>Once complete, USDC will be sent directly to your wallet</li>
-              </ol>
-            </div>
-            
-            <div className="bg-secondary/20 p-4 rounded-lg text-gray-800 text-sm">
-              <p className="font-medium mb-1">💡 About MoonPay</p>
-              <p>MoonPay is a trusted fiat-to-crypto service that makes buying cryptocurrency simple and secure. They handle all regulatory requirements and offer competitive rates.</p>
-            </div>
-            
-            {chain !== 'mainnet' && (
-              <div className="bg-yellow-50 p-4 rounded-lg text-yellow-800 text-sm">
-                <p className="font-medium mb-1">⚠️ Testnet Notice</p>
-                <p>You're currently on {chain} testnet. For testing purposes, the MoonPay widget will be configured to purchase on testnet, but actual testnet purchases may not be supported by all providers.</p>
-              </div>
-            )}
-          </div>
-        );
-        setShowStatusPopup(true);
-        setLoading(false);
       } catch (error: any) {
         console.error("Buy transaction failed:", error);
-        
-        // Add failed transaction to history
-        addTransactionToHistory({
-          type: "buy",
-          status: "failed",
-          data: { 
-            chain, 
-            amount: amount.toString(), 
-            toAsset: cryptoAsset
-          },
-          message: `Purchase of ${amount} ${cryptoAsset.substring(0, 8)}... failed: ${error.message || 'Unknown error'}`,
-        });
-        
+        showBuyFailure(error.message || "");
+        setShowStatusPopup(true);
+        setLoading(false);
+        return;
+      }
+
+      await executeIntent(intent, wallets, onBuyEvent, options);
+      setLoading(false);
+    }
+  };
+
+  const queryIntent = async () => {
+    setNetworkError(null);
+    let data: Intent;
+    setLoading(true);
+    try {
+      const response = await fetch(`${getConfig().backendUrl}answer/`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ 
+          question: intentValue,
+          use_test_tokens: true, // Always use test tokens
+          // Lets the agent turn "send 20 USDC to Mom" into a transfer to Mom's address
+          address_book: toAgentContext(contacts)
+        }),
+      });
+      if (!response.ok) {
+        throw new Error("Network response was not ok!");
+      }
+      const body: unknown = await response.json();
+      try {
+        data = parseAnswerResponse(body);
+      } catch (validationError) {
+        console.error("Rejected agent response:", body, validationError);
         setStatus(
           <div className="text-center">
-            <h3 className="text-xl font-semibold mb-4 text-red-600">Purchase Failed</h3>
+            <h3 className="text-xl font-semibold mb-4 text-red-600">Request Not Understood</h3>
             <div className="bg-red-50 p-4 rounded-lg">
-              <p className="text-red-700 mb-4">Sorry, we couldn't process your purchase request.</p>
+              <p className="text-red-700 mb-2">The agent returned a response we can't safely act on. No transaction was sent.</p>
               <p className="text-sm text-gray-600">
-                {error.message || "Unknown error"}
+                {validationError instanceof Error ? validationError.message : "Unknown error"}
               </p>
-              <p className="mt-4">Please try again later or use your wallet's built-in "Buy" feature.</p>
             </div>
           </div>
         );
         setShowStatusPopup(true);
         setLoading(false);
+        return;
       }
-    } else if (data.transaction_type === "remittance") {
-      const { amount, recipient_address, chain } = data.response;
+    } catch (error) {
+      console.error("Failed to fetch:", error);
+      setStatus(
+        <div className="text-center">
+          <h3 className="text-xl font-semibold mb-4 text-red-600">Request Failed</h3>
+          <div className="bg-red-50 p-4 rounded-lg">
+            <p className="text-red-700">Failed to process your request. Please check your internet connection.</p>
+          </div>
+        </div>
+      );
+      setShowStatusPopup(true);
+      setLoading(false);
+      return;
+    }
+
+    if (data.transaction_type !== "remittance") {
+      await reviewIntent(data);
+    } else {
+      const remittance = data.response;
+      const { amount, recipient_address, chain } = remittance;
       
       try {
         // Check network connectivity first
         await checkNetwork(chain);
         
-        console.log("🔄 Starting new remittance process - clearing previous data");
-        // IMPORTANT: Clear any existing remittance flow data from localStorage
-        localStorage.removeItem("brinco_remittance_flow");
-        
-        console.log("⬆️ Resetting to step 1");
-        // Reset the current step to 1 and clear any previous remittance data
-        setCurrentRemittanceStep(1);
-        
-        // Store the remittance flow data for processing
-        setRemittanceFlowData(data.response);
-        
-        // Store the remittance cost simulation data
-        if (data.response.cost_simulation) {
-          setRemittanceCost(data.response.cost_simulation);
-          setShowCostSimulation(true);
+        // A new remittance replaces one left unfinished
+        if (remittanceFlow && remittanceFlow.status !== "completed") {
+          cancelRemittance();
         }
-        
-        // Add to history as pending
-        const historyId = `tx-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-        addTransactionToHistory({
+
+        const historyId = addTransactionToHistory({
           type: "remittance",
           status: "pending",
           data: { 
             chain, 
             amount: amount.toString(), 
             recipientAddress: recipient_address,
-            exchangeRates: data.response.cost_simulation?.exchange_rates,
-            fees: data.response.cost_simulation?.fees
+            exchangeRates: remittance.cost_simulation?.exchange_rates,
+            fees: remittance.cost_simulation?.fees
           },
           message: `Starting remittance of $${amount} to ${recipient_address} on ${chain}...`,
         });
-        
-        // Get the transaction flow steps
-        const transactionFlow = data.response.transaction_flow;
-        const totalSteps = Object.keys(transactionFlow).length;
-        
-        // If using test tokens, check initial balances
-        if (data.response.using_test_tokens && data.response.token_addresses && wallets[0]?.address) {
-          await checkTokenBalance(data.response.token_addresses.tUSD, wallets[0].address);
-          await checkTokenBalance(data.response.token_addresses.tEUR, wallets[0].address);
-        }
-        
-        setStatus(
-          <div className="text-center">
-            <h3 className="text-xl font-semibold mb-4">Remittance Process</h3>
-            <div className="bg-secondary/20 p-4 rounded-lg mb-4">
-              <p className="mb-2">Remittance flow initialized with {totalSteps} steps.</p>
-              {data.response.using_test_tokens && (
-                <p className="text-yellow-400 text-sm mb-2">Using test tokens (tUSD and tEUR) for simulation.</p>
-              )}
-              <div className="mt-4">
-                <button 
-                  onClick={() => setShowCostSimulation(!showCostSimulation)}
-                  className="text-primary hover:text-primary/80 underline"
-                >
-                  {showCostSimulation ? "Hide Cost Simulation" : "Show Cost Simulation"}
-                </button>
-              </div>
-            </div>
-            
-            {showCostSimulation && remittanceCost && (
-              <div className="bg-gray-900 p-4 rounded-lg border border-gray-700 text-left mt-4">
-                <h4 className="text-lg font-medium text-primary mb-2">Remittance Cost Simulation</h4>
-                
-                <div className="grid grid-cols-2 gap-2 mt-4">
-                  <div className="text-gray-400">USD Amount:</div>
-                  <div className="text-right font-mono">${remittanceCost.usd_amount.toFixed(2)}</div>
-                  
-                  <div className="text-gray-400">EUR Amount:</div>
-                  <div className="text-right font-mono">€{remittanceCost.eur_amount.toFixed(2)}</div>
-                  
-                  <div className="text-gray-400">Exchange Rate:</div>
-                  <div className="text-right font-mono">
-                    1 USD ≈ {remittanceCost.exchange_rates.usdc_to_eurc.toFixed(4)} EUR
-                  </div>
-                  
-                  <div className="text-gray-400">Network Fee:</div>
-                  <div className="text-right font-mono">${remittanceCost.fees.network_fee_usd.toFixed(2)}</div>
-                  
-                  <div className="text-gray-400">Service Fee:</div>
-                  <div className="text-right font-mono">${remittanceCost.fees.service_fee_usd.toFixed(2)}</div>
-                  
-                  <div className="text-gray-400 font-medium">Total Cost:</div>
-                  <div className="text-right font-mono font-medium">${remittanceCost.fees.total_cost_usd.toFixed(2)}</div>
-                </div>
-                
-                <div className="mt-4 pt-4 border-t border-gray-700">
-                  <p className="text-sm text-gray-400">
-                    Cost simulation based on current market rates and estimated gas prices. 
-                    Actual costs may vary at the time of execution.
-                  </p>
-                </div>
-              </div>
-            )}
-            
-            {/* Display token balances if available */}
-            {Object.keys(tokenBalances).length > 0 && (
-              <div className="mt-4 p-4 bg-gray-900 rounded-lg border border-gray-800">
-                <h4 className="text-primary font-medium mb-2">Token Balances</h4>
-                <div className="grid grid-cols-2 gap-2">
-                  {Object.values(tokenBalances).map((token) => (
-                    <div key={token.address} className="flex justify-between items-center">
-                      <span>{token.symbol}:</span>
-                      <span className="font-mono">{parseFloat(token.balance).toFixed(4)}</span>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
-            
-            <div className="mt-6">
-              <button
-                onClick={() => {
-                  // Clear any existing flow data to ensure we start fresh
-                  localStorage.removeItem("brinco_remittance_flow");
-                  // Reset to step 1
-                  setCurrentRemittanceStep(1);
-                  // Show the process in the popup
-                  setShowStatusPopup(true);
-                  // Wait a bit to ensure state is updated before processing
-                  setTimeout(() => {
-                    processRemittanceFlow(data.response, 1);
-                  }, 100);
-                }}
-                className="btn-primary"
-              >
-                Begin Remittance Process
-              </button>
-            </div>
-          </div>
-        );
-        setShowStatusPopup(true);
+        const flow = createRemittanceFlow(remittance, historyId);
+        saveRemittanceFlow(flow);
+        setRemittanceFlow(flow);
+        setShowRemittance(true);
+        await refreshRemittanceBalances(remittance);
         setLoading(false);
       } catch (error) {
         console.error("Remittance failed:", error);
@@ -1648,12 +1636,29 @@ export default function DashboardPage() {
     switch (type) {
       case 'transfer': return '↗️';
       case 'swap': return '🔄';
+      case 'wrap': return '🎁';
       case 'buy': return '💰';
       case 'remittance': return '💸';
       default: return '📝';
     }
   };
 
+  // Show amounts with token symbols, e.g. "10 USDC → WETH"
+  const formatHistoryAmount = (tx: TransactionHistoryItem) => {
+    const { amount, chain, token, fromAsset, toAsset } = tx.data;
+    const chainId = chain ? getChainId(chain) : undefined;
+    if ((tx.type === 'swap' || tx.type === 'wrap') && fromAsset && toAsset) {
+      return `${amount} ${getTokenLabel(chainId, fromAsset)} → ${getTokenLabel(chainId, toAsset)}`;
+    }
+    if (tx.type === 'transfer' && token) {
+      return `${amount} ${getTokenLabel(chainId, token)}`;
+    }
+    if (tx.type === 'buy' && toAsset) {
+      return `$${amount} → ${getTokenLabel(chainId, toAsset)}`;
+    }
+    return amount;
+  };
+
   // Format timestamp to readable date
   const formatTimestamp = (timestamp: number) => {
     const date = new Date(timestamp);
@@ -1696,7 +1701,43 @@ export default function DashboardPage() {
               </div>
             )}
 
-            {showStatusPopup ? (
+            {showStatusPopup && review ? (
+              <div className="flex flex-col items-center justify-between p-6">
+                <IntentReview
+                  preview={review}
+                  onConfirm={(options) => {
+                    const confirmed = toConfirmedIntent(review);
+                    setReview(null);
+                    void runIntent(confirmed, options);
+                  }}
+                  onSelectVenue={(venue) => void updateReviewChoices({ venue })}
+                  onSlippageChange={changeSlippage}
+                  onEdit={() => {
+                    setReview(null);
+                    setShowStatusPopup(false);
+                    setIntentValue(reviewPrompt);
+                  }}
+                  onReject={() => {
+                    setReview(null);
+                    setShowStatusPopup(false);
+                  }}
+                />
+              </div>
+            ) : showRemittance && remittanceFlow ? (
+              <div className="flex flex-col items-center justify-between p-6">
+                <RemittanceFlowPanel
+                  flow={remittanceFlow}
+                  balances={Object.values(tokenBalances)}
+                  onStart={(mode) => dispatchRemittance({ type: "start", mode })}
+                  onModeChange={(mode) => dispatchRemittance({ type: "set_mode", mode })}
+                  onExecute={() => void executeCurrentRemittanceStep()}
+                  onSkip={() => dispatchRemittance({ type: "skip" })}
+                  onCancel={cancelRemittance}
+                  onHide={() => setShowRemittance(false)}
+                  onDone={closeRemittance}
+                />
+              </div>
+            ) : showStatusPopup ? (
               <div className="flex flex-col items-center justify-between p-6">
                 {status}
                 <div className="flex flex-row items-center mt-6">
@@ -1717,6 +1758,14 @@ export default function DashboardPage() {
                   </h2>
                 </div>
 
+                {remittanceFlow && (
+                  <div className="text-center">
+                    <button onClick={() => setShowRemittance(true)} className="btn-secondary">
+                      Resume remittance in progress
+                    </button>
+                  </div>
+                )}
+
                 {/* Message input */}
                 <div className="space-y-3">
                   <textarea
@@ -1750,7 +1799,7 @@ export default function DashboardPage() {
                 </div>
                 
                 {/* Transaction History Dropdown Section */}
-                {transactionHistory.length > 0 && (
+                {ledgerSize > 0 && (
                   <div className="w-full border border-gray-800 rounded-lg overflow-hidden">
                     <button 
                       onClick={() => setShowHistory(!showHistory)}
@@ -1758,9 +1807,9 @@ export default function DashboardPage() {
                     >
                       <div className="flex items-center">
                         <span className="text-primary font-medium">Transaction History</span>
-                        {transactionHistory.length > 0 && (
-                          <span className="ml-2 bg-primary text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
-                            {transactionHistory.length}
+                        {ledgerSize > 0 && (
+                          <span className="ml-2 bg-primary text-white text-xs rounded-full h-5 min-w-[1.25rem] px-1 flex items-center justify-center">
+                            {ledgerSize}
                           </span>
                         )}
                       </div>
@@ -1779,7 +1828,19 @@ export default function DashboardPage() {
                     </button>
                     
                     {/* Collapsible history content */}
-                    <div className={`overflow-hidden transition-all duration-300 ease-in-out ${showHistory ? 'max-h-[500px] opacity-100' : 'max-h-0 opacity-0'}`}>
+                    <div className={`transition-all duration-300 ease-in-out ${showHistory ? 'max-h-[700px] overflow-y-auto opacity-100' : 'max-h-0 overflow-hidden opacity-0'}`}>
+                      <HistoryFilters filter={historyFilter} onChange={changeHistoryFilter} />
+                      <div className="flex justify-end space-x-4 px-4 pb-2 text-xs bg-[#1a1a1a]">
+                        <button onClick={() => void exportHistory("csv")} className="text-primary hover:underline">
+                          Export CSV
+                        </button>
+                        <button onClick={() => void exportHistory("json")} className="text-primary hover:underline">
+                          Export JSON
+                        </button>
+                      </div>
+                      {transactionHistory.length === 0 && (
+                        <p className="p-4 text-sm text-gray-400 text-center">No transactions match these filters.</p>
+                      )}
                       <div className="divide-y divide-gray-800">
                         {transactionHistory.map((tx) => (
                           <div key={tx.id} className="transaction-item">
@@ -1794,15 +1855,28 @@ export default function DashboardPage() {
                             </div>
                             
                             <div className="text-right">
-                              <div className="font-mono">{tx.data.amount}</div>
+                              <div className="font-mono">{formatHistoryAmount(tx)}</div>
                               <div className={`text-xs ${getStatusColor(tx.status)}`}>
                                 {tx.status === 'completed' ? 'Succeeded' : tx.status}
+                                {tx.data.outcome && ` (${tx.data.outcome})`}
                               </div>
+                              {tx.data.networkFee && (
+                                <div className="text-xs text-gray-500">
+                                  Block {tx.data.blockNumber} · Fee {tx.data.networkFee}
+                                </div>
+                              )}
+                              {tx.data.received && (
+                                <div className="text-xs text-gray-500">
+                                  Received {tx.data.received}
+                                  {tx.data.filledPercent !== undefined && tx.data.filledPercent < 100 && ` (${tx.data.filledPercent}% filled)`}
+                                  {tx.data.surplus && ` · Surplus ${tx.data.surplus}`}
+                                </div>
+                              )}
                               
                               {/* Show transaction hash link if available */}
                               {tx.data.transactionHash && tx.data.chain && (
                                 <a 
-                                  href={`${chainToUrl[tx.data.chain]}${tx.data.transactionHash}`}
+                                  href={getExplorerTxUrl(tx.data.chain, tx.data.transactionHash)}
                                   target="_blank"
                                   rel="noreferrer"
                                   className="text-xs text-primary hover:underline mt-1 inline-flex items-center"
@@ -1814,13 +1888,81 @@ export default function DashboardPage() {
                                   </svg>
                                 </a>
                               )}
+
+                              {tx.status === "pending" && tx.data.transactionHash && !tx.data.orderId && (
+                                <div className="flex justify-end space-x-2 mt-1 text-xs">
+                                  <button
+                                    onClick={() => void replacePendingTransaction(tx, "speed_up")}
+                                    className="text-primary hover:underline"
+                                  >
+                                    Speed up
+                                  </button>
+                                  <button
+                                    onClick={() => void replacePendingTransaction(tx, "cancel")}
+                                    className="text-status-error hover:underline"
+                                  >
+                                    Cancel
+                                  </button>
+                                </div>
+                              )}
+
+                              {tx.status === "pending" && tx.data.orderId && tx.data.chain && (
+                                <button
+                                  onClick={() => void cancelCowOrder({ chain: tx.data.chain!, orderId: tx.data.orderId! })}
+                                  className="block ml-auto text-xs text-status-error hover:underline mt-1"
+                                >
+                                  Cancel order
+                                </button>
+                              )}
+
+                              {hasReceipt(tx) && (
+                                <button
+                                  onClick={() => void showReceipt(tx)}
+                                  className="block ml-auto text-xs text-primary hover:underline mt-1"
+                                >
+                                  Receipt
+                                </button>
+                              )}
                             </div>
                           </div>
                         ))}
                       </div>
+                      {historyTotal > HISTORY_PAGE_SIZE && (
+                        <div className="flex justify-between items-center p-4 text-sm text-gray-400">
+                          <button
+                            onClick={() => setHistoryPage(historyPage - 1)}
+                            disabled={historyPage === 0}
+                            className="text-primary hover:underline disabled:text-gray-600 disabled:no-underline"
+                          >
+                            Newer
+                          </button>
+                          <span>
+                            {historyPage * HISTORY_PAGE_SIZE + 1}–{Math.min((historyPage + 1) * HISTORY_PAGE_SIZE, historyTotal)} of {historyTotal}
+                          </span>
+                          <button
+                            onClick={() => setHistoryPage(historyPage + 1)}
+                            disabled={(historyPage + 1) * HISTORY_PAGE_SIZE >= historyTotal}
+                            className="text-primary hover:underline disabled:text-gray-600 disabled:no-underline"
+                          >
+                            Older
+                          </button>
+                        </div>
+                      )}
                     </div>
                   </div>
                 )}
+
+                <PortfolioPanel owner={wallets[0]?.address} />
+
+                <AddressBookPanel
+                  contacts={contacts}
+                  onSave={saveAddressBookContact}
+                  onDelete={deleteAddressBookContact}
+                />
+
+                <OrdersPanel owner={wallets[0]?.address} onCancel={cancelCowOrder} />
+
+                <AllowancesPanel owner={wallets[0]?.address} onRevoke={revokeTokenAllowance} />
               </div>
             )}
           </div>
@@ -0,0 +1,262 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+
+// Saved recipients, kept per wallet in IndexedDB and encrypted at rest with a
+// non-extractable AES-GCM key, so contacts never sit in storage as plain text
+// and the key can't be read back out by any script
+
+import { ethers } from "ethers";
+import { getChain } from "./chains";
+import { resolveNameOrAddress } from "./utils";
+import { queryTransactions } from "./ledger";
+
+export interface Contact {
+  id: string;
+  // Name the user refers to the contact by, e.g. "Mom"
+  nickname: string;
+  // 0x address or ENS name
+  address: string;
+  // Chain key transfers to the contact default to
+  preferredChain?: string;
+  // Currency the contact likes to be paid in, e.g. "USDC" or "EUR"
+  payoutCurrency?: string;
+  // ISO 3166-1 alpha-2 country code
+  country?: string;
+}
+
+export type ContactInput = Omit<Contact, "id"> & { id?: string };
+
+// What the agent backend is told about each contact
+export interface AgentContact {
+  nickname: string;
+  address: string;
+  preferred_chain?: string;
+  payout_currency?: string;
+  country?: string;
+}
+
+export interface ResolvedRecipient {
+  address: string;
+  // Nickname of the saved contact the input matched
+  contact?: string;
+}
+
+interface StoredBook {
+  owner: string;
+  key: CryptoKey;
+  iv: Uint8Array;
+  ciphertext: ArrayBuffer;
+}
+
+const DB_NAME = "brinco_address_book";
+const DB_VERSION = 1;
+const STORE = "books";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: "owner" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if opening failed, e.g. in a private window
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const getStore = async (mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+  const db = await openDatabase();
+  return db.transaction(STORE, mode).objectStore(STORE);
+};
+
+const readBook = async (owner: string): Promise<StoredBook | undefined> => {
+  const store = await getStore("readonly");
+  return promisify<StoredBook | undefined>(store.get(owner.toLowerCase()));
+};
+
+const writeBook = async (owner: string, contacts: Contact[]): Promise<void> => {
+  // Reuse the wallet's key; the first save creates one that can never be exported
+  const key =
+    (await readBook(owner))?.key ??
+    (await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(contacts))
+  );
+  const book: StoredBook = { owner: owner.toLowerCase(), key, iv, ciphertext };
+  const store = await getStore("readwrite");
+  await promisify(store.put(book));
+};
+
+/**
+ * Checks a contact before it is saved
+ * @param contact Contact as entered
+ * @param contacts Contacts already saved, to catch duplicate nicknames
+ * @returns Every problem found; empty if the contact is valid
+ */
+export function validateContact(contact: ContactInput, contacts: Contact[]): string[] {
+  const issues: string[] = [];
+  const nickname = contact.nickname.trim();
+  if (!nickname) {
+    issues.push("Nickname is required");
+  } else if (
+    contacts.some((other) => other.id !== contact.id && other.nickname.toLowerCase() === nickname.toLowerCase())
+  ) {
+    issues.push(`A contact called "${nickname}" already exists`);
+  }
+  const address = contact.address.trim();
+  if (!ethers.utils.isAddress(address.toLowerCase()) && !/^[^\s.]+(\.[^\s.]+)*\.eth$/i.test(address)) {
+    issues.push("Address must be a 0x address or an ENS name");
+  }
+  if (contact.preferredChain && !getChain(contact.preferredChain)) {
+    issues.push(`Unknown chain: ${contact.preferredChain}`);
+  }
+  if (contact.country && !/^[A-Za-z]{2}$/.test(contact.country)) {
+    issues.push("Country must be a two-letter code, e.g. MX");
+  }
+  return issues;
+}
+
+/**
+ * Reads and decrypts a wallet's address book
+ * @param owner Wallet address the book belongs to
+ * @returns The contacts, sorted by nickname; empty if none were saved
+ */
+export async function loadAddressBook(owner: string): Promise<Contact[]> {
+  const book = await readBook(owner);
+  if (!book) return [];
+  const plaintext = await crypto.subtle.decrypt({ name: "AES-GCM", iv: book.iv }, book.key, book.ciphertext);
+  const contacts: Contact[] = JSON.parse(new TextDecoder().decode(plaintext));
+  return contacts.sort((a, b) => a.nickname.localeCompare(b.nickname));
+}
+
+/**
+ * Adds a contact, or replaces the one with the same id
+ * @param owner Wallet address the book belongs to
+ * @param contact Contact to save
+ * @returns The updated address book
+ * @throws Error if the contact is invalid
+ */
+export async function saveContact(owner: string, contact: ContactInput): Promise<Contact[]> {
+  const contacts = await loadAddressBook(owner);
+  const issues = validateContact(contact, contacts);
+  if (issues.length > 0) {
+    throw new Error(issues.join(". "));
+  }
+
+  const saved: Contact = {
+    id: contact.id ?? `contact-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    nickname: contact.nickname.trim(),
+    address: contact.address.trim(),
+  };
+  if (contact.preferredChain) saved.preferredChain = contact.preferredChain;
+  if (contact.payoutCurrency?.trim()) saved.payoutCurrency = contact.payoutCurrency.trim().toUpperCase();
+  if (contact.country?.trim()) saved.country = contact.country.trim().toUpperCase();
+
+  const updated = [...contacts.filter((other) => other.id !== saved.id), saved];
+  await writeBook(owner, updated);
+  return updated.sort((a, b) => a.nickname.localeCompare(b.nickname));
+}
+
+/**
+ * Removes a contact
+ * @param owner Wallet address the book belongs to
+ * @param id Contact id
+ * @returns The updated address book
+ */
+export async function deleteContact(owner: string, id: string): Promise<Contact[]> {
+  const contacts = (await loadAddressBook(owner)).filter((contact) => contact.id !== id);
+  await writeBook(owner, contacts);
+  return contacts;
+}
+
+/**
+ * Finds a contact by nickname, ignoring case and surrounding whitespace
+ * @param contacts Address book to search
+ * @param nickname Name the recipient was given as
+ */
+export function findContact(contacts: Contact[], nickname: string): Contact | undefined {
+  const name = nickname.trim().toLowerCase();
+  return contacts.find((contact) => contact.nickname.toLowerCase() === name);
+}
+
+/**
+ * Resolves a recipient given as a saved nickname, an ENS name or an address
+ * @param contacts Address book to look nicknames up in
+ * @param input Recipient as the agent returned it
+ * @returns The recipient's address and the contact it came from, if any
+ * @throws Error if the input is neither a contact nor a resolvable name or address
+ */
+export async function resolveRecipient(contacts: Contact[], input: string): Promise<ResolvedRecipient> {
+  const contact = findContact(contacts, input);
+  const address = await resolveNameOrAddress(contact ? contact.address : input);
+  return contact ? { address, contact: contact.nickname } : { address };
+}
+
+/**
+ * Tells whether nothing has ever been sent to an address from this app
+ * @param address Resolved recipient address
+ */
+export async function isFirstTimeRecipient(address: string): Promise<boolean> {
+  const { total } = await queryTransactions(
+    { types: ["transfer", "remittance"], statuses: ["completed"], recipient: address },
+    0,
+    1
+  );
+  return total === 0;
+}
+
+/**
+ * Shapes the address book for the agent backend, so prompts can name contacts
+ * @param contacts Address book to send
+ */
+export function toAgentContext(contacts: Contact[]): AgentContact[] {
+  return contacts.map((contact) => {
+    const entry: AgentContact = { nickname: contact.nickname, address: contact.address };
+    if (contact.preferredChain) entry.preferred_chain = contact.preferredChain;
+    if (contact.payoutCurrency) entry.payout_currency = contact.payoutCurrency;
+    if (contact.country) entry.country = contact.country;
+    return entry;
+  });
+}
@@ -0,0 +1,130 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+
+// Standing ERC20 allowances the connected wallet has granted to the spenders
+// this app uses, so they can be reviewed and revoked
+
+import { ethers } from "ethers";
+import { COW_PROTOCOL_VAULT_RELAYER_ADDRESS, SupportedChainId } from "@cowprotocol/cow-sdk";
+import { Chain, getChains } from "./chains";
+import { TokenMetadata, getTokensForChain, loadRemoteTokenLists } from "./tokens";
+import { ERC20_ABI, WalletProvider, approveToken, getReadProvider } from "./utils";
+import { DEFAULT_FEE_SPEED, FeeSpeed } from "./fees";
+import { waitForReceipt } from "./rpc";
+
+export interface Spender {
+  address: string;
+  name: string;
+}
+
+export interface AllowanceEntry {
+  chain: string;
+  chainId: number;
+  token: TokenMetadata;
+  spender: Spender;
+  amount: ethers.BigNumber;
+  // Approvals of MaxUint256, which some tokens count down from
+  unlimited: boolean;
+}
+
+// Anything above this was granted as an unlimited approval
+const UNLIMITED_THRESHOLD = ethers.constants.MaxUint256.div(2);
+
+/**
+ * Lists the contracts the app asks users to approve on a chain
+ * @param chain Chain to list spenders for
+ */
+export function getKnownSpenders(chain: Chain): Spender[] {
+  const spenders: Spender[] = [];
+  if (chain.uniswapV2Router) {
+    spenders.push({ address: chain.uniswapV2Router, name: "Uniswap V2 Router" });
+  }
+  if (Object.values(SupportedChainId).includes(chain.chainId)) {
+    spenders.push({
+      address: COW_PROTOCOL_VAULT_RELAYER_ADDRESS[chain.chainId as SupportedChainId],
+      name: "CoW Protocol Vault Relayer",
+    });
+  }
+  return spenders;
+}
+
+const listChainAllowances = async (owner: string, chain: Chain): Promise<AllowanceEntry[]> => {
+  const provider = getReadProvider(chain.key);
+  const spenders = getKnownSpenders(chain);
+  const reads = getTokensForChain(chain.chainId).flatMap((token) => {
+    const contract = new ethers.Contract(token.address, ERC20_ABI, provider);
+    return spenders.map(async (spender): Promise<AllowanceEntry | null> => {
+      const amount: ethers.BigNumber = await contract.allowance(owner, spender.address);
+      if (amount.isZero()) return null;
+      return {
+        chain: chain.key,
+        chainId: chain.chainId,
+        token,
+        spender,
+        amount,
+        unlimited: amount.gt(UNLIMITED_THRESHOLD),
+      };
+    });
+  });
+  const entries = await Promise.all(reads);
+  return entries.filter((entry): entry is AllowanceEntry => entry !== null);
+};
+
+/**
+ * Reads every non-zero allowance from the owner to a known spender, for each
+ * token in the registry on each configured chain. A chain whose RPC fails is
+ * left out rather than failing the whole list.
+ * @param owner Wallet address
+ * @returns Allowances, grouped by chain in configuration order
+ */
+export async function listAllowances(owner: string): Promise<AllowanceEntry[]> {
+  await loadRemoteTokenLists();
+  const perChain = await Promise.all(
+    getChains().map((chain) =>
+      listChainAllowances(owner, chain).catch((error) => {
+        console.error(`Failed to read allowances on ${chain.key}:`, error);
+        return [];
+      })
+    )
+  );
+  return perChain.flat();
+}
+
+/**
+ * Sets an allowance back to zero and waits for it to be mined
+ * @param wallet Wallet that granted the allowance, already on the entry's chain
+ * @param entry Allowance to revoke
+ * @param speed Fee preset
+ * @returns The revocation's transaction hash
+ */
+export async function revokeAllowance(
+  wallet: WalletProvider,
+  entry: AllowanceEntry,
+  speed: FeeSpeed = DEFAULT_FEE_SPEED
+): Promise<string> {
+  const signer = (await wallet.getEthersProvider()).getSigner();
+  const tx = await approveToken(signer, entry.token.address, entry.spender.address, ethers.constants.Zero, speed);
+  await waitForReceipt(entry.chain, tx);
+  return tx.hash;
+}
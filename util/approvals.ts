@@ -0,0 +1,185 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+// How token spending is authorized: exact or unlimited approvals, and EIP-2612
+// permits signed off-chain. Permit2 is not used, since neither swap venue
+// pulls tokens through it.
+
+import { ethers } from "ethers";
+import { getConfig } from "./config";
+
+export type ApprovalMode = "exact" | "unlimited";
+
+export const DEFAULT_APPROVAL_MODE: ApprovalMode = "exact";
+
+// Gas budget for running a permit as a CoW Protocol pre-hook
+const PERMIT_HOOK_GAS_LIMIT = "80000";
+
+// Permits outlive the order they fund by a margin, in case it settles late
+const PERMIT_MARGIN_SECONDS = 10 * 60;
+
+const PERMIT_TYPEHASH = ethers.utils.keccak256(
+  ethers.utils.toUtf8Bytes(
+    "Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)"
+  )
+);
+
+const PERMIT_ABI = [
+  "function name() view returns (string)",
+  "function version() view returns (string)",
+  "function nonces(address owner) view returns (uint256)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+  "function PERMIT_TYPEHASH() view returns (bytes32)",
+  "function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+];
+
+export interface CowHook {
+  target: string;
+  callData: string;
+  gasLimit: string;
+}
+
+const permitDomains = new Map<string, ethers.TypedDataDomain | null>();
+
+/**
+ * Returns the amount to approve for a spend
+ * @param mode Exact or unlimited
+ * @param required Amount about to be spent
+ */
+export const getApprovalAmount = (mode: ApprovalMode, required: ethers.BigNumber): ethers.BigNumber =>
+  mode === "unlimited" ? ethers.constants.MaxUint256 : required;
+
+// Finds the EIP-712 domain whose separator matches the token's. Tokens with a
+// different permit (DAI's, for one) or none at all resolve to null.
+const findPermitDomain = async (
+  provider: ethers.providers.Provider,
+  chainId: number,
+  token: string
+): Promise<ethers.TypedDataDomain | null> => {
+  const key = `${chainId}:${token.toLowerCase()}`;
+  const cached = permitDomains.get(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const contract = new ethers.Contract(token, PERMIT_ABI, provider);
+  let domain: ethers.TypedDataDomain | null = null;
+  try {
+    const [name, separator, typehash] = await Promise.all([
+      contract.name() as Promise<string>,
+      contract.DOMAIN_SEPARATOR() as Promise<string>,
+      (contract.PERMIT_TYPEHASH() as Promise<string>).catch(() => PERMIT_TYPEHASH),
+    ]);
+    const version: string = await contract.version().catch(() => "1");
+    const candidate = { name, version, chainId, verifyingContract: token };
+    if (
+      typehash === PERMIT_TYPEHASH &&
+      ethers.utils._TypedDataEncoder.hashDomain(candidate) === separator
+    ) {
+      domain = candidate;
+    }
+  } catch (error) {
+    // No DOMAIN_SEPARATOR, so no permit
+  }
+  permitDomains.set(key, domain);
+  return domain;
+};
+
+/**
+ * Checks whether a token implements EIP-2612 `permit`
+ * @param provider Provider connected to the token's chain
+ * @param chainId Chain the token lives on
+ * @param token Token address
+ */
+export async function supportsPermit(
+  provider: ethers.providers.Provider,
+  chainId: number,
+  token: string
+): Promise<boolean> {
+  return (await findPermitDomain(provider, chainId, token)) !== null;
+}
+
+/**
+ * Signs an EIP-2612 permit and encodes the `permit` call that redeems it
+ * @param signer Token owner
+ * @param chainId Chain the token lives on
+ * @param token Token address
+ * @param spender Address being allowed to spend
+ * @param value Allowance to grant
+ * @returns Calldata for `token.permit(...)`
+ * @throws Error if the token doesn't support EIP-2612
+ */
+export async function signPermit(
+  signer: ethers.providers.JsonRpcSigner,
+  chainId: number,
+  token: string,
+  spender: string,
+  value: ethers.BigNumber
+): Promise<string> {
+  const domain = await findPermitDomain(signer.provider, chainId, token);
+  if (!domain) {
+    throw new Error(`Token ${token} does not support EIP-2612 permits`);
+  }
+
+  const owner = await signer.getAddress();
+  const contract = new ethers.Contract(token, PERMIT_ABI, signer.provider);
+  const nonce: ethers.BigNumber = await contract.nonces(owner);
+  const deadline =
+    Math.floor(Date.now() / 1000) + getConfig().aggregators.cow.orderValiditySeconds + PERMIT_MARGIN_SECONDS;
+
+  const signature = await signer._signTypedData(
+    domain,
+    {
+      Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    },
+    { owner, spender, value, nonce, deadline }
+  );
+  const { v, r, s } = ethers.utils.splitSignature(signature);
+  return contract.interface.encodeFunctionData("permit", [owner, spender, value, deadline, v, r, s]);
+}
+
+/**
+ * Signs a permit and wraps it as a CoW Protocol pre-hook, so the settlement
+ * grants the allowance itself and no approval transaction is needed
+ * @param signer Token owner
+ * @param chainId Chain the token lives on
+ * @param token Token being sold
+ * @param spender CoW Protocol vault relayer
+ * @param value Allowance to grant
+ */
+export async function signPermitHook(
+  signer: ethers.providers.JsonRpcSigner,
+  chainId: number,
+  token: string,
+  spender: string,
+  value: ethers.BigNumber
+): Promise<CowHook> {
+  const callData = await signPermit(signer, chainId, token, spender, value);
+  return { target: token, callData, gasLimit: PERMIT_HOOK_GAS_LIMIT };
+}
@@ -0,0 +1,142 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+// Atomic call batching for wallets and smart accounts that implement EIP-5792
+// (`wallet_sendCalls`). Both the 1.0 and 2.0 revisions of the spec are handled.
+
+import { ethers } from "ethers";
+
+export interface BatchCall {
+  to: string;
+  data: string;
+  value?: string;
+}
+
+export interface BatchStatus {
+  state: "pending" | "confirmed" | "failed";
+  // One per transaction the wallet sent; a single one for most atomic batches
+  transactionHashes: string[];
+}
+
+interface CallsStatusResponse {
+  status: string | number;
+  receipts?: { transactionHash: string; status?: string }[];
+}
+
+const capabilityCache = new Map<string, boolean>();
+
+const toHex = (value: ethers.BigNumberish) => ethers.BigNumber.from(value).toHexString();
+
+/**
+ * Checks whether a wallet can execute several calls atomically on a chain.
+ * Wallets that don't know `wallet_getCapabilities` are treated as unsupported.
+ * @param provider Provider backed by the wallet
+ * @param address Account that would send the batch
+ * @param chainId Chain the batch would run on
+ */
+export async function supportsAtomicBatch(
+  provider: ethers.providers.JsonRpcProvider,
+  address: string,
+  chainId: number
+): Promise<boolean> {
+  const key = `${address.toLowerCase()}:${chainId}`;
+  const cached = capabilityCache.get(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let supported = false;
+  try {
+    const capabilities = await provider.send("wallet_getCapabilities", [address]);
+    const chain = capabilities?.[ethers.utils.hexValue(chainId)];
+    supported =
+      chain?.atomicBatch?.supported === true ||
+      chain?.atomic?.status === "supported" ||
+      chain?.atomic?.status === "ready";
+  } catch {
+    // The wallet does not implement EIP-5792
+  }
+  capabilityCache.set(key, supported);
+  return supported;
+}
+
+/**
+ * Sends calls as one atomic batch with `wallet_sendCalls`
+ * @param provider Provider backed by the wallet
+ * @param address Account sending the batch
+ * @param chainId Chain to run the batch on
+ * @param calls Calls to execute, in order
+ * @returns The batch identifier used to query its status
+ */
+export async function sendCalls(
+  provider: ethers.providers.JsonRpcProvider,
+  address: string,
+  chainId: number,
+  calls: BatchCall[]
+): Promise<string> {
+  const result = await provider.send("wallet_sendCalls", [
+    {
+      version: "2.0.0",
+      chainId: ethers.utils.hexValue(chainId),
+      from: address,
+      atomicRequired: true,
+      calls: calls.map((call) => ({
+        to: call.to,
+        data: call.data,
+        value: toHex(call.value ?? 0),
+      })),
+    },
+  ]);
+  // 1.0 wallets return the identifier itself, 2.0 wallets wrap it
+  const id = typeof result === "string" ? result : result?.id;
+  if (typeof id !== "string") {
+    throw new Error("Wallet did not return a batch identifier");
+  }
+  return id;
+}
+
+/**
+ * Reads the status of a batch sent with {@link sendCalls}
+ * @param provider Provider backed by the wallet that sent the batch
+ * @param batchId Identifier returned by `wallet_sendCalls`
+ */
+export async function getCallsStatus(
+  provider: ethers.providers.JsonRpcProvider,
+  batchId: string
+): Promise<BatchStatus> {
+  const response: CallsStatusResponse = await provider.send("wallet_getCallsStatus", [batchId]);
+  const receipts = response.receipts ?? [];
+  const transactionHashes = receipts.map((receipt) => receipt.transactionHash);
+
+  // 1.0 reports PENDING or CONFIRMED; 2.0 reports 1xx pending, 200 confirmed,
+  // and 4xx-6xx for batches that failed or only partly went through
+  const status = response.status;
+  if (status === "PENDING" || (typeof status === "number" && status < 200)) {
+    return { state: "pending", transactionHashes };
+  }
+  const reverted = receipts.some((receipt) => receipt.status !== undefined && Number(receipt.status) !== 1);
+  if ((status === "CONFIRMED" || status === 200) && !reverted) {
+    return { state: "confirmed", transactionHashes };
+  }
+  return { state: "failed", transactionHashes };
+}
@@ -0,0 +1,112 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+
+// Lookups into the chain registry held in the runtime configuration
+
+import { ChainSettings, getConfig } from "./config";
+
+export interface Chain extends ChainSettings {
+  // Key the chain is configured under and referred to by the agent, e.g. "base"
+  key: string;
+}
+
+/**
+ * Lists every configured chain
+ */
+export function getChains(): Chain[] {
+  return Object.entries(getConfig().chains).map(([key, settings]) => ({ ...settings, key }));
+}
+
+/**
+ * Looks up a chain by the name the agent uses for it
+ * @param chain Chain key, e.g. "sepolia"
+ * @returns The chain, or undefined if it is not configured
+ */
+export function getChain(chain: string): Chain | undefined {
+  const settings = getConfig().chains[chain];
+  return settings ? { ...settings, key: chain } : undefined;
+}
+
+/**
+ * Looks up a chain by the name the agent uses for it
+ * @param chain Chain key, e.g. "sepolia"
+ * @returns The chain
+ * @throws Error if the chain is not configured
+ */
+export function requireChain(chain: string): Chain {
+  const settings = getChain(chain);
+  if (!settings) {
+    throw new Error(`Unsupported chain: ${chain}`);
+  }
+  return settings;
+}
+
+/**
+ * Looks up a chain by id
+ * @param chainId EIP-155 chain id
+ * @returns The chain, or undefined if it is not configured
+ */
+export function getChainById(chainId: number): Chain | undefined {
+  return getChains().find((chain) => chain.chainId === chainId);
+}
+
+/**
+ * Looks up the chain id of a configured chain
+ * @param chain Chain key, e.g. "sepolia"
+ * @returns The chain id, or undefined if the chain is not configured
+ */
+export const getChainId = (chain: string): number | undefined =>
+  getConfig().chains[chain]?.chainId;
+
+/**
+ * Builds the block explorer link for a transaction
+ * @param chain Chain key the transaction was sent on
+ * @param hash Transaction hash
+ * @returns The explorer URL, or undefined if the chain is not configured
+ */
+export const getExplorerTxUrl = (chain: string, hash: string): string | undefined =>
+  getConfig().chains[chain]?.explorer.txUrl.replace("{hash}", hash);
+
+/**
+ * Builds the block explorer link for an account or contract
+ * @param chain Chain key the address lives on
+ * @param address Account or contract address
+ * @returns The explorer URL, or undefined if the chain is not configured
+ */
+export const getExplorerAddressUrl = (chain: string, address: string): string | undefined =>
+  getConfig().chains[chain]?.explorer.addressUrl.replace("{address}", address);
+
+/**
+ * Finds the MoonPay currency code that delivers a token on a chain
+ * @param chain Chain key the token lives on
+ * @param token Token address in any case
+ * @returns The MoonPay currency code, or undefined if MoonPay doesn't sell it there
+ */
+export function getMoonPayCurrencyCode(chain: string, token: string): string | undefined {
+  const currencies = getConfig().chains[chain]?.moonpayCurrencies ?? {};
+  const match = Object.keys(currencies).find(
+    (address) => address.toLowerCase() === token.toLowerCase()
+  );
+  return match ? currencies[match] : undefined;
+}
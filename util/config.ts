@@ -0,0 +1,600 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+// Runtime configuration. Values are layered as built-in defaults, then the
+// optional JSON file at NEXT_PUBLIC_CONFIG_URL, then NEXT_PUBLIC_* env vars.
+
+export type AppEnvironment = "development" | "staging" | "production";
+
+export type SwapVenue = "uniswap-v2" | "uniswap-v3" | "cow";
+
+// Everything the app knows about a chain. Supporting a new chain only takes a
+// new entry here (or in the JSON config) plus its tokens in the token list.
+export interface ChainSettings {
+  chainId: number;
+  // Display name, e.g. "Ethereum"
+  name: string;
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  explorer: {
+    // URL templates with a {hash} or {address} placeholder
+    txUrl: string;
+    addressUrl: string;
+  };
+  rpcUrls: string[];
+  // Wrapped native token used for routing swaps (WETH, or WPOL on Polygon)
+  weth: string;
+  // Tokens Uniswap V2 routes may hop through besides the wrapped native token
+  baseTokens: string[];
+  testnet: boolean;
+  // Venues asked for a quote when swapping on this chain; the best one is used
+  swapVenues: SwapVenue[];
+  uniswapV2Router?: string;
+  uniswapV2Factory?: string;
+  // QuoterV2 and SwapRouter02
+  uniswapV3Quoter?: string;
+  uniswapV3Router?: string;
+  // Multicall3 deployment, when it is not at the canonical address
+  multicall3?: string;
+  // MoonPay currency codes keyed by the token address they deliver
+  moonpayCurrencies?: Record<string, string>;
+}
+
+export interface AppConfig {
+  environment: AppEnvironment;
+  backendUrl: string;
+  moonpay: {
+    baseUrl: string;
+    apiKey: string;
+  };
+  chains: Record<string, ChainSettings>;
+  aggregators: {
+    cow: {
+      env: "prod" | "staging";
+      // Order book API base URLs keyed by chain id, overriding the SDK defaults
+      baseUrls?: Record<string, string>;
+      // How long a placed order stays valid before it expires unfilled
+      orderValiditySeconds: number;
+    };
+  };
+  // Extra Uniswap-style token lists loaded on top of the bundled default list
+  tokenListUrls: string[];
+  swaps: {
+    // Largest price impact a swap may have, as a fraction (0.05 = 5%)
+    maxPriceImpact: number;
+  };
+  recipients: {
+    // Addresses transfers are never sent to, e.g. known scam or sanctioned addresses
+    denylist: string[];
+  };
+  // How reads are spread over each chain's rpcUrls
+  rpc: {
+    // Endpoints that must return the same result for state reads like eth_call,
+    // capped at the number of endpoints a chain has
+    quorum: number;
+    // Per-request timeout
+    timeoutMs: number;
+    // Times a rate-limited request is retried on the same endpoint before failing over
+    maxRetries: number;
+    // How often endpoints are probed and re-ranked by latency
+    healthCheckIntervalMs: number;
+  };
+}
+
+type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends string[]
+    ? string[]
+    : T[K] extends object
+    ? DeepPartial<T[K]>
+    : T[K];
+};
+
+export type ConfigOverrides = DeepPartial<AppConfig>;
+
+const MOONPAY_PLACEHOLDER_KEY = "pk_live_YOUR_ACTUAL_MOONPAY_KEY";
+
+const DEFAULT_CONFIG: AppConfig = {
+  environment: "development",
+  backendUrl: "http://localhost:8000/",
+  moonpay: {
+    baseUrl: "https://buy.moonpay.com",
+    apiKey: MOONPAY_PLACEHOLDER_KEY,
+  },
+  chains: {
+    mainnet: {
+      chainId: 1,
+      name: "Ethereum",
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+      explorer: {
+        txUrl: "https://etherscan.io/tx/{hash}",
+        addressUrl: "https://etherscan.io/address/{address}",
+      },
+      rpcUrls: [
+        "https://eth.llamarpc.com",
+        "https://ethereum.publicnode.com",
+        "https://1rpc.io/eth",
+        "https://rpc.ankr.com/eth",
+      ],
+      weth: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+      baseTokens: ["0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", "0x6B175474E89094C44Da98b954EedeAC495271d0F"],
+      testnet: false,
+      swapVenues: ["uniswap-v2", "uniswap-v3", "cow"],
+      uniswapV2Router: "0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D",
+      uniswapV2Factory: "0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f",
+      uniswapV3Quoter: "0x61fFE014bA17989E743c5F6cB21bF9697530B21e",
+      uniswapV3Router: "0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45",
+      moonpayCurrencies: {
+        "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48": "usdc",
+      },
+    },
+    sepolia: {
+      chainId: 11155111,
+      name: "Sepolia",
+      nativeCurrency: { name: "Sepolia Ether", symbol: "ETH", decimals: 18 },
+      explorer: {
+        txUrl: "https://sepolia.etherscan.io/tx/{hash}",
+        addressUrl: "https://sepolia.etherscan.io/address/{address}",
+      },
+      rpcUrls: [
+        "https://ethereum-sepolia-rpc.publicnode.com",
+        "https://rpc.sepolia.org",
+      ],
+      weth: "0x7b79995e5f793A07Bc00c21412e50Ecae098E7f9",
+      baseTokens: ["0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238", "0xB4F1737Af37711e9A5890D9510c9bB60e170CB0D"],
+      testnet: true,
+      swapVenues: ["uniswap-v2", "uniswap-v3", "cow"],
+      uniswapV2Router: "0xC532a74256D3Db42D0Bf7a0400fEFDbad7694008",
+      uniswapV2Factory: "0x7E0987E5b3a30e3f2828572Bb659A548460a3003",
+      uniswapV3Quoter: "0xEd1f6473345F45b75F8179591dd5bA1888cf2FB3",
+      uniswapV3Router: "0x3bFA4769FB09eefC5a80d6E87c3B9C650f7Ae48E",
+      moonpayCurrencies: {
+        "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238": "usdc_ethereum_sepolia",
+      },
+    },
+    base: {
+      chainId: 8453,
+      name: "Base",
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+      explorer: {
+        txUrl: "https://basescan.org/tx/{hash}",
+        addressUrl: "https://basescan.org/address/{address}",
+      },
+      rpcUrls: ["https://mainnet.base.org"],
+      weth: "0x4200000000000000000000000000000000000006",
+      baseTokens: ["0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb"],
+      testnet: false,
+      swapVenues: ["uniswap-v2", "uniswap-v3"],
+      uniswapV2Router: "0x4752ba5DBc23f44D87826276BF6Fd6b1C372aD24",
+      uniswapV2Factory: "0x8909Dc15e40173Ff4699343b6eB8132c65e18eC6",
+      uniswapV3Quoter: "0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a",
+      uniswapV3Router: "0x2626664c2603336E57B271c5C0b26F421741e481",
+      moonpayCurrencies: {
+        "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913": "usdc_base",
+      },
+    },
+    arbitrum: {
+      chainId: 42161,
+      name: "Arbitrum One",
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+      explorer: {
+        txUrl: "https://arbiscan.io/tx/{hash}",
+        addressUrl: "https://arbiscan.io/address/{address}",
+      },
+      rpcUrls: ["https://arb1.arbitrum.io/rpc", "https://arbitrum-one-rpc.publicnode.com"],
+      weth: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+      baseTokens: ["0xaf88d065e77c8cC2239327C5EDb3A432268e5831", "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1"],
+      testnet: false,
+      swapVenues: ["uniswap-v2", "uniswap-v3", "cow"],
+      uniswapV2Router: "0x4752ba5DBc23f44D87826276BF6Fd6b1C372aD24",
+      uniswapV2Factory: "0xf1D7CC64Fb4452F05c498126312eBE29f30Fbcf9",
+      uniswapV3Quoter: "0x61fFE014bA17989E743c5F6cB21bF9697530B21e",
+      uniswapV3Router: "0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45",
+      moonpayCurrencies: {
+        "0xaf88d065e77c8cC2239327C5EDb3A432268e5831": "usdc_arbitrum",
+      },
+    },
+    optimism: {
+      chainId: 10,
+      name: "OP Mainnet",
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+      explorer: {
+        txUrl: "https://optimistic.etherscan.io/tx/{hash}",
+        addressUrl: "https://optimistic.etherscan.io/address/{address}",
+      },
+      rpcUrls: ["https://mainnet.optimism.io", "https://optimism-rpc.publicnode.com"],
+      weth: "0x4200000000000000000000000000000000000006",
+      baseTokens: ["0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85", "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1"],
+      testnet: false,
+      swapVenues: ["uniswap-v2", "uniswap-v3"],
+      uniswapV2Router: "0x4A7b5Da61326A6379179b40d00F57E5bbDC962c2",
+      uniswapV2Factory: "0x0c3c1c532F1e39EdF36BE9Fe0bE1410313E074Bf",
+      uniswapV3Quoter: "0x61fFE014bA17989E743c5F6cB21bF9697530B21e",
+      uniswapV3Router: "0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45",
+      moonpayCurrencies: {
+        "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85": "usdc_optimism",
+      },
+    },
+    polygon: {
+      chainId: 137,
+      name: "Polygon",
+      nativeCurrency: { name: "POL", symbol: "POL", decimals: 18 },
+      explorer: {
+        txUrl: "https://polygonscan.com/tx/{hash}",
+        addressUrl: "https://polygonscan.com/address/{address}",
+      },
+      rpcUrls: ["https://polygon-rpc.com", "https://polygon-bor-rpc.publicnode.com"],
+      weth: "0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270",
+      baseTokens: ["0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359", "0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063"],
+      testnet: false,
+      swapVenues: ["uniswap-v2", "uniswap-v3"],
+      uniswapV2Router: "0xedf6066a2b290C185783862C7F4776A2C8077AD1",
+      uniswapV2Factory: "0x9e5A52f57b3038F1B8EeE45F28b3C1967e22799C",
+      uniswapV3Quoter: "0x61fFE014bA17989E743c5F6cB21bF9697530B21e",
+      uniswapV3Router: "0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45",
+      moonpayCurrencies: {
+        "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359": "usdc_polygon",
+      },
+    },
+  },
+  aggregators: {
+    cow: {
+      env: "prod",
+      orderValiditySeconds: 30 * 60,
+    },
+  },
+  tokenListUrls: [],
+  swaps: {
+    maxPriceImpact: 0.05,
+  },
+  recipients: {
+    denylist: [],
+  },
+  rpc: {
+    quorum: 1,
+    timeoutMs: 10_000,
+    maxRetries: 3,
+    healthCheckIntervalMs: 60_000,
+  },
+};
+
+/**
+ * Thrown when the merged configuration does not pass validation
+ */
+export class ConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid configuration:\n- ${issues.join("\n- ")}`);
+    this.name = "ConfigError";
+    this.issues = issues;
+  }
+}
+
+const splitList = (value: string | undefined): string[] | undefined =>
+  value
+    ? value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean)
+    : undefined;
+
+// Next.js only inlines NEXT_PUBLIC_* variables that are referenced literally
+const readEnvOverrides = (): ConfigOverrides => {
+  const overrides: ConfigOverrides = {};
+  const chains: Record<string, Partial<ChainSettings>> = {};
+
+  const environment = process.env.NEXT_PUBLIC_APP_ENV;
+  if (environment) overrides.environment = environment as AppEnvironment;
+  const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL;
+  if (backendUrl) overrides.backendUrl = backendUrl;
+
+  const moonpayApiKey = process.env.NEXT_PUBLIC_MOONPAY_API_KEY;
+  const moonpayBaseUrl = process.env.NEXT_PUBLIC_MOONPAY_BASE_URL;
+  if (moonpayApiKey || moonpayBaseUrl) {
+    overrides.moonpay = {};
+    if (moonpayApiKey) overrides.moonpay.apiKey = moonpayApiKey;
+    if (moonpayBaseUrl) overrides.moonpay.baseUrl = moonpayBaseUrl;
+  }
+
+  const rpcOverrides: Record<string, string[] | undefined> = {
+    mainnet: splitList(process.env.NEXT_PUBLIC_MAINNET_RPC_URLS),
+    sepolia: splitList(process.env.NEXT_PUBLIC_SEPOLIA_RPC_URLS),
+    base: splitList(process.env.NEXT_PUBLIC_BASE_RPC_URLS),
+    arbitrum: splitList(process.env.NEXT_PUBLIC_ARBITRUM_RPC_URLS),
+    optimism: splitList(process.env.NEXT_PUBLIC_OPTIMISM_RPC_URLS),
+    polygon: splitList(process.env.NEXT_PUBLIC_POLYGON_RPC_URLS),
+  };
+  for (const [chain, rpcUrls] of Object.entries(rpcOverrides)) {
+    if (rpcUrls) chains[chain] = { rpcUrls };
+  }
+  if (Object.keys(chains).length > 0) overrides.chains = chains;
+
+  const cowEnv = process.env.NEXT_PUBLIC_COW_ENV;
+  const cowOrderValidity = process.env.NEXT_PUBLIC_COW_ORDER_VALIDITY_SECONDS;
+  if (cowEnv || cowOrderValidity) {
+    overrides.aggregators = { cow: {} };
+    if (cowEnv) overrides.aggregators.cow!.env = cowEnv as "prod" | "staging";
+    if (cowOrderValidity) overrides.aggregators.cow!.orderValiditySeconds = Number(cowOrderValidity);
+  }
+
+  const tokenListUrls = splitList(process.env.NEXT_PUBLIC_TOKEN_LIST_URLS);
+  if (tokenListUrls) overrides.tokenListUrls = tokenListUrls;
+
+  const maxPriceImpact = process.env.NEXT_PUBLIC_MAX_PRICE_IMPACT;
+  if (maxPriceImpact) overrides.swaps = { maxPriceImpact: Number(maxPriceImpact) };
+
+  const denylist = splitList(process.env.NEXT_PUBLIC_RECIPIENT_DENYLIST);
+  if (denylist) overrides.recipients = { denylist };
+
+  const rpcQuorum = process.env.NEXT_PUBLIC_RPC_QUORUM;
+  const rpcTimeout = process.env.NEXT_PUBLIC_RPC_TIMEOUT_MS;
+  if (rpcQuorum || rpcTimeout) {
+    overrides.rpc = {};
+    if (rpcQuorum) overrides.rpc.quorum = Number(rpcQuorum);
+    if (rpcTimeout) overrides.rpc.timeoutMs = Number(rpcTimeout);
+  }
+
+  return overrides;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Arrays replace rather than concatenate so an override can drop default RPCs
+const merge = <T>(base: T, override: unknown): T => {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return (override === undefined ? base : override) as T;
+  }
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    result[key] = merge(result[key], value);
+  }
+  return result as T;
+};
+
+const isUrl = (value: unknown): boolean => {
+  if (typeof value !== "string") return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+const isAddress = (value: unknown): boolean =>
+  typeof value === "string" && /^0x[0-9a-fA-F]{40}$/.test(value);
+
+/**
+ * Checks a merged configuration and collects every problem found
+ * @param config Candidate configuration
+ * @returns A list of human-readable issues, empty when the config is valid
+ */
+export function validateConfig(config: AppConfig): string[] {
+  const issues: string[] = [];
+
+  if (!["development", "staging", "production"].includes(config.environment)) {
+    issues.push(
+      `environment must be "development", "staging" or "production", got "${config.environment}"`
+    );
+  }
+
+  if (!isUrl(config.backendUrl)) {
+    issues.push(`backendUrl must be an http(s) URL, got "${config.backendUrl}"`);
+  } else if (!config.backendUrl.endsWith("/")) {
+    issues.push(`backendUrl must end with "/", got "${config.backendUrl}"`);
+  }
+
+  if (!isUrl(config.moonpay.baseUrl)) {
+    issues.push(`moonpay.baseUrl must be an http(s) URL, got "${config.moonpay.baseUrl}"`);
+  }
+  if (!config.moonpay.apiKey) {
+    issues.push("moonpay.apiKey is missing");
+  }
+
+  if (config.environment !== "development") {
+    if (config.moonpay.apiKey === MOONPAY_PLACEHOLDER_KEY) {
+      issues.push(`moonpay.apiKey must be set outside development (NEXT_PUBLIC_MOONPAY_API_KEY)`);
+    }
+    if (isUrl(config.backendUrl) && !config.backendUrl.startsWith("https://")) {
+      issues.push(`backendUrl must use https outside development, got "${config.backendUrl}"`);
+    }
+  }
+
+  if (Object.keys(config.chains).length === 0) {
+    issues.push("chains must configure at least one chain");
+  }
+  for (const [name, chain] of Object.entries(config.chains)) {
+    if (!Number.isInteger(chain.chainId) || chain.chainId <= 0) {
+      issues.push(`chains.${name}.chainId must be a positive integer`);
+    }
+    if (!chain.name) {
+      issues.push(`chains.${name}.name is missing`);
+    }
+    if (
+      !chain.nativeCurrency?.symbol ||
+      !Number.isInteger(chain.nativeCurrency.decimals)
+    ) {
+      issues.push(`chains.${name}.nativeCurrency must have a symbol and integer decimals`);
+    }
+    if (!isUrl(chain.explorer?.txUrl) || !chain.explorer.txUrl.includes("{hash}")) {
+      issues.push(`chains.${name}.explorer.txUrl must be an http(s) URL containing {hash}`);
+    }
+    if (!isUrl(chain.explorer?.addressUrl) || !chain.explorer.addressUrl.includes("{address}")) {
+      issues.push(`chains.${name}.explorer.addressUrl must be an http(s) URL containing {address}`);
+    }
+    if (!Array.isArray(chain.rpcUrls) || chain.rpcUrls.length === 0) {
+      issues.push(`chains.${name}.rpcUrls must list at least one RPC endpoint`);
+    } else {
+      chain.rpcUrls
+        .filter((url) => !isUrl(url))
+        .forEach((url) => issues.push(`chains.${name}.rpcUrls contains an invalid URL "${url}"`));
+    }
+    for (const key of ["weth", "uniswapV2Router", "uniswapV2Factory", "uniswapV3Quoter", "uniswapV3Router", "multicall3"] as const) {
+      if ((key === "weth" || chain[key] !== undefined) && !isAddress(chain[key])) {
+        issues.push(`chains.${name}.${key} must be an address`);
+      }
+    }
+    if (!Array.isArray(chain.baseTokens)) {
+      issues.push(`chains.${name}.baseTokens must be a list of token addresses`);
+    } else {
+      chain.baseTokens
+        .filter((token) => !isAddress(token))
+        .forEach((token) => issues.push(`chains.${name}.baseTokens has an invalid token address "${token}"`));
+    }
+    if (!Array.isArray(chain.swapVenues)) {
+      issues.push(`chains.${name}.swapVenues must be a list of venues`);
+    } else {
+      for (const venue of chain.swapVenues) {
+        if (!["uniswap-v2", "uniswap-v3", "cow"].includes(venue)) {
+          issues.push(`chains.${name}.swapVenues contains "${venue}", expected "uniswap-v2", "uniswap-v3" or "cow"`);
+        } else if (venue === "uniswap-v2" && (!chain.uniswapV2Router || !chain.uniswapV2Factory)) {
+          issues.push(`chains.${name} swaps on Uniswap V2 but has no uniswapV2Router/uniswapV2Factory`);
+        } else if (venue === "uniswap-v3" && (!chain.uniswapV3Quoter || !chain.uniswapV3Router)) {
+          issues.push(`chains.${name} swaps on Uniswap V3 but has no uniswapV3Quoter/uniswapV3Router`);
+        }
+      }
+    }
+    Object.keys(chain.moonpayCurrencies ?? {})
+      .filter((token) => !isAddress(token))
+      .forEach((token) => issues.push(`chains.${name}.moonpayCurrencies has an invalid token address "${token}"`));
+  }
+
+  if (!["prod", "staging"].includes(config.aggregators.cow.env)) {
+    issues.push(`aggregators.cow.env must be "prod" or "staging"`);
+  }
+  const { orderValiditySeconds } = config.aggregators.cow;
+  if (!Number.isInteger(orderValiditySeconds) || orderValiditySeconds < 60) {
+    issues.push(`aggregators.cow.orderValiditySeconds must be a whole number of seconds, at least 60`);
+  }
+  for (const [chainId, url] of Object.entries(config.aggregators.cow.baseUrls ?? {})) {
+    if (!isUrl(url)) {
+      issues.push(`aggregators.cow.baseUrls.${chainId} must be an http(s) URL`);
+    }
+  }
+
+  if (!Array.isArray(config.tokenListUrls)) {
+    issues.push("tokenListUrls must be a list of URLs");
+  } else {
+    config.tokenListUrls
+      .filter((url) => !isUrl(url))
+      .forEach((url) => issues.push(`tokenListUrls contains an invalid URL "${url}"`));
+  }
+
+  const { maxPriceImpact } = config.swaps;
+  if (typeof maxPriceImpact !== "number" || !(maxPriceImpact > 0 && maxPriceImpact < 1)) {
+    issues.push(`swaps.maxPriceImpact must be a fraction between 0 and 1, got ${maxPriceImpact}`);
+  }
+
+  if (!Array.isArray(config.recipients.denylist)) {
+    issues.push("recipients.denylist must be a list of addresses");
+  } else {
+    config.recipients.denylist
+      .filter((address) => !isAddress(address))
+      .forEach((address) => issues.push(`recipients.denylist has an invalid address "${address}"`));
+  }
+
+  const { quorum, timeoutMs, maxRetries, healthCheckIntervalMs } = config.rpc;
+  if (!Number.isInteger(quorum) || quorum < 1) {
+    issues.push(`rpc.quorum must be a whole number, at least 1`);
+  }
+  if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+    issues.push(`rpc.timeoutMs must be a positive whole number of milliseconds`);
+  }
+  if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+    issues.push(`rpc.maxRetries must be a whole number, at least 0`);
+  }
+  if (!Number.isInteger(healthCheckIntervalMs) || healthCheckIntervalMs <= 0) {
+    issues.push(`rpc.healthCheckIntervalMs must be a positive whole number of milliseconds`);
+  }
+
+  return issues;
+}
+
+/**
+ * Builds and validates a configuration from the defaults and the given layers
+ * @param layers Overrides applied in order, later layers winning
+ * @returns The validated configuration
+ * @throws ConfigError listing every invalid setting
+ */
+export function resolveConfig(...layers: unknown[]): AppConfig {
+  const config = layers.reduce<AppConfig>(
+    (merged, layer) => merge(merged, layer),
+    DEFAULT_CONFIG
+  );
+  const issues = validateConfig(config);
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+  return config;
+}
+
+let currentConfig: AppConfig | null = null;
+
+/**
+ * Returns the active configuration, resolving it from env vars on first use
+ * @throws ConfigError if the configuration is invalid
+ */
+export function getConfig(): AppConfig {
+  if (!currentConfig) {
+    currentConfig = resolveConfig(readEnvOverrides());
+  }
+  return currentConfig;
+}
+
+/**
+ * Whether a JSON config file must be fetched before the app can start
+ */
+export const hasRemoteConfig = (): boolean => Boolean(process.env.NEXT_PUBLIC_CONFIG_URL);
+
+/**
+ * Loads the optional JSON config file and activates the merged configuration
+ * @returns The validated configuration
+ * @throws ConfigError if the file cannot be loaded or the result is invalid
+ */
+export async function loadConfig(): Promise<AppConfig> {
+  const configUrl = process.env.NEXT_PUBLIC_CONFIG_URL;
+  let fileConfig: unknown = {};
+
+  if (configUrl) {
+    try {
+      const response = await fetch(configUrl, { cache: "no-store" });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      fileConfig = await response.json();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "Unknown error";
+      throw new ConfigError([`could not load config file ${configUrl}: ${reason}`]);
+    }
+    if (!isPlainObject(fileConfig)) {
+      throw new ConfigError([`config file ${configUrl} must contain a JSON object`]);
+    }
+  }
+
+  currentConfig = resolveConfig(fileConfig, readEnvOverrides());
+  return currentConfig;
+}
@@ -0,0 +1,683 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+// Headless execution of parsed intents. Nothing in here touches React state:
+// callers subscribe to lifecycle events and render them however they like.
+
+import { ethers } from "ethers";
+import { OrderStatus } from "@cowprotocol/cow-sdk";
+import {
+  WalletProvider,
+  getTokenBalance,
+  processBuyRequest,
+  sendTransaction,
+} from "./utils";
+import {
+  BuyIntent,
+  SwapIntent,
+  TransactionFlowStep,
+  TransferIntent,
+  UnwrapIntent,
+  WrapIntent,
+} from "./intents";
+import { getChainById, requireChain } from "./chains";
+import { SwapVenue } from "./config";
+import { resolveToken } from "./tokens";
+import { getBestQuote, getVenueAdapter } from "./quotes";
+import { resolveSlippage } from "./slippage";
+import { BatchStatus, getCallsStatus, sendCalls, supportsAtomicBatch } from "./batch";
+import {
+  SimulationError,
+  simulateSequence,
+  simulateTransaction,
+  supportsSequenceSimulation,
+} from "./simulation";
+import { DEFAULT_FEE_SPEED, FeeSpeed, getTransactionOverrides } from "./fees";
+import { ApprovalMode } from "./approvals";
+import { CowOrderState, watchOrder } from "./orders";
+import { getRpcProvider, waitForReceipt } from "./rpc";
+import { wrapNative } from "./wrap";
+
+export type ExecutableIntent = TransferIntent | SwapIntent | WrapIntent | UnwrapIntent | BuyIntent;
+
+export type ExecutionEvent =
+  | {
+      // The transaction or order has been handed to the network
+      type: "submitted";
+      transactionHash?: string;
+      orderId?: string;
+      // For orders: the quoted buy amount before slippage, and when the order expires
+      quotedBuyAmount?: string;
+      validTo?: number;
+    }
+  | {
+      // Part of an order has been filled and the rest is still open
+      type: "progress";
+      orderId: string;
+      orderState: CowOrderState;
+    }
+  | {
+      type: "confirmed";
+      transactionHash?: string;
+      orderId?: string;
+      orderState?: CowOrderState;
+      blockNumber?: number;
+      moonpayUrl?: string;
+    }
+  | {
+      // Submitted, but we could not observe the outcome
+      type: "unconfirmed";
+      transactionHash?: string;
+      orderId?: string;
+      error: string;
+    }
+  | {
+      type: "failed";
+      error: string;
+      transactionHash?: string;
+      orderId?: string;
+      orderStatus?: OrderStatus;
+      orderState?: CowOrderState;
+    }
+  | {
+      // The user declined the request in their wallet
+      type: "rejected";
+      error: string;
+    };
+
+export type ExecutionListener = (event: ExecutionEvent) => void;
+
+// Choices the user made when reviewing the transaction
+export interface ExecutionOptions {
+  speed?: FeeSpeed;
+  approval?: ApprovalMode;
+  // Venue picked from the swap quotes; the best one is quoted again when unset
+  venue?: SwapVenue;
+  // Slippage tolerance as a fraction; the auto tolerance when unset
+  slippage?: number;
+}
+
+export interface TokenBalance {
+  address: string;
+  symbol: string;
+  balance: string;
+  decimals: number;
+}
+
+export type StepResult =
+  | { success: true; type: "balance_check"; balance: TokenBalance }
+  | { success: true; type: "no_signature_required" }
+  | {
+      success: true;
+      type: "transaction";
+      hash: string;
+      pending?: boolean;
+      note?: string;
+    }
+  | { success: false; error: string; userRejected?: boolean };
+
+export type BatchResult =
+  | { success: true; batchId: string }
+  | { success: false; error: string; userRejected?: boolean };
+
+export type TransactionStatus =
+  | { found: false; status?: "not_found"; error?: string }
+  | { found: true; mined: false; status: "pending" }
+  | {
+      found: true;
+      mined: true;
+      blockNumber: number | undefined;
+      successful?: boolean;
+      receipt?: ethers.providers.TransactionReceipt;
+    };
+
+const RECEIPT_TIMEOUT_MS = 60000;
+
+/**
+ * Checks whether an error was caused by the user declining a wallet prompt
+ * @param error Error thrown by the wallet or ethers
+ * @returns True if the user rejected the request
+ */
+export function isUserRejection(error: unknown): boolean {
+  const err = error as { code?: unknown; message?: unknown } | null;
+  if (err?.code === 4001 || err?.code === "ACTION_REJECTED") {
+    return true;
+  }
+  const message = typeof err?.message === "string" ? err.message : "";
+  return (
+    message.includes("user rejected") ||
+    message.includes("User denied") ||
+    message.includes("User rejected")
+  );
+}
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : "Unknown error";
+
+const getProvider = async (
+  wallets: WalletProvider[]
+): Promise<ethers.providers.JsonRpcProvider> => {
+  if (!wallets[0]) {
+    throw new Error("No wallet connected");
+  }
+  return wallets[0].getEthersProvider();
+};
+
+// Reports a sent transaction and waits for one confirmation
+const confirmTransaction = async (
+  chain: string,
+  tx: ethers.providers.TransactionResponse,
+  emit: ExecutionListener
+): Promise<ExecutionEvent> => {
+  emit({ type: "submitted", transactionHash: tx.hash });
+
+  try {
+    const receipt = await waitForReceipt(chain, tx, 1, RECEIPT_TIMEOUT_MS);
+    return {
+      type: "confirmed",
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+    };
+  } catch (confirmError) {
+    console.error("Transaction confirmation failed:", confirmError);
+    // Even if confirmation monitoring fails, the transaction might still go through
+    return {
+      type: "unconfirmed",
+      transactionHash: tx.hash,
+      error: errorMessage(confirmError),
+    };
+  }
+};
+
+const executeTransfer = async (
+  intent: TransferIntent,
+  wallets: WalletProvider[],
+  emit: ExecutionListener,
+  { speed }: ExecutionOptions
+): Promise<ExecutionEvent> => {
+  const { recipientAddress, chain, amount, token } = intent.response;
+  const tx = await sendTransaction(wallets, recipientAddress, amount, chain, token, speed);
+  return confirmTransaction(chain, tx, emit);
+};
+
+const executeWrap = async (
+  intent: WrapIntent | UnwrapIntent,
+  wallets: WalletProvider[],
+  emit: ExecutionListener,
+  { speed }: ExecutionOptions
+): Promise<ExecutionEvent> => {
+  const { chain, amount } = intent.response;
+  const tx = await wrapNative(wallets, chain, intent.transaction_type, amount, speed);
+  return confirmTransaction(chain, tx, emit);
+};
+
+const executeSwap = async (
+  intent: SwapIntent,
+  wallets: WalletProvider[],
+  emit: ExecutionListener,
+  { speed, approval, venue, slippage }: ExecutionOptions
+): Promise<ExecutionEvent> => {
+  const { chain, amount, fromAsset, toAsset } = intent.response;
+
+  if (!venue || slippage === undefined) {
+    if (!wallets[0]) {
+      throw new Error("No wallet connected");
+    }
+    const { chainId } = requireChain(chain);
+    await wallets[0].switchChain(chainId);
+    const provider = await getProvider(wallets);
+    const [fromToken, toToken] = await Promise.all([
+      resolveToken(provider, chainId, fromAsset),
+      resolveToken(provider, chainId, toAsset),
+    ]);
+    slippage ??= resolveSlippage({ mode: "auto" }, fromToken, toToken);
+    if (!venue) {
+      const best = await getBestQuote(provider, {
+        chain,
+        owner: wallets[0].address,
+        fromAsset,
+        toAsset,
+        amountIn: ethers.utils.parseUnits(amount, fromToken.decimals),
+        slippage,
+      });
+      venue = best.venue;
+    }
+  }
+
+  const submission = await getVenueAdapter(venue).swap(
+    wallets,
+    chain,
+    fromAsset,
+    toAsset,
+    amount,
+    speed,
+    approval,
+    slippage
+  );
+
+  if ("transactionHash" in submission) {
+    const txHash = submission.transactionHash;
+    emit({ type: "submitted", transactionHash: txHash });
+
+    let receipt: ethers.providers.TransactionReceipt;
+    try {
+      receipt = await getRpcProvider(chain).waitForTransaction(txHash, 1, RECEIPT_TIMEOUT_MS);
+    } catch (confirmError) {
+      console.error("Swap confirmation failed:", confirmError);
+      // The swap may still be mined, and the reconciler settles it from the ledger
+      return { type: "unconfirmed", transactionHash: txHash, error: errorMessage(confirmError) };
+    }
+    if (receipt.status === 0) {
+      return {
+        type: "failed",
+        error: "Swap transaction reverted",
+        transactionHash: txHash,
+      };
+    }
+    return {
+      type: "confirmed",
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+    };
+  }
+
+  // CoW Protocol orders are settled off-chain by solvers
+  const { orderId, quotedBuyAmount, validTo } = submission;
+  emit({ type: "submitted", orderId, quotedBuyAmount, validTo });
+
+  let orderState: CowOrderState;
+  try {
+    orderState = await watchOrder(orderId, chain, {
+      onUpdate: (update) => {
+        if (update.status === OrderStatus.OPEN && update.filled > 0) {
+          emit({ type: "progress", orderId, orderState: update });
+        }
+      },
+    });
+  } catch (watchError) {
+    console.error("Order monitoring failed:", watchError);
+    // The order book still has the order, and the reconciler picks it up from there
+    return { type: "unconfirmed", orderId, error: errorMessage(watchError) };
+  }
+
+  switch (orderState.status) {
+    case OrderStatus.FULFILLED:
+      return {
+        type: "confirmed",
+        orderId,
+        transactionHash: orderState.transactionHash,
+        orderState,
+      };
+    case OrderStatus.OPEN:
+      return {
+        type: "unconfirmed",
+        orderId,
+        error: "The order is still open after its expiry time",
+      };
+    default:
+      return {
+        type: "failed",
+        error: `Swap order failed with status: ${orderState.status}`,
+        orderId,
+        orderStatus: orderState.status,
+        orderState,
+      };
+  }
+};
+
+const executeBuy = async (
+  intent: BuyIntent,
+  wallets: WalletProvider[]
+): Promise<ExecutionEvent> => {
+  const { cryptoAsset, amount, chain, paymentMethod } = intent.response;
+  const { moonpayUrl } = await processBuyRequest(
+    wallets,
+    amount,
+    cryptoAsset,
+    chain,
+    paymentMethod
+  );
+  return { type: "confirmed", moonpayUrl };
+};
+
+/**
+ * Executes a transfer, swap, wrap or buy intent and reports its lifecycle
+ * @param intent Validated intent from the agent backend
+ * @param wallets Connected wallets; the first one signs
+ * @param onEvent Called for every lifecycle event, including the final one
+ * @param options Fee preset and approval mode chosen in the review
+ * @returns The terminal event (confirmed, unconfirmed, failed or rejected)
+ */
+export async function executeIntent(
+  intent: ExecutableIntent,
+  wallets: WalletProvider[],
+  onEvent: ExecutionListener,
+  options: ExecutionOptions = {}
+): Promise<ExecutionEvent> {
+  let result: ExecutionEvent;
+  try {
+    switch (intent.transaction_type) {
+      case "transfer":
+        result = await executeTransfer(intent, wallets, onEvent, options);
+        break;
+      case "swap":
+        result = await executeSwap(intent, wallets, onEvent, options);
+        break;
+      case "wrap":
+      case "unwrap":
+        result = await executeWrap(intent, wallets, onEvent, options);
+        break;
+      case "buy":
+        result = await executeBuy(intent, wallets);
+        break;
+    }
+  } catch (error) {
+    console.error(`${intent.transaction_type} execution failed:`, error);
+    result = isUserRejection(error)
+      ? { type: "rejected", error: errorMessage(error) }
+      : { type: "failed", error: errorMessage(error) };
+  }
+  onEvent(result);
+  return result;
+}
+
+/**
+ * Reads an ERC20 or native balance along with the token's symbol and decimals
+ * @param provider Ethers provider
+ * @param tokenAddress Token contract address, or the native currency sentinel
+ * @param walletAddress Owner of the balance
+ * @returns The formatted balance
+ */
+export async function readTokenBalance(
+  provider: ethers.providers.Provider,
+  tokenAddress: string,
+  walletAddress: string
+): Promise<TokenBalance> {
+  const { chainId } = await provider.getNetwork();
+
+  const balance = await getTokenBalance(provider, tokenAddress, walletAddress);
+  const { symbol, decimals } = await resolveToken(provider, chainId, tokenAddress);
+
+  return {
+    address: tokenAddress,
+    symbol: symbol,
+    balance: ethers.utils.formatUnits(balance, decimals),
+    decimals: decimals,
+  };
+}
+
+/**
+ * Looks up a transaction and its receipt
+ * @param provider Ethers provider connected to the transaction's chain
+ * @param txHash Transaction hash
+ * @returns Whether the transaction is known, mined and successful
+ */
+export async function checkTransactionStatus(
+  provider: ethers.providers.Provider,
+  txHash: string
+): Promise<TransactionStatus> {
+  try {
+    console.log("🔍 Manually checking transaction status for hash:", txHash);
+
+    // First check if the transaction is in the mempool
+    const tx = await provider.getTransaction(txHash);
+    if (!tx) {
+      return { found: false, status: "not_found" };
+    }
+
+    // If the transaction has a blockNumber, it has been mined
+    if (tx.blockNumber) {
+      const receipt = await provider.getTransactionReceipt(txHash);
+      if (receipt) {
+        // status: 1 = success, 0 = failure
+        return {
+          found: true,
+          mined: true,
+          successful: receipt.status === 1,
+          blockNumber: receipt.blockNumber,
+          receipt: receipt,
+        };
+      }
+
+      // Transaction mined but no receipt yet
+      return { found: true, mined: true, blockNumber: tx.blockNumber };
+    }
+
+    // Transaction found but not yet mined
+    return { found: true, mined: false, status: "pending" };
+  } catch (error) {
+    console.error("❌ Error checking transaction status:", error);
+    return { found: false, error: errorMessage(error) };
+  }
+}
+
+/**
+ * Executes a single step of a remittance `transaction_flow`
+ * @param step Validated flow step
+ * @param chain Chain the remittance runs on; balances and receipts are read from its RPC endpoints
+ * @param wallets Connected wallets; the first one signs
+ * @param onEvent Called when a transaction is submitted
+ * @param speed Fee preset
+ * @returns The step outcome. Failures are returned rather than thrown.
+ */
+export async function executeRemittanceStep(
+  step: TransactionFlowStep,
+  chain: string,
+  wallets: WalletProvider[],
+  onEvent: ExecutionListener = () => {},
+  speed: FeeSpeed = DEFAULT_FEE_SPEED
+): Promise<StepResult> {
+  try {
+    if (!wallets[0]) {
+      throw new Error("No wallet connected");
+    }
+
+    const walletAddress = wallets[0].address;
+    const provider = await wallets[0].getEthersProvider();
+    const reader = getRpcProvider(chain);
+
+    if (step.check_balance) {
+      const balance = await readTokenBalance(
+        reader,
+        step.check_balance.token_address,
+        walletAddress
+      );
+      return { success: true, type: "balance_check", balance };
+    }
+
+    if (!step.requires_signature) {
+      return { success: true, type: "no_signature_required" };
+    }
+
+    if (!step.tx_data) {
+      throw new Error(`Step "${step.name}" requires a signature but has no transaction data`);
+    }
+
+    const signer = provider.getSigner();
+
+    // Create a new transaction object with the correct from address. Gas and
+    // fees are estimated here rather than taken from the backend.
+    const { to, data, value, nonce } = step.tx_data;
+    const txData: ethers.providers.TransactionRequest = { to, data, value, nonce, from: walletAddress };
+
+    const simulation = await simulateTransaction(provider, txData);
+    if (!simulation.success) {
+      return { success: false, error: new SimulationError(simulation.reason).message };
+    }
+
+    const tx = await signer.sendTransaction({
+      ...txData,
+      ...(await getTransactionOverrides(provider, simulation.gasLimit, speed)),
+    });
+    onEvent({ type: "submitted", transactionHash: tx.hash });
+
+    // Wait for one confirmation with a timeout to prevent hanging
+    try {
+      const receipt = await waitForReceipt(chain, tx, 1, RECEIPT_TIMEOUT_MS);
+      return { success: true, type: "transaction", hash: receipt.transactionHash };
+    } catch (timeoutError) {
+      console.error("⏱️ Transaction wait timed out or failed:", timeoutError);
+
+      if ((timeoutError as { code?: unknown }).code === "CALL_EXCEPTION") {
+        return { success: false, error: `Transaction ${tx.hash} reverted` };
+      }
+
+      // Even if waiting times out, the transaction might still complete successfully later
+      try {
+        const receipt = await reader.getTransactionReceipt(tx.hash);
+        if (receipt?.status === 0) {
+          return { success: false, error: `Transaction ${tx.hash} reverted` };
+        }
+        if (receipt?.status === 1) {
+          return {
+            success: true,
+            type: "transaction",
+            hash: tx.hash,
+            note: "Confirmed via direct check after timeout",
+          };
+        }
+        return {
+          success: true,
+          type: "transaction",
+          hash: tx.hash,
+          pending: true,
+          note: "Transaction submitted but confirmation timed out. It may still complete later.",
+        };
+      } catch (statusCheckError) {
+        console.error("❌ Failed to check transaction status:", statusCheckError);
+        throw new Error(
+          `Transaction submitted (${tx.hash}) but confirmation status unknown: ${timeoutError}`
+        );
+      }
+    }
+  } catch (error) {
+    console.error("❌ Failed to execute remittance step:", error);
+
+    if (isUserRejection(error)) {
+      return {
+        success: false,
+        error: "Transaction was rejected in your wallet. Please try again.",
+        userRejected: true,
+      };
+    }
+    return { success: false, error: errorMessage(error) };
+  }
+}
+
+// Reads through the chain's RPC endpoints, which can simulate in sequence
+// where wallets usually cannot
+const getChainReader = (chainId: number) => {
+  const chain = getChainById(chainId);
+  if (!chain) {
+    throw new Error(`Unsupported chain id: ${chainId}`);
+  }
+  return getRpcProvider(chain.key);
+};
+
+/**
+ * Checks whether the connected wallet can send remittance steps as one atomic
+ * batch. Wallets without EIP-5792 support, and chains whose nodes cannot
+ * simulate the steps in sequence beforehand, run the steps one at a time.
+ * @param wallets Connected wallets; the first one signs
+ * @param chainId Chain the remittance runs on
+ */
+export async function canBatchRemittanceSteps(
+  wallets: WalletProvider[],
+  chainId: number
+): Promise<boolean> {
+  if (!wallets[0]) {
+    return false;
+  }
+  const provider = await wallets[0].getEthersProvider();
+  return (
+    (await supportsAtomicBatch(provider, wallets[0].address, chainId)) &&
+    (await supportsSequenceSimulation(getChainReader(chainId)))
+  );
+}
+
+/**
+ * Sends the transactions of several remittance steps as one atomic batch, so
+ * the wallet asks for a single confirmation
+ * @param steps Signing steps, in flow order
+ * @param wallets Connected wallets; the first one signs
+ * @param chainId Chain the remittance runs on
+ * @returns The batch identifier. Failures are returned rather than thrown.
+ */
+export async function executeRemittanceBatch(
+  steps: TransactionFlowStep[],
+  wallets: WalletProvider[],
+  chainId: number
+): Promise<BatchResult> {
+  try {
+    const calls = steps.map((step) => {
+      if (!step.tx_data) {
+        throw new Error(`Step "${step.name}" requires a signature but has no transaction data`);
+      }
+      return { to: step.tx_data.to, data: step.tx_data.data, value: step.tx_data.value };
+    });
+    const provider = await getProvider(wallets);
+    const from = wallets[0]!.address;
+
+    // Later calls depend on state left by earlier ones (an approval, bought
+    // tokens), so the whole batch is simulated in sequence
+    const simulations = await simulateSequence(
+      getChainReader(chainId),
+      calls.map((call) => ({ ...call, from }))
+    );
+    const failed = simulations.findIndex((simulation) => !simulation.success);
+    const simulation = simulations[failed];
+    if (simulation && !simulation.success) {
+      return {
+        success: false,
+        error: `Step "${steps[failed]!.name}": ${new SimulationError(simulation.reason).message}`,
+      };
+    }
+
+    const batchId = await sendCalls(provider, from, chainId, calls);
+    return { success: true, batchId };
+  } catch (error) {
+    console.error("❌ Failed to send remittance batch:", error);
+
+    if (isUserRejection(error)) {
+      return {
+        success: false,
+        error: "Batch was rejected in your wallet. Please try again.",
+        userRejected: true,
+      };
+    }
+    return { success: false, error: errorMessage(error) };
+  }
+}
+
+/**
+ * Reads the status of a batch sent by {@link executeRemittanceBatch}
+ * @param wallets Connected wallets; the first one sent the batch
+ * @param batchId Identifier returned when the batch was sent
+ */
+export async function checkRemittanceBatch(
+  wallets: WalletProvider[],
+  batchId: string
+): Promise<BatchStatus> {
+  const provider = await getProvider(wallets);
+  return getCallsStatus(provider, batchId);
+}
@@ -0,0 +1,286 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+
+// Client-side exports of the transaction ledger: CSV, JSON and remittance receipts
+
+import { getChain, getExplorerTxUrl } from "./chains";
+import { TransactionHistoryItem } from "./ledger";
+
+const CSV_COLUMNS = [
+  "id",
+  "date",
+  "type",
+  "status",
+  "chain",
+  "amount",
+  "token",
+  "fromAsset",
+  "toAsset",
+  "recipientAddress",
+  "transactionHash",
+  "explorerUrl",
+  "orderId",
+  "moonpayUrl",
+  "exchangeRates",
+  "fees",
+  "message",
+] as const;
+
+// Spreadsheets run cells starting with these as formulas, so they are prefixed
+// with an apostrophe to be read as text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+  let text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  if (FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const explorerUrl = (item: TransactionHistoryItem) =>
+  item.data.chain && item.data.transactionHash
+    ? getExplorerTxUrl(item.data.chain, item.data.transactionHash)
+    : undefined;
+
+/**
+ * Serializes ledger entries as CSV, one row per entry. Exchange rates and fees
+ * are embedded as JSON so no breakdown is lost.
+ * @param items Entries to export
+ * @returns CSV text with a header row
+ */
+export function toCsv(items: TransactionHistoryItem[]): string {
+  const rows = items.map((item) => {
+    const values: Record<(typeof CSV_COLUMNS)[number], unknown> = {
+      id: item.id,
+      date: new Date(item.timestamp).toISOString(),
+      type: item.type,
+      status: item.status,
+      chain: item.data.chain,
+      amount: item.data.amount,
+      token: item.data.token,
+      fromAsset: item.data.fromAsset,
+      toAsset: item.data.toAsset,
+      recipientAddress: item.data.recipientAddress,
+      transactionHash: item.data.transactionHash,
+      explorerUrl: explorerUrl(item),
+      orderId: item.data.orderId,
+      moonpayUrl: item.data.moonpayUrl,
+      exchangeRates: item.data.exchangeRates,
+      fees: item.data.fees,
+      message: item.message,
+    };
+    return CSV_COLUMNS.map((column) => csvCell(values[column])).join(",");
+  });
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n");
+}
+
+/**
+ * Serializes ledger entries as pretty-printed JSON
+ * @param items Entries to export
+ */
+export function toJson(items: TransactionHistoryItem[]): string {
+  return JSON.stringify(
+    items.map((item) => ({ ...item, date: new Date(item.timestamp).toISOString() })),
+    null,
+    2
+  );
+}
+
+/**
+ * Saves text as a file through the browser's download prompt
+ * @param filename Suggested file name
+ * @param contents File contents
+ * @param type MIME type
+ */
+export function downloadFile(filename: string, contents: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// Each remittance has one summary entry; its on-chain steps are recorded
+// separately, each with a transaction hash
+const isRemittanceStart = (item: TransactionHistoryItem) =>
+  item.type === "remittance" && !item.data.transactionHash;
+
+const sameRemittance = (a: TransactionHistoryItem, b: TransactionHistoryItem) =>
+  a.data.chain === b.data.chain &&
+  a.data.amount === b.data.amount &&
+  a.data.recipientAddress?.toLowerCase() === b.data.recipientAddress?.toLowerCase();
+
+/**
+ * Checks whether a ledger entry is the start of a remittance a receipt can be printed for
+ * @param item Ledger entry
+ */
+export const hasReceipt = (item: TransactionHistoryItem): boolean =>
+  isRemittanceStart(item) && item.status !== "failed";
+
+const isCompletedStep = (item: TransactionHistoryItem) =>
+  item.status === "completed" && Boolean(item.data.transactionHash);
+
+/**
+ * Collects the completed on-chain steps of a remittance. Steps are stored as
+ * separate entries that record the id of the remittance's start. Steps saved
+ * before that id was recorded are matched on chain, amount and recipient
+ * between this remittance's start and the next one to the same recipient.
+ * @param start Entry recorded when the remittance started
+ * @param entries Remittance entries from the ledger, in any order
+ * @returns The completed steps, oldest first
+ */
+export function findRemittanceSteps(
+  start: TransactionHistoryItem,
+  entries: TransactionHistoryItem[]
+): TransactionHistoryItem[] {
+  const steps = entries
+    .filter((item) => item.data.remittanceId === start.id && isCompletedStep(item))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (steps.length > 0) {
+    return steps;
+  }
+
+  const related = entries
+    .filter((item) => item.type === "remittance" && !item.data.remittanceId && sameRemittance(item, start))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const next = related.find(
+    (item) => isRemittanceStart(item) && item.timestamp > start.timestamp
+  );
+  return related.filter(
+    (item) =>
+      isCompletedStep(item) &&
+      item.timestamp >= start.timestamp &&
+      (!next || item.timestamp < next.timestamp)
+  );
+}
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const formatUsd = (value: unknown) =>
+  typeof value === "number" ? `$${value.toFixed(2)}` : escapeHtml(value ?? "—");
+
+/**
+ * Renders a self-contained, printable HTML receipt for a remittance
+ * @param start Entry recorded when the remittance started
+ * @param steps Completed steps, from `findRemittanceSteps`
+ * @returns A complete HTML document
+ */
+export function buildRemittanceReceipt(
+  start: TransactionHistoryItem,
+  steps: TransactionHistoryItem[]
+): string {
+  const { amount, chain, recipientAddress, exchangeRates, fees } = start.data;
+  const rate = Number(exchangeRates?.usdc_to_eurc);
+  const estimatedEur = Number.isFinite(rate) && amount ? (Number(amount) * rate).toFixed(2) : undefined;
+  const chainName = chain ? getChain(chain)?.name ?? chain : "—";
+
+  const stepRows = steps
+    .map((step, index) => {
+      const url = explorerUrl(step);
+      const hash = escapeHtml(step.data.transactionHash);
+      return `<tr>
+        <td>${index + 1}</td>
+        <td>${escapeHtml(step.message.replace(/^Completed remittance step \d+: /, ""))}</td>
+        <td>${escapeHtml(new Date(step.timestamp).toLocaleString())}</td>
+        <td class="mono">${url ? `<a href="${escapeHtml(url)}">${hash}</a>` : hash}</td>
+      </tr>`;
+    })
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Brinco remittance receipt ${escapeHtml(start.id)}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #111; max-width: 720px; margin: 40px auto; padding: 0 16px; }
+  h1 { font-size: 22px; margin-bottom: 4px; }
+  .muted { color: #666; font-size: 13px; }
+  table { width: 100%; border-collapse: collapse; margin: 16px 0 24px; font-size: 14px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #ddd; vertical-align: top; }
+  th { background: #f5f5f5; }
+  .mono { font-family: Menlo, Monaco, Consolas, monospace; word-break: break-all; }
+  .total td { font-weight: 600; }
+  @media print { .no-print { display: none; } a { color: #111; } }
+</style>
+</head>
+<body>
+<h1>Remittance receipt</h1>
+<p class="muted">Reference ${escapeHtml(start.id)} · ${escapeHtml(new Date(start.timestamp).toLocaleString())}</p>
+
+<table>
+  <tr><th colspan="2">Transfer</th></tr>
+  <tr><td>Amount sent</td><td>${formatUsd(Number(amount))}</td></tr>
+  <tr><td>Recipient</td><td class="mono">${escapeHtml(recipientAddress || "—")}</td></tr>
+  <tr><td>Network</td><td>${escapeHtml(chainName)}</td></tr>
+  <tr><td>Exchange rate</td><td>${Number.isFinite(rate) ? `1 USDC = ${rate} EURC` : "—"}</td></tr>
+  ${estimatedEur ? `<tr><td>Estimated amount received</td><td>€${estimatedEur}</td></tr>` : ""}
+</table>
+
+<table>
+  <tr><th colspan="2">Cost breakdown (simulated)</th></tr>
+  <tr><td>Network fee</td><td>${formatUsd(fees?.network_fee_usd)}</td></tr>
+  <tr><td>Service fee</td><td>${formatUsd(fees?.service_fee_usd)}</td></tr>
+  <tr class="total"><td>Total cost</td><td>${formatUsd(fees?.total_cost_usd)}</td></tr>
+</table>
+
+<table>
+  <tr><th>#</th><th>Step</th><th>Completed</th><th>Transaction</th></tr>
+  ${stepRows || `<tr><td colspan="4">No completed on-chain steps were recorded.</td></tr>`}
+</table>
+
+<p class="muted">Generated by Brinco from the transaction history stored in this browser on ${escapeHtml(new Date().toLocaleString())}.</p>
+<button class="no-print" onclick="window.print()">Print or save as PDF</button>
+</body>
+</html>`;
+}
+
+/**
+ * Opens a remittance receipt in a new tab, ready to print
+ * @param start Entry recorded when the remittance started
+ * @param entries Remittance entries from the ledger
+ * @throws Error if the browser blocked the new tab
+ */
+export function openRemittanceReceipt(
+  start: TransactionHistoryItem,
+  entries: TransactionHistoryItem[]
+) {
+  const html = buildRemittanceReceipt(start, findRemittanceSteps(start, entries));
+  const url = URL.createObjectURL(new Blob([html], { type: "text/html" }));
+  const receipt = window.open(url, "_blank");
+  if (!receipt) {
+    URL.revokeObjectURL(url);
+    throw new Error("Allow pop-ups to open the receipt");
+  }
+  // Give the new tab time to load the document before releasing it
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
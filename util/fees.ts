@@ -0,0 +1,227 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+// Gas limits with a safety margin, EIP-1559 fees with slow/normal/fast presets,
+// and same-nonce replacement of stuck transactions
+
+import { ethers } from "ethers";
+
+export type FeeSpeed = "slow" | "normal" | "fast";
+
+export const FEE_SPEEDS: FeeSpeed[] = ["slow", "normal", "fast"];
+
+export const DEFAULT_FEE_SPEED: FeeSpeed = "normal";
+
+export type FeeOverrides =
+  | { maxFeePerGas: ethers.BigNumber; maxPriorityFeePerGas: ethers.BigNumber }
+  | { gasPrice: ethers.BigNumber };
+
+export interface FeeEstimate {
+  speed: FeeSpeed;
+  overrides: FeeOverrides;
+  // What is expected to be paid per gas: base fee plus tip, or the gas price
+  expectedFeePerGas: ethers.BigNumber;
+}
+
+// Percentile of recent priority fees each preset bids
+const PRIORITY_PERCENTILES: Record<FeeSpeed, number> = { slow: 10, normal: 50, fast: 90 };
+
+// Gas price multipliers, in percent, for chains without EIP-1559
+const GAS_PRICE_MULTIPLIERS: Record<FeeSpeed, number> = { slow: 100, normal: 110, fast: 125 };
+
+const FEE_HISTORY_BLOCKS = 10;
+const GAS_LIMIT_MARGIN_PERCENT = 20;
+
+// Nodes only accept a replacement that outbids the original by 10%; bid a
+// little more so rounding never gets it rejected
+const REPLACEMENT_BUMP_PERMILLE = 1125;
+
+const FALLBACK_PRIORITY_FEE = ethers.utils.parseUnits("1.5", "gwei");
+
+/**
+ * Adds the safety margin to a gas estimate
+ * @param units Estimated gas units
+ */
+export const addGasMargin = (units: ethers.BigNumber): ethers.BigNumber =>
+  units.mul(100 + GAS_LIMIT_MARGIN_PERCENT).div(100);
+
+const median = (values: ethers.BigNumber[]): ethers.BigNumber => {
+  const sorted = [...values].sort((a, b) => (a.lt(b) ? -1 : a.gt(b) ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)] ?? ethers.constants.Zero;
+};
+
+const estimatePriorityFee = async (
+  provider: ethers.providers.Provider,
+  speed: FeeSpeed
+): Promise<ethers.BigNumber> => {
+  if (provider instanceof ethers.providers.JsonRpcProvider) {
+    try {
+      const history = await provider.send("eth_feeHistory", [
+        ethers.utils.hexValue(FEE_HISTORY_BLOCKS),
+        "latest",
+        [PRIORITY_PERCENTILES[speed]],
+      ]);
+      const rewards: ethers.BigNumber[] = (history.reward ?? []).map((reward: string[]) =>
+        ethers.BigNumber.from(reward[0] ?? 0)
+      );
+      if (rewards.length > 0) {
+        return median(rewards);
+      }
+    } catch (error) {
+      console.warn("eth_feeHistory is not available, using the node's suggested tip:", error);
+    }
+  }
+  const { maxPriorityFeePerGas } = await provider.getFeeData();
+  const tip = maxPriorityFeePerGas ?? FALLBACK_PRIORITY_FEE;
+  return speed === "fast" ? tip.mul(2) : speed === "slow" ? tip.div(2) : tip;
+};
+
+/**
+ * Estimates the fees to bid for a preset, using EIP-1559 where the chain supports it
+ * @param provider Provider connected to the chain
+ * @param speed Fee preset
+ */
+export async function estimateFees(
+  provider: ethers.providers.Provider,
+  speed: FeeSpeed = DEFAULT_FEE_SPEED
+): Promise<FeeEstimate> {
+  const block = await provider.getBlock("latest");
+  const baseFee = block.baseFeePerGas;
+
+  if (!baseFee) {
+    const gasPrice = (await provider.getGasPrice()).mul(GAS_PRICE_MULTIPLIERS[speed]).div(100);
+    return { speed, overrides: { gasPrice }, expectedFeePerGas: gasPrice };
+  }
+
+  const maxPriorityFeePerGas = await estimatePriorityFee(provider, speed);
+  // Leave room for the base fee to double before the transaction is mined
+  const maxFeePerGas = baseFee.mul(2).add(maxPriorityFeePerGas);
+  return {
+    speed,
+    overrides: { maxFeePerGas, maxPriorityFeePerGas },
+    expectedFeePerGas: baseFee.add(maxPriorityFeePerGas),
+  };
+}
+
+/**
+ * Builds the gas and fee fields for a transaction
+ * @param provider Provider connected to the chain
+ * @param gasEstimate Gas units from `estimateGas`; the margin is added here
+ * @param speed Fee preset
+ * @returns Overrides to pass to a contract call or `sendTransaction`
+ */
+export async function getTransactionOverrides(
+  provider: ethers.providers.Provider,
+  gasEstimate: ethers.BigNumber,
+  speed: FeeSpeed = DEFAULT_FEE_SPEED
+): Promise<FeeOverrides & { gasLimit: ethers.BigNumber }> {
+  const { overrides } = await estimateFees(provider, speed);
+  return { ...overrides, gasLimit: addGasMargin(gasEstimate) };
+}
+
+const bump = (value: ethers.BigNumber) => value.mul(REPLACEMENT_BUMP_PERMILLE).div(1000);
+
+const max = (a: ethers.BigNumber, b: ethers.BigNumber) => (a.gt(b) ? a : b);
+
+// Fees that outbid the original and are at least the current fast preset
+const getReplacementFees = async (
+  provider: ethers.providers.Provider,
+  original: ethers.providers.TransactionResponse
+): Promise<FeeOverrides> => {
+  const { overrides: fast } = await estimateFees(provider, "fast");
+
+  if (original.maxFeePerGas && original.maxPriorityFeePerGas) {
+    const current =
+      "maxFeePerGas" in fast
+        ? fast
+        : { maxFeePerGas: fast.gasPrice, maxPriorityFeePerGas: fast.gasPrice };
+    return {
+      maxFeePerGas: max(bump(original.maxFeePerGas), current.maxFeePerGas),
+      maxPriorityFeePerGas: max(bump(original.maxPriorityFeePerGas), current.maxPriorityFeePerGas),
+    };
+  }
+
+  const current = "gasPrice" in fast ? fast.gasPrice : fast.maxFeePerGas;
+  return { gasPrice: max(bump(original.gasPrice ?? ethers.constants.Zero), current) };
+};
+
+const getPendingTransaction = async (
+  signer: ethers.providers.JsonRpcSigner,
+  hash: string
+): Promise<ethers.providers.TransactionResponse> => {
+  const original = await signer.provider.getTransaction(hash);
+  if (!original) {
+    throw new Error("Transaction not found. It may already have been dropped.");
+  }
+  if (original.blockNumber) {
+    throw new Error("Transaction is already confirmed");
+  }
+  if (original.from.toLowerCase() !== (await signer.getAddress()).toLowerCase()) {
+    throw new Error("Transaction was sent from a different account");
+  }
+  return original;
+};
+
+/**
+ * Resends a pending transaction with the same nonce and higher fees. Some
+ * wallets manage nonces themselves and may not honour the one passed here.
+ * @param signer Signer that sent the original transaction
+ * @param hash Hash of the pending transaction
+ * @returns The replacement transaction
+ */
+export async function speedUpTransaction(
+  signer: ethers.providers.JsonRpcSigner,
+  hash: string
+): Promise<ethers.providers.TransactionResponse> {
+  const original = await getPendingTransaction(signer, hash);
+  return signer.sendTransaction({
+    to: original.to,
+    data: original.data,
+    value: original.value,
+    nonce: original.nonce,
+    gasLimit: original.gasLimit,
+    ...(await getReplacementFees(signer.provider, original)),
+  });
+}
+
+/**
+ * Replaces a pending transaction with an empty transfer to the sender, which
+ * consumes its nonce so the original can never be mined
+ * @param signer Signer that sent the original transaction
+ * @param hash Hash of the pending transaction
+ * @returns The cancelling transaction
+ */
+export async function cancelTransaction(
+  signer: ethers.providers.JsonRpcSigner,
+  hash: string
+): Promise<ethers.providers.TransactionResponse> {
+  const original = await getPendingTransaction(signer, hash);
+  return signer.sendTransaction({
+    to: original.from,
+    value: 0,
+    data: "0x",
+    nonce: original.nonce,
+    gasLimit: 21000,
+    ...(await getReplacementFees(signer.provider, original)),
+  });
+}
@@ -0,0 +1,455 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+// Types and runtime validation for the `/answer/` backend response
+
+export interface TransferIntent {
+  transaction_type: "transfer";
+  response: {
+    recipientAddress: string;
+    chain: string;
+    amount: string;
+    // ERC20 address, or the native currency sentinel (see NATIVE_TOKEN_ADDRESS)
+    token: string;
+  };
+}
+
+export interface SwapIntent {
+  transaction_type: "swap";
+  response: {
+    chain: string;
+    amount: string;
+    // ERC20 addresses; either may be the native currency sentinel
+    fromAsset: string;
+    toAsset: string;
+  };
+}
+
+// Converts the chain's native currency into its wrapped ERC20 token
+export interface WrapIntent {
+  transaction_type: "wrap";
+  response: {
+    chain: string;
+    amount: string;
+  };
+}
+
+// Converts the wrapped native token back into the native currency
+export interface UnwrapIntent {
+  transaction_type: "unwrap";
+  response: WrapIntent["response"];
+}
+
+export interface BuyIntent {
+  transaction_type: "buy";
+  response: {
+    cryptoAsset: string;
+    amount: string;
+    chain: string;
+    paymentMethod: string;
+  };
+}
+
+export interface TxData {
+  to: string;
+  data: string;
+  value?: string;
+  gas?: string;
+  gasPrice?: string;
+  nonce?: number;
+}
+
+export interface TransactionFlowStep {
+  name: string;
+  description: string;
+  explain?: string;
+  requires_signature: boolean;
+  tx_data?: TxData;
+  check_balance?: {
+    token_address: string;
+  };
+}
+
+export interface CostSimulation {
+  usd_amount: number;
+  eur_amount: number;
+  exchange_rates: {
+    usdc_to_eurc: number;
+  };
+  fees: {
+    network_fee_usd: number;
+    service_fee_usd: number;
+    total_cost_usd: number;
+  };
+}
+
+export interface RemittanceResponse {
+  amount: string;
+  recipient_address: string;
+  chain: string;
+  transaction_flow: Record<string, TransactionFlowStep>;
+  cost_simulation?: CostSimulation;
+  using_test_tokens?: boolean;
+  token_addresses?: {
+    tUSD: string;
+    tEUR: string;
+  };
+}
+
+export interface RemittanceIntent {
+  transaction_type: "remittance";
+  response: RemittanceResponse;
+}
+
+export type Intent =
+  | TransferIntent
+  | SwapIntent
+  | WrapIntent
+  | UnwrapIntent
+  | BuyIntent
+  | RemittanceIntent;
+
+export type IntentType = Intent["transaction_type"];
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const fail = (path: string, expected: string, value: unknown): never => {
+  const received = value === undefined ? "nothing" : JSON.stringify(value);
+  throw new Error(
+    `Invalid agent response: expected ${path} to be ${expected}, got ${received}`
+  );
+};
+
+const requireObject = (obj: Json, key: string, path: string): Json => {
+  const value = obj[key];
+  if (!isObject(value)) {
+    return fail(`${path}.${key}`, "an object", value);
+  }
+  return value;
+};
+
+const requireString = (obj: Json, key: string, path: string): string => {
+  const value = obj[key];
+  if (typeof value !== "string" || value.trim() === "") {
+    return fail(`${path}.${key}`, "a non-empty string", value);
+  }
+  return value;
+};
+
+const optionalString = (
+  obj: Json,
+  key: string,
+  path: string
+): string | undefined => {
+  if (obj[key] === undefined || obj[key] === null) {
+    return undefined;
+  }
+  return requireString(obj, key, path);
+};
+
+const requireNumber = (obj: Json, key: string, path: string): number => {
+  const value = obj[key];
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return fail(`${path}.${key}`, "a number", value);
+  }
+  return value;
+};
+
+// The backend sends amounts either as JSON numbers or numeric strings, so we
+// normalise them to strings that ethers.utils.parseUnits accepts
+const requireAmount = (obj: Json, key: string, path: string): string => {
+  const value = obj[key];
+  const amount =
+    typeof value === "number" && Number.isFinite(value)
+      ? value.toString()
+      : value;
+  if (typeof amount !== "string" || !/^\d+(\.\d+)?$/.test(amount.trim())) {
+    return fail(`${path}.${key}`, "a positive decimal amount", value);
+  }
+  if (Number(amount) <= 0) {
+    return fail(`${path}.${key}`, "greater than zero", value);
+  }
+  return amount.trim();
+};
+
+// Numeric tx fields may be encoded as decimal numbers, decimal strings or hex strings
+const optionalQuantity = (
+  obj: Json,
+  key: string,
+  path: string
+): string | undefined => {
+  const value = obj[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value === "number" && Number.isInteger(value) && value >= 0) {
+    return value.toString();
+  }
+  if (
+    typeof value === "string" &&
+    (/^\d+$/.test(value) || /^0x[0-9a-fA-F]+$/.test(value))
+  ) {
+    return value;
+  }
+  return fail(`${path}.${key}`, "a non-negative integer quantity", value);
+};
+
+const requireAddress = (obj: Json, key: string, path: string): string => {
+  const value = requireString(obj, key, path);
+  if (!/^0x[0-9a-fA-F]{40}$/.test(value)) {
+    return fail(`${path}.${key}`, "a 0x-prefixed address", value);
+  }
+  return value;
+};
+
+const parseTxData = (obj: Json, path: string): TxData => {
+  const data = requireString(obj, "data", path);
+  if (!/^0x([0-9a-fA-F]{2})*$/.test(data)) {
+    fail(`${path}.data`, "0x-prefixed hex calldata", data);
+  }
+
+  const txData: TxData = {
+    to: requireAddress(obj, "to", path),
+    data,
+  };
+  const value = optionalQuantity(obj, "value", path);
+  if (value !== undefined) txData.value = value;
+  const gas = optionalQuantity(obj, "gas", path);
+  if (gas !== undefined) txData.gas = gas;
+  const gasPrice = optionalQuantity(obj, "gasPrice", path);
+  if (gasPrice !== undefined) txData.gasPrice = gasPrice;
+  if (obj["nonce"] !== undefined && obj["nonce"] !== null) {
+    const nonce = requireNumber(obj, "nonce", path);
+    if (!Number.isInteger(nonce) || nonce < 0) {
+      fail(`${path}.nonce`, "a non-negative integer", nonce);
+    }
+    txData.nonce = nonce;
+  }
+  return txData;
+};
+
+const parseFlowStep = (obj: Json, path: string): TransactionFlowStep => {
+  const step: TransactionFlowStep = {
+    name: requireString(obj, "name", path),
+    description: typeof obj["description"] === "string" ? obj["description"] : "",
+    requires_signature: obj["requires_signature"] === true,
+  };
+
+  const explain = optionalString(obj, "explain", path);
+  if (explain !== undefined) step.explain = explain;
+
+  if (obj["check_balance"] !== undefined && obj["check_balance"] !== null) {
+    const checkBalance = requireObject(obj, "check_balance", path);
+    step.check_balance = {
+      token_address: requireAddress(
+        checkBalance,
+        "token_address",
+        `${path}.check_balance`
+      ),
+    };
+  }
+
+  if (obj["tx_data"] !== undefined && obj["tx_data"] !== null) {
+    step.tx_data = parseTxData(
+      requireObject(obj, "tx_data", path),
+      `${path}.tx_data`
+    );
+  }
+
+  if (step.requires_signature && !step.tx_data) {
+    fail(`${path}.tx_data`, "present when requires_signature is true", undefined);
+  }
+  return step;
+};
+
+/**
+ * Validates a `transaction_flow` object and returns its steps keyed `step1`..`stepN`
+ * @param value Raw `transaction_flow` value from the backend
+ * @param path Path used in error messages
+ * @returns The validated transaction flow
+ */
+export function parseTransactionFlow(
+  value: unknown,
+  path = "transaction_flow"
+): Record<string, TransactionFlowStep> {
+  if (!isObject(value)) {
+    return fail(path, "an object", value);
+  }
+
+  const keys = Object.keys(value);
+  if (keys.length === 0) {
+    return fail(path, "a non-empty list of steps", value);
+  }
+
+  const flow: Record<string, TransactionFlowStep> = {};
+  for (let i = 1; i <= keys.length; i++) {
+    const key = `step${i}`;
+    const step = value[key];
+    if (!isObject(step)) {
+      return fail(`${path}.${key}`, "an object", step);
+    }
+    flow[key] = parseFlowStep(step, `${path}.${key}`);
+  }
+  return flow;
+}
+
+/**
+ * Validates a `cost_simulation` object
+ * @param value Raw `cost_simulation` value from the backend
+ * @param path Path used in error messages
+ * @returns The validated cost simulation
+ */
+export function parseCostSimulation(
+  value: unknown,
+  path = "cost_simulation"
+): CostSimulation {
+  if (!isObject(value)) {
+    return fail(path, "an object", value);
+  }
+  const exchangeRates = requireObject(value, "exchange_rates", path);
+  const fees = requireObject(value, "fees", path);
+  return {
+    usd_amount: requireNumber(value, "usd_amount", path),
+    eur_amount: requireNumber(value, "eur_amount", path),
+    exchange_rates: {
+      usdc_to_eurc: requireNumber(
+        exchangeRates,
+        "usdc_to_eurc",
+        `${path}.exchange_rates`
+      ),
+    },
+    fees: {
+      network_fee_usd: requireNumber(fees, "network_fee_usd", `${path}.fees`),
+      service_fee_usd: requireNumber(fees, "service_fee_usd", `${path}.fees`),
+      total_cost_usd: requireNumber(fees, "total_cost_usd", `${path}.fees`),
+    },
+  };
+}
+
+const parseRemittance = (obj: Json, path: string): RemittanceResponse => {
+  const remittance: RemittanceResponse = {
+    amount: requireAmount(obj, "amount", path),
+    recipient_address: requireString(obj, "recipient_address", path),
+    chain: requireString(obj, "chain", path),
+    transaction_flow: parseTransactionFlow(
+      obj["transaction_flow"],
+      `${path}.transaction_flow`
+    ),
+  };
+
+  if (obj["cost_simulation"] !== undefined && obj["cost_simulation"] !== null) {
+    remittance.cost_simulation = parseCostSimulation(
+      obj["cost_simulation"],
+      `${path}.cost_simulation`
+    );
+  }
+  if (obj["using_test_tokens"] !== undefined) {
+    remittance.using_test_tokens = obj["using_test_tokens"] === true;
+  }
+  if (obj["token_addresses"] !== undefined && obj["token_addresses"] !== null) {
+    const tokenAddresses = requireObject(obj, "token_addresses", path);
+    remittance.token_addresses = {
+      tUSD: requireAddress(tokenAddresses, "tUSD", `${path}.token_addresses`),
+      tEUR: requireAddress(tokenAddresses, "tEUR", `${path}.token_addresses`),
+    };
+  }
+  return remittance;
+};
+
+/**
+ * Validates the JSON body returned by the `/answer/` endpoint
+ * @param data Parsed JSON body
+ * @returns A typed intent, discriminated by `transaction_type`
+ * @throws Error describing the first field that does not match the schema
+ */
+export function parseAnswerResponse(data: unknown): Intent {
+  if (!isObject(data)) {
+    return fail("response body", "an object", data);
+  }
+
+  const transactionType = data["transaction_type"];
+  const response = data["response"];
+  if (!isObject(response)) {
+    if (typeof response === "string" && response.trim() !== "") {
+      // The agent answers with plain text when it could not map the prompt to an intent
+      throw new Error(response);
+    }
+    return fail("response", "an object", response);
+  }
+
+  switch (transactionType) {
+    case "transfer":
+      return {
+        transaction_type: "transfer",
+        response: {
+          recipientAddress: requireString(response, "recipientAddress", "response"),
+          chain: requireString(response, "chain", "response"),
+          amount: requireAmount(response, "amount", "response"),
+          token: requireAddress(response, "token", "response"),
+        },
+      };
+    case "swap":
+      return {
+        transaction_type: "swap",
+        response: {
+          chain: requireString(response, "chain", "response"),
+          amount: requireAmount(response, "amount", "response"),
+          fromAsset: requireAddress(response, "fromAsset", "response"),
+          toAsset: requireAddress(response, "toAsset", "response"),
+        },
+      };
+    case "wrap":
+    case "unwrap":
+      return {
+        transaction_type: transactionType === "wrap" ? "wrap" : "unwrap",
+        response: {
+          chain: requireString(response, "chain", "response"),
+          amount: requireAmount(response, "amount", "response"),
+        },
+      };
+    case "buy":
+      return {
+        transaction_type: "buy",
+        response: {
+          cryptoAsset: requireString(response, "cryptoAsset", "response"),
+          amount: requireAmount(response, "amount", "response"),
+          chain: requireString(response, "chain", "response"),
+          paymentMethod: requireString(response, "paymentMethod", "response"),
+        },
+      };
+    case "remittance":
+      return {
+        transaction_type: "remittance",
+        response: parseRemittance(response, "response"),
+      };
+    default:
+      return fail(
+        "transaction_type",
+        'one of "transfer", "swap", "wrap", "unwrap", "buy" or "remittance"',
+        transactionType
+      );
+  }
+}
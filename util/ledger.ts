@@ -0,0 +1,346 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+
+// IndexedDB-backed record of every transaction the user has made through the app
+
+// Wraps and unwraps are both "wrap", told apart by fromAsset and toAsset
+export type TransactionType = "transfer" | "swap" | "wrap" | "buy" | "remittance";
+export type TransactionStatus = "pending" | "completed" | "failed";
+
+export interface StatusChange {
+  status: TransactionStatus;
+  timestamp: number;
+  message: string;
+}
+
+export interface TransactionHistoryItem {
+  id: string;
+  timestamp: number;
+  type: TransactionType;
+  status: TransactionStatus;
+  data: {
+    transactionHash?: string;
+    chain?: string;
+    fromAsset?: string;
+    toAsset?: string;
+    amount?: string;
+    token?: string;
+    recipientAddress?: string;
+    orderId?: string;
+    moonpayUrl?: string;
+    exchangeRates?: any;
+    fees?: any;
+    // Filled in once the transaction is mined
+    blockNumber?: number;
+    gasUsed?: string;
+    // Effective network fee, e.g. "0.00042 ETH"
+    networkFee?: string;
+    // Sender and nonce, used to tell a replaced transaction from a dropped one
+    from?: string;
+    nonce?: number;
+    // Earlier hashes of a transaction that was sped up or cancelled, oldest first
+    replacedHashes?: string[];
+    // How the current hash replaced the earlier ones
+    replacement?: "speed_up" | "cancel";
+    // Why a transaction that was never mined, or an order that never filled, failed
+    outcome?: "replaced" | "dropped" | "cancelled" | "expired";
+    // CoW orders: buy amount quoted before slippage, in the token's smallest
+    // unit, and the Unix time in seconds the order expires
+    quotedBuyAmount?: string;
+    validTo?: number;
+    // CoW orders, once they have (partly) filled, formatted with the token symbol
+    received?: string;
+    surplus?: string;
+    filledPercent?: number;
+    // Remittance steps: id of the entry recorded when the remittance started
+    remittanceId?: string;
+  };
+  message: string;
+  // Every status the entry has been in, oldest first. Missing on entries
+  // saved before timelines were recorded.
+  timeline?: StatusChange[];
+}
+
+export type NewTransaction = Omit<TransactionHistoryItem, "id" | "timestamp" | "timeline">;
+
+export interface TransactionUpdate {
+  status?: TransactionStatus;
+  message?: string;
+  // Merged into the stored data, so unspecified fields are kept
+  data?: Partial<TransactionHistoryItem["data"]>;
+}
+
+export interface LedgerFilter {
+  types?: TransactionType[];
+  statuses?: TransactionStatus[];
+  chain?: string;
+  // Token address, matched against the transferred, sold, bought or purchased token
+  token?: string;
+  recipient?: string;
+  // Inclusive timestamp bounds in milliseconds
+  from?: number;
+  to?: number;
+  // Case-insensitive text to look for in the message
+  search?: string;
+}
+
+export interface LedgerPage {
+  items: TransactionHistoryItem[];
+  // Number of entries matching the filter across all pages
+  total: number;
+}
+
+const DB_NAME = "brinco";
+const DB_VERSION = 1;
+const STORE = "transactions";
+const LEGACY_HISTORY_KEY = "brinco_transaction_history";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+// Writes run one after another so an update never overtakes the entry it updates
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+const enqueueWrite = <T>(write: () => Promise<T>): Promise<T> => {
+  const result = writeQueue.then(write);
+  writeQueue = result.catch(() => undefined);
+  return result;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex("timestamp", "timestamp");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if opening failed, e.g. in a private window
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const getStore = async (mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+  const db = await openDatabase();
+  return db.transaction(STORE, mode).objectStore(STORE);
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Nested objects such as fees are merged key by key; undefined never overwrites
+const mergeData = <T extends Record<string, unknown>>(base: T, updates: Partial<T>): T => {
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === undefined) continue;
+    const current = result[key];
+    result[key] = isPlainObject(current) && isPlainObject(value) ? mergeData(current, value) : value;
+  }
+  return result as T;
+};
+
+const includesText = (value: string | undefined, text: string) =>
+  value !== undefined && value.toLowerCase().includes(text.toLowerCase());
+
+const matches = (item: TransactionHistoryItem, filter: LedgerFilter): boolean => {
+  const { data } = item;
+  if (filter.types?.length && !filter.types.includes(item.type)) return false;
+  if (filter.statuses?.length && !filter.statuses.includes(item.status)) return false;
+  if (filter.chain && data.chain !== filter.chain) return false;
+  if (filter.token) {
+    const token = filter.token.toLowerCase();
+    const tokens = [data.token, data.fromAsset, data.toAsset].map((value) => value?.toLowerCase());
+    if (!tokens.includes(token)) return false;
+  }
+  if (filter.recipient && !includesText(data.recipientAddress, filter.recipient)) return false;
+  if (filter.search && !includesText(item.message, filter.search)) return false;
+  return true;
+};
+
+/**
+ * Creates a ledger entry and starts saving it
+ * @param item Transaction to record
+ * @returns The entry, whose id callers pass to `updateTransaction`, and a
+ * promise that settles once it is stored
+ */
+export function createTransaction(item: NewTransaction): {
+  entry: TransactionHistoryItem;
+  saved: Promise<void>;
+} {
+  const timestamp = Date.now();
+  const entry: TransactionHistoryItem = {
+    ...item,
+    id: `tx-${timestamp}-${Math.random().toString(36).substring(2, 9)}`,
+    timestamp,
+    timeline: [{ status: item.status, timestamp, message: item.message }],
+  };
+  return { entry, saved: putTransaction(entry) };
+}
+
+/**
+ * Adds a transaction to the ledger, replacing any entry with the same id
+ * @param item Transaction to store
+ */
+export function putTransaction(item: TransactionHistoryItem): Promise<void> {
+  return enqueueWrite(async () => {
+    const store = await getStore("readwrite");
+    await promisify(store.put(item));
+  });
+}
+
+/**
+ * Reads a single transaction from the ledger
+ * @param id Transaction id
+ * @returns The transaction, or undefined if there is none with this id
+ */
+export async function getTransaction(id: string): Promise<TransactionHistoryItem | undefined> {
+  const store = await getStore("readonly");
+  return promisify<TransactionHistoryItem | undefined>(store.get(id));
+}
+
+/**
+ * Applies an update to a stored transaction. `data` is deep-merged, and a
+ * status change is appended to the entry's timeline.
+ * @param id Transaction id
+ * @param updates Status, message and data to change
+ * @returns The updated entry
+ * @throws Error if there is no entry with this id
+ */
+export function updateTransaction(
+  id: string,
+  updates: TransactionUpdate
+): Promise<TransactionHistoryItem> {
+  return enqueueWrite(async () => {
+    const store = await getStore("readwrite");
+    const existing = await promisify<TransactionHistoryItem | undefined>(store.get(id));
+    if (!existing) {
+      throw new Error(`No transaction with id ${id}`);
+    }
+
+    const updated: TransactionHistoryItem = {
+      ...existing,
+      status: updates.status ?? existing.status,
+      message: updates.message ?? existing.message,
+      data: updates.data ? mergeData(existing.data, updates.data) : existing.data,
+    };
+    if (updates.status && updates.status !== existing.status) {
+      updated.timeline = [
+        ...(existing.timeline ?? []),
+        { status: updates.status, timestamp: Date.now(), message: updated.message },
+      ];
+    }
+
+    await promisify(store.put(updated));
+    return updated;
+  });
+}
+
+/**
+ * Returns one page of transactions matching a filter, newest first
+ * @param filter Criteria every returned entry must meet
+ * @param offset Number of matching entries to skip
+ * @param limit Maximum number of entries to return
+ * @returns The page and the total number of matches
+ */
+export async function queryTransactions(
+  filter: LedgerFilter = {},
+  offset = 0,
+  limit = 10
+): Promise<LedgerPage> {
+  // IDBKeyRange.bound throws on an inverted range, and nothing can match one
+  if (filter.from !== undefined && filter.to !== undefined && filter.from > filter.to) {
+    return { items: [], total: 0 };
+  }
+  const store = await getStore("readonly");
+  const range =
+    filter.from !== undefined || filter.to !== undefined
+      ? IDBKeyRange.bound(filter.from ?? 0, filter.to ?? Number.MAX_SAFE_INTEGER)
+      : undefined;
+
+  return new Promise((resolve, reject) => {
+    const items: TransactionHistoryItem[] = [];
+    let total = 0;
+    const request = store.index("timestamp").openCursor(range, "prev");
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve({ items, total });
+        return;
+      }
+      const item = cursor.value as TransactionHistoryItem;
+      if (matches(item, filter)) {
+        if (total >= offset && items.length < limit) {
+          items.push(item);
+        }
+        total++;
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Counts every transaction in the ledger
+ */
+export async function countTransactions(): Promise<number> {
+  const store = await getStore("readonly");
+  return promisify(store.count());
+}
+
+/**
+ * Moves the history kept in localStorage by earlier versions into the ledger,
+ * then removes it so it is only imported once
+ */
+export async function migrateLegacyHistory(): Promise<void> {
+  if (typeof window === "undefined") return;
+  const stored = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!stored) return;
+
+  let items: TransactionHistoryItem[];
+  try {
+    items = JSON.parse(stored);
+  } catch (e) {
+    console.error("Failed to parse transaction history:", e);
+    return;
+  }
+
+  const store = await getStore("readwrite");
+  await Promise.all(items.map((item) => promisify(store.put(item))));
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+}
@@ -0,0 +1,92 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+
+// Batched contract reads through Multicall3, so reading many values from a
+// chain costs one RPC request instead of one per value
+
+import { ethers } from "ethers";
+import { Chain } from "./chains";
+
+export interface MulticallCall {
+  target: string;
+  callData: string;
+}
+
+export interface MulticallResult {
+  success: boolean;
+  returnData: string;
+}
+
+// Deployed at the same address on nearly every EVM chain (https://multicall3.com)
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+  "function getEthBalance(address addr) view returns (uint256 balance)",
+];
+
+// Keeps each eth_call well under the gas and response size limits of public RPCs
+const MAX_CALLS_PER_BATCH = 500;
+
+const multicallInterface = new ethers.utils.Interface(MULTICALL3_ABI);
+
+/**
+ * Returns the chain's Multicall3 address
+ * @param chain Chain to look up
+ */
+export const getMulticallAddress = (chain: Chain): string => chain.multicall3 ?? MULTICALL3_ADDRESS;
+
+/**
+ * Builds a call that reads an address's native currency balance through Multicall3 itself
+ * @param chain Chain the call is for
+ * @param owner Address to read
+ */
+export const nativeBalanceCall = (chain: Chain, owner: string): MulticallCall => ({
+  target: getMulticallAddress(chain),
+  callData: multicallInterface.encodeFunctionData("getEthBalance", [owner]),
+});
+
+/**
+ * Runs read-only calls in one `eth_call` per batch of calls. A call that
+ * reverts is reported as unsuccessful instead of failing the others.
+ * @param provider Provider on the chain
+ * @param chain Chain the calls are for
+ * @param calls Calls to run
+ * @returns One result per call, in order
+ * @throws Error if the multicall itself fails, e.g. when the RPC is down
+ */
+export async function multicall(
+  provider: ethers.providers.Provider,
+  chain: Chain,
+  calls: MulticallCall[]
+): Promise<MulticallResult[]> {
+  const contract = new ethers.Contract(getMulticallAddress(chain), MULTICALL3_ABI, provider);
+  const results: MulticallResult[] = [];
+  for (let start = 0; start < calls.length; start += MAX_CALLS_PER_BATCH) {
+    const batch = calls.slice(start, start + MAX_CALLS_PER_BATCH).map((call) => ({ ...call, allowFailure: true }));
+    const returned: MulticallResult[] = await contract.callStatic.aggregate3!(batch);
+    results.push(...returned.map(({ success, returnData }) => ({ success, returnData })));
+  }
+  return results;
+}
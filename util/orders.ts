@@ -0,0 +1,270 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+
+// CoW Protocol orders after they have been placed: watching them fill,
+// cancelling them and listing the ones still open
+
+import { ethers } from "ethers";
+import {
+  EnrichedOrder,
+  OrderSigningUtils,
+  OrderStatus,
+  SupportedChainId,
+} from "@cowprotocol/cow-sdk";
+import { Chain, getChains, requireChain } from "./chains";
+import { resolveToken } from "./tokens";
+import { WalletProvider, createOrderBookApi, getReadProvider, sleep } from "./utils";
+
+export interface CowOrderState {
+  status: OrderStatus;
+  // Settlement transaction, once the order has been filled
+  transactionHash?: string;
+  sellAmount: string;
+  buyAmount: string;
+  executedSellAmount: string;
+  executedBuyAmount: string;
+  // Share of the sell amount traded so far, from 0 to 1
+  filled: number;
+  // Unix time in seconds after which the order expires
+  validTo: number;
+}
+
+export interface OpenOrder {
+  chain: string;
+  chainId: number;
+  orderId: string;
+  sellToken: string;
+  buyToken: string;
+  sellAmount: string;
+  buyAmount: string;
+  filled: number;
+  validTo: number;
+}
+
+export interface OrderFill {
+  // Buy token received so far, formatted with its symbol
+  received: string;
+  // Received amount above (or, if negative, below) the quote for the filled share
+  surplus?: string;
+  filledPercent: number;
+}
+
+export interface WatchOrderOptions {
+  // Called whenever the status or filled share changes
+  onUpdate?: (state: CowOrderState) => void;
+  intervalMs?: number;
+  signal?: AbortSignal;
+}
+
+// Solvers may settle an order a little after its validTo, so keep watching briefly
+const EXPIRY_GRACE_SECONDS = 60;
+
+// Failed order book reads are retried with a doubling delay up to this long
+const MAX_RETRY_DELAY_MS = 30_000;
+// Attempts at the first read, before the order's expiry is known
+const INITIAL_READ_ATTEMPTS = 3;
+
+const FILL_PRECISION = 10_000;
+
+const isCowChain = (chain: Chain) => Object.values(SupportedChainId).includes(chain.chainId);
+
+const filledShare = (order: EnrichedOrder): number => {
+  const sellAmount = ethers.BigNumber.from(order.sellAmount);
+  if (sellAmount.isZero()) return 0;
+  const executed = ethers.BigNumber.from(order.executedSellAmountBeforeFees);
+  return executed.mul(FILL_PRECISION).div(sellAmount).toNumber() / FILL_PRECISION;
+};
+
+/**
+ * Reads the current state of a CoW Protocol order without waiting
+ * @param orderId Order UID
+ * @param chain Chain the order was placed on
+ * @returns The order's status, executed amounts and, if filled, the settlement transaction hash
+ */
+export async function getOrderState(orderId: string, chain: string): Promise<CowOrderState> {
+  const { chainId } = requireChain(chain);
+
+  const orderBookApi = createOrderBookApi(chainId);
+  const order = await orderBookApi.getOrder(orderId);
+  const state: CowOrderState = {
+    status: order.status,
+    sellAmount: order.sellAmount,
+    buyAmount: order.buyAmount,
+    executedSellAmount: order.executedSellAmountBeforeFees,
+    executedBuyAmount: order.executedBuyAmount,
+    filled: filledShare(order),
+    validTo: order.validTo,
+  };
+  if (order.status === OrderStatus.FULFILLED) {
+    const trades = await orderBookApi.getTrades({ orderUid: orderId });
+    const settled = trades.find((trade) => trade.txHash);
+    state.transactionHash = settled?.txHash ?? undefined;
+  }
+  return state;
+}
+
+/**
+ * Polls an order until it leaves the open state, its validity runs out or the
+ * signal aborts. Failed reads are retried with backoff until then. The order
+ * book marks expired orders on its own, so a reload can pick up where this
+ * left off.
+ * @param orderId Order UID
+ * @param chain Chain the order was placed on
+ * @returns The last state seen, which is still open if watching stopped early
+ * @throws Error if the order could not be read at all
+ */
+export async function watchOrder(
+  orderId: string,
+  chain: string,
+  { onUpdate, intervalMs = 3000, signal }: WatchOrderOptions = {}
+): Promise<CowOrderState> {
+  const backoff = (failures: number) => Math.min(intervalMs * 2 ** failures, MAX_RETRY_DELAY_MS);
+
+  let state: CowOrderState | undefined;
+  for (let attempt = 1; !state; attempt++) {
+    try {
+      state = await getOrderState(orderId, chain);
+    } catch (error) {
+      if (attempt >= INITIAL_READ_ATTEMPTS || signal?.aborted) throw error;
+      console.warn(`Could not read order ${orderId}, retrying:`, error);
+      await sleep(backoff(attempt), signal);
+    }
+  }
+  onUpdate?.(state);
+
+  const deadline = (state.validTo + EXPIRY_GRACE_SECONDS) * 1000;
+  let failures = 0;
+  while (state.status === OrderStatus.OPEN && Date.now() < deadline && !signal?.aborted) {
+    await sleep(failures === 0 ? intervalMs : backoff(failures), signal);
+    if (signal?.aborted) break;
+    let next: CowOrderState;
+    try {
+      next = await getOrderState(orderId, chain);
+      failures = 0;
+    } catch (error) {
+      failures++;
+      console.warn(`Could not read order ${orderId}, retrying:`, error);
+      continue;
+    }
+    if (next.status !== state.status || next.filled !== state.filled) {
+      onUpdate?.(next);
+    }
+    state = next;
+  }
+  return state;
+}
+
+/**
+ * Cancels an open order off-chain by signing a cancellation for the order book.
+ * Solvers stop considering it, but a settlement already in flight can still land.
+ * @param wallet Wallet that placed the order
+ * @param chain Chain the order was placed on
+ * @param orderId Order UID
+ */
+export async function cancelOrder(wallet: WalletProvider, chain: string, orderId: string): Promise<void> {
+  const { chainId } = requireChain(chain);
+  await wallet.switchChain(chainId);
+  const signer = (await wallet.getEthersProvider()).getSigner();
+
+  const { signature, signingScheme } = await OrderSigningUtils.signOrderCancellations(
+    [orderId],
+    chainId,
+    signer
+  );
+  await createOrderBookApi(chainId).sendSignedOrderCancellations({
+    orderUids: [orderId],
+    signature,
+    signingScheme,
+  });
+}
+
+const listChainOpenOrders = async (owner: string, chain: Chain): Promise<OpenOrder[]> => {
+  const orders = await createOrderBookApi(chain.chainId).getOrders({ owner });
+  return orders
+    .filter((order) => order.status === OrderStatus.OPEN)
+    .map((order) => ({
+      chain: chain.key,
+      chainId: chain.chainId,
+      orderId: order.uid,
+      sellToken: order.sellToken,
+      buyToken: order.buyToken,
+      sellAmount: order.sellAmount,
+      buyAmount: order.buyAmount,
+      filled: filledShare(order),
+      validTo: order.validTo,
+    }));
+};
+
+/**
+ * Lists the owner's open orders from the order book on every configured chain
+ * CoW Protocol supports. A chain whose order book fails is left out.
+ * @param owner Wallet address
+ * @returns Open orders, grouped by chain in configuration order
+ */
+export async function listOpenOrders(owner: string): Promise<OpenOrder[]> {
+  const perChain = await Promise.all(
+    getChains()
+      .filter(isCowChain)
+      .map((chain) =>
+        listChainOpenOrders(owner, chain).catch((error) => {
+          console.error(`Failed to list orders on ${chain.key}:`, error);
+          return [];
+        })
+      )
+  );
+  return perChain.flat();
+}
+
+/**
+ * Describes how much of an order has filled and how it compares to its quote
+ * @param chain Chain the order was placed on
+ * @param buyToken Token the order buys
+ * @param state Current order state
+ * @param quotedBuyAmount Buy amount the order was quoted at, before slippage
+ */
+export async function describeOrderFill(
+  chain: string,
+  buyToken: string,
+  state: CowOrderState,
+  quotedBuyAmount?: string
+): Promise<OrderFill> {
+  const { chainId } = requireChain(chain);
+  const token = await resolveToken(getReadProvider(chain), chainId, buyToken);
+  const format = (amount: ethers.BigNumber) =>
+    `${ethers.utils.formatUnits(amount, token.decimals)} ${token.symbol}`;
+
+  const received = ethers.BigNumber.from(state.executedBuyAmount);
+  const fill: OrderFill = {
+    received: format(received),
+    filledPercent: Math.round(state.filled * 10_000) / 100,
+  };
+  if (quotedBuyAmount !== undefined && !received.isZero()) {
+    // Compare against the quote scaled down to the share that actually traded
+    const quoted = ethers.BigNumber.from(quotedBuyAmount)
+      .mul(state.executedSellAmount)
+      .div(state.sellAmount);
+    fill.surplus = format(received.sub(quoted));
+  }
+  return fill;
+}
@@ -0,0 +1,149 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+
+// Balances of the native currency and every registry token across the
+// configured chains, read with one multicall per chain and valued in USD
+
+import { ethers } from "ethers";
+import { Chain, getChain, getChains } from "./chains";
+import { ERC20_ABI, getReadProvider } from "./utils";
+import { NATIVE_TOKEN_ADDRESS, TokenMetadata, getToken, getTokensForChain, loadRemoteTokenLists } from "./tokens";
+import { multicall, nativeBalanceCall } from "./multicall";
+import { getUsdPrice } from "./prices";
+
+export interface PortfolioBalance {
+  token: TokenMetadata;
+  balance: ethers.BigNumber;
+  // Balance in whole tokens
+  formatted: string;
+  // Left out on testnets and when no price is available
+  usdValue?: number;
+}
+
+export interface ChainPortfolio {
+  chain: string;
+  chainName: string;
+  // Non-zero balances, native currency first
+  balances: PortfolioBalance[];
+  // Why the chain could not be read; its balances are then empty
+  error?: string;
+}
+
+const erc20Interface = new ethers.utils.Interface(ERC20_ABI);
+
+const valueInUsd = async (chain: Chain, token: TokenMetadata, formatted: string): Promise<number | undefined> => {
+  // Testnet tokens share symbols with real ones but are worth nothing
+  if (chain.testnet) return undefined;
+  const price = token.fiatPeg === "USD" ? 1 : await getUsdPrice(token.symbol);
+  return price === undefined ? undefined : Number(formatted) * price;
+};
+
+/**
+ * Reads an owner's native and registry token balances on one chain in a single multicall
+ * @param owner Wallet address
+ * @param chainKey Chain key, e.g. "base"
+ * @returns The chain's non-zero balances with their USD value
+ * @throws Error if the chain is not configured or its RPC cannot be read
+ */
+export async function readChainPortfolio(owner: string, chainKey: string): Promise<ChainPortfolio> {
+  const chain = getChain(chainKey);
+  if (!chain) {
+    throw new Error(`Unsupported chain: ${chainKey}`);
+  }
+  const native = getToken(chain.chainId, NATIVE_TOKEN_ADDRESS)!;
+  const tokens = [native, ...getTokensForChain(chain.chainId)];
+  const results = await multicall(
+    getReadProvider(chain.key),
+    chain,
+    tokens.map((token) =>
+      token.isNative
+        ? nativeBalanceCall(chain, owner)
+        : { target: token.address, callData: erc20Interface.encodeFunctionData("balanceOf", [owner]) }
+    )
+  );
+
+  const held = tokens.flatMap((token, i) => {
+    const result = results[i];
+    // Tokens that revert or return nothing, e.g. not deployed on this chain, are skipped
+    if (!result?.success || result.returnData === "0x") return [];
+    // getEthBalance returns a single uint256 just like balanceOf
+    const balance = ethers.BigNumber.from(erc20Interface.decodeFunctionResult("balanceOf", result.returnData)[0]);
+    return balance.isZero() ? [] : [{ token, balance, formatted: ethers.utils.formatUnits(balance, token.decimals) }];
+  });
+
+  const balances = await Promise.all(
+    held.map(async (entry): Promise<PortfolioBalance> => {
+      const usdValue = await valueInUsd(chain, entry.token, entry.formatted);
+      return usdValue === undefined ? entry : { ...entry, usdValue };
+    })
+  );
+  return { chain: chain.key, chainName: chain.name, balances };
+}
+
+/**
+ * Reads an owner's balances on every configured chain. A chain whose RPC
+ * fails is reported with an error rather than failing the whole portfolio.
+ * @param owner Wallet address
+ * @returns One entry per chain, in configuration order
+ */
+export async function loadPortfolio(owner: string): Promise<ChainPortfolio[]> {
+  await loadRemoteTokenLists();
+  return Promise.all(
+    getChains().map((chain) =>
+      readChainPortfolio(owner, chain.key).catch((error): ChainPortfolio => {
+        console.error(`Failed to read balances on ${chain.key}:`, error);
+        return {
+          chain: chain.key,
+          chainName: chain.name,
+          balances: [],
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+      })
+    )
+  );
+}
+
+/**
+ * Sums the USD value of every priced balance
+ * @param portfolio Balances per chain
+ */
+export const getPortfolioUsdValue = (portfolio: ChainPortfolio[]): number =>
+  portfolio.reduce(
+    (total, chain) => total + chain.balances.reduce((sum, entry) => sum + (entry.usdValue ?? 0), 0),
+    0
+  );
+
+/**
+ * Calls back whenever a chain has a new block
+ * @param chainKey Chain key, e.g. "base"
+ * @param onBlock Called with each new block number
+ * @returns A function that stops watching
+ */
+export function watchBlocks(chainKey: string, onBlock: (blockNumber: number) => void): () => void {
+  const provider = getReadProvider(chainKey);
+  provider.on("block", onBlock);
+  return () => {
+    provider.off("block", onBlock);
+  };
+}
@@ -0,0 +1,444 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+// Read-only resolution of an intent into what the user is about to sign
+
+import { ethers } from "ethers";
+import { ERC20_ABI, WalletProvider, getMainnetProvider, getReadProvider, getTokenBalance } from "./utils";
+import { ExecutableIntent } from "./executor";
+import { SwapVenue } from "./config";
+import { getChainId, requireChain } from "./chains";
+import { NATIVE_TOKEN_ADDRESS, isNativeToken, resolveToken } from "./tokens";
+import { simulateTransaction } from "./simulation";
+import { FEE_SPEEDS, FeeSpeed, estimateFees } from "./fees";
+import { formatUsd, getUsdPrice } from "./prices";
+import { supportsPermit } from "./approvals";
+import { getSwapQuotes, getVenueAdapter } from "./quotes";
+import { populateWrap } from "./wrap";
+import { Contact, ResolvedRecipient, isFirstTimeRecipient, loadAddressBook, resolveRecipient } from "./addressBook";
+import { RecipientCheck, checkRecipient, describeRecipientRisks } from "./recipients";
+import {
+  HIGH_SLIPPAGE,
+  PriceImpactTier,
+  SlippageSetting,
+  formatSlippage,
+  getPriceImpactTier,
+  resolveSlippage,
+} from "./slippage";
+
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface NetworkCost {
+  cost: string;
+  // Approximate value in USD, when a price is available
+  usd?: string;
+}
+
+// One venue's quote, formatted for display
+export interface QuoteOption {
+  venue: SwapVenue;
+  venueName: string;
+  // Symbols along the route, e.g. "USDC → WETH → DAI"
+  route: string;
+  expectedOutput: string;
+  // Output after the network fee, when it could be priced in the output token
+  netOutput?: string;
+  networkFee: string;
+}
+
+// Choices the user made in the review that change what is previewed
+export interface PreviewChoices {
+  // Swap venue to preview instead of the best quote
+  venue?: SwapVenue;
+  slippage?: SlippageSetting;
+}
+
+export interface IntentPreview {
+  intent: ExecutableIntent;
+  chain: string;
+  chainId: number;
+  amount: string;
+  token?: TokenInfo;
+  recipient?: {
+    input: string;
+    address?: string;
+    // Nickname of the saved contact the input matched
+    contact?: string;
+    // Nothing has been sent to this address from the app before
+    firstTime?: boolean;
+    // Reverse ENS, contract, lookalike and denylist checks on the resolved address
+    check?: RecipientCheck;
+    error?: string;
+  };
+  swap?: {
+    // Venue the swap will be sent to; unset when no venue could quote it
+    venue?: SwapVenue;
+    venueName?: string;
+    outputToken: TokenInfo;
+    expectedOutput?: string;
+    minimumReceived?: string;
+    // Tolerance applied to the minimum received, as a fraction, and the setting it came from
+    slippage: number;
+    slippageSetting: SlippageSetting;
+    // How far the swap moves the price, for venues that report it
+    priceImpact?: number;
+    priceImpactTier?: PriceImpactTier;
+    // Every venue that quoted the swap, best net output first
+    quotes: QuoteOption[];
+  };
+  // What a wrap or unwrap returns, one for one with the amount
+  wrap?: {
+    outputToken: TokenInfo;
+  };
+  approval?: {
+    spender: string;
+    spenderName: string;
+    // Amount an exact approval would allow, in whole tokens
+    exactAmount: string;
+    // Granted by a signed EIP-2612 permit instead of an approval transaction
+    permit: boolean;
+  };
+  gas?: {
+    units: string;
+    cost: string;
+  };
+  // Expected network cost at each fee preset
+  fees?: Record<FeeSpeed, NetworkCost>;
+  paymentMethod?: string;
+  // Decoded reason the transaction would revert; blocks confirmation
+  revert?: string;
+  warnings: string[];
+}
+
+const readTokenInfo = async (
+  provider: ethers.providers.Provider,
+  chainId: number,
+  address: string
+): Promise<TokenInfo> => {
+  const { symbol, decimals } = await resolveToken(provider, chainId, address);
+  return { address, symbol, decimals };
+};
+
+// Simulates the transaction and records either its gas cost or why it would revert
+const simulate = async (
+  preview: IntentPreview,
+  provider: ethers.providers.Provider,
+  tx: ethers.providers.TransactionRequest,
+  label: string
+) => {
+  try {
+    const simulation = await simulateTransaction(provider, tx);
+    if (simulation.success) {
+      preview.fees = await estimateCost(provider, preview.chain, simulation.gasLimit);
+      preview.gas = { units: simulation.gasLimit.toString(), cost: preview.fees.normal.cost };
+    } else {
+      preview.revert = simulation.reason;
+    }
+  } catch (error) {
+    preview.warnings.push(`${label} failed: ${reason(error)}`);
+  }
+};
+
+const estimateCost = async (
+  provider: ethers.providers.Provider,
+  chain: string,
+  units: ethers.BigNumber
+): Promise<Record<FeeSpeed, NetworkCost>> => {
+  const { nativeCurrency } = requireChain(chain);
+  const [estimates, price] = await Promise.all([
+    Promise.all(FEE_SPEEDS.map((speed) => estimateFees(provider, speed))),
+    getUsdPrice(nativeCurrency.symbol),
+  ]);
+
+  const costs = {} as Record<FeeSpeed, NetworkCost>;
+  for (const { speed, expectedFeePerGas } of estimates) {
+    const amount = ethers.utils.formatUnits(units.mul(expectedFeePerGas), nativeCurrency.decimals);
+    costs[speed] = { cost: `${amount} ${nativeCurrency.symbol}` };
+    if (price !== undefined) costs[speed].usd = formatUsd(amount, price);
+  }
+  return costs;
+};
+
+const reason = (error: unknown): string => {
+  const err = error as { reason?: unknown; message?: unknown } | null;
+  if (typeof err?.reason === "string") return err.reason;
+  if (typeof err?.message === "string") return err.message;
+  return "Unknown error";
+};
+
+/**
+ * Resolves an intent into a human-readable preview without sending anything
+ * @param intent Validated transfer, swap, wrap or buy intent
+ * @param wallets Connected wallets; the first one is the signer being previewed
+ * @param choices Venue and slippage picked in the review; the best venue and auto slippage by default
+ * @returns Recipient, token, amounts, expected gas and any approval that will be requested
+ */
+export async function previewIntent(
+  intent: ExecutableIntent,
+  wallets: WalletProvider[],
+  { venue, slippage: slippageSetting = { mode: "auto" } }: PreviewChoices = {}
+): Promise<IntentPreview> {
+  if (!wallets[0]) {
+    throw new Error("No wallet connected");
+  }
+
+  const { chain, amount } = intent.response;
+  const chainId = getChainId(chain);
+  if (chainId === undefined) {
+    throw new Error(`Unsupported chain: ${chain}`);
+  }
+
+  const preview: IntentPreview = { intent, chain, chainId, amount, warnings: [] };
+  if (intent.transaction_type === "buy") {
+    preview.paymentMethod = intent.response.paymentMethod;
+    return preview;
+  }
+
+  await wallets[0].switchChain(chainId);
+  const provider = await wallets[0].getEthersProvider();
+  const owner = wallets[0].address;
+
+  if (intent.transaction_type === "transfer") {
+    const { recipientAddress, token } = intent.response;
+    preview.token = await readTokenInfo(provider, chainId, token);
+    const value = ethers.utils.parseUnits(amount, preview.token.decimals);
+
+    preview.recipient = { input: recipientAddress };
+    const contacts = await loadAddressBook(owner).catch((error): Contact[] => {
+      console.error("Failed to read the address book:", error);
+      return [];
+    });
+    let resolved: ResolvedRecipient;
+    try {
+      // Nicknames from the address book are resolved here, never by the wallet
+      resolved = await resolveRecipient(contacts, recipientAddress);
+    } catch (error) {
+      preview.recipient.error = reason(error);
+      preview.warnings.push(preview.recipient.error);
+      return preview;
+    }
+    const firstTime = await isFirstTimeRecipient(resolved.address).catch(() => false);
+    preview.recipient = { ...preview.recipient, ...resolved, firstTime };
+    try {
+      const check = await checkRecipient(resolved.address, {
+        provider,
+        ensProvider: getMainnetProvider(),
+        chainId,
+        contacts,
+      });
+      preview.recipient.check = check;
+      preview.warnings.push(...describeRecipientRisks(check, requireChain(chain).name));
+      if (check.denylisted) {
+        preview.recipient.error = "Recipient is on the denylist";
+        return preview;
+      }
+    } catch (error) {
+      preview.warnings.push(`Could not check the recipient address: ${reason(error)}`);
+    }
+    if (firstTime) {
+      preview.warnings.push(
+        "This is the first time you are sending to this address. Check it carefully: transfers can't be reversed."
+      );
+    }
+
+    const balance = await getTokenBalance(getReadProvider(chain), token, owner);
+    if (balance.lt(value)) {
+      preview.warnings.push(
+        `Your balance of ${ethers.utils.formatUnits(balance, preview.token.decimals)} ${preview.token.symbol} is lower than the amount being sent.`
+      );
+      return preview;
+    }
+
+    const contract = new ethers.Contract(token, ERC20_ABI, provider);
+    const transfer: ethers.PopulatedTransaction = isNativeToken(token)
+      ? { to: resolved.address, value }
+      : await contract.populateTransaction.transfer!(resolved.address, value);
+    await simulate(preview, provider, { ...transfer, from: owner }, "Gas estimation");
+    return preview;
+  }
+
+  if (intent.transaction_type === "wrap" || intent.transaction_type === "unwrap") {
+    const wrapping = intent.transaction_type === "wrap";
+    const [native, wrapped] = await Promise.all([
+      readTokenInfo(provider, chainId, NATIVE_TOKEN_ADDRESS),
+      readTokenInfo(provider, chainId, requireChain(chain).weth),
+    ]);
+    preview.token = wrapping ? native : wrapped;
+    preview.wrap = { outputToken: wrapping ? wrapped : native };
+    const value = ethers.utils.parseUnits(amount, preview.token.decimals);
+
+    const balance = await getTokenBalance(getReadProvider(chain), preview.token.address, owner);
+    if (balance.lt(value)) {
+      preview.warnings.push(
+        `Your balance of ${ethers.utils.formatUnits(balance, preview.token.decimals)} ${preview.token.symbol} is lower than the amount being ${wrapping ? "wrapped" : "unwrapped"}.`
+      );
+      return preview;
+    }
+
+    await simulate(
+      preview,
+      provider,
+      { ...(await populateWrap(chain, intent.transaction_type, value)), from: owner },
+      "Gas estimation"
+    );
+    return preview;
+  }
+
+  const { fromAsset, toAsset } = intent.response;
+  const [fromToken, toToken] = await Promise.all([
+    readTokenInfo(provider, chainId, fromAsset),
+    readTokenInfo(provider, chainId, toAsset),
+  ]);
+  preview.token = fromToken;
+  const amountIn = ethers.utils.parseUnits(amount, fromToken.decimals);
+  const { nativeCurrency } = requireChain(chain);
+  const slippage = resolveSlippage(
+    slippageSetting,
+    await resolveToken(provider, chainId, fromAsset),
+    await resolveToken(provider, chainId, toAsset)
+  );
+  preview.swap = { outputToken: toToken, slippage, slippageSetting, quotes: [] };
+  if (slippage > HIGH_SLIPPAGE) {
+    preview.warnings.push(
+      `A ${formatSlippage(slippage)} slippage tolerance lets the swap settle far below the quote, and makes it a target for front-running.`
+    );
+  }
+
+  const request = { chain, owner, fromAsset, toAsset, amountIn, slippage };
+  const { quotes, failures } = await getSwapQuotes(provider, request);
+  const symbols = await Promise.all(
+    quotes.map((quote) =>
+      // Routes run through the wrapped native token, but the user sends or receives the currency itself
+      Promise.all(
+        [fromAsset, ...quote.path.slice(1, -1), toAsset].map(
+          async (token) => (await readTokenInfo(provider, chainId, token)).symbol
+        )
+      )
+    )
+  );
+  preview.swap.quotes = quotes.map((quote, i) => {
+    const option: QuoteOption = {
+      venue: quote.venue,
+      venueName: quote.venueName,
+      route: symbols[i]!.join(" → "),
+      expectedOutput: ethers.utils.formatUnits(quote.amountOut, toToken.decimals),
+      networkFee: quote.gasless
+        ? "Gasless"
+        : `${ethers.utils.formatUnits(quote.gasCost, nativeCurrency.decimals)} ${nativeCurrency.symbol}`,
+    };
+    if (quote.netOutput) option.netOutput = ethers.utils.formatUnits(quote.netOutput, toToken.decimals);
+    return option;
+  });
+  const unpriced = quotes.filter((quote) => !quote.netOutput).map((quote) => quote.venueName);
+  if (unpriced.length > 1 && unpriced.length === quotes.length) {
+    preview.warnings.push(
+      `Network fees could not be priced in ${toToken.symbol}, so venues are ranked by output before fees.`
+    );
+  } else if (unpriced.length > 0 && unpriced.length < quotes.length) {
+    preview.warnings.push(
+      `The network fee for ${unpriced.join(" and ")} could not be priced in ${toToken.symbol}, so it is ranked after venues whose fees could be.`
+    );
+  }
+
+  const selected = quotes.find((quote) => quote.venue === venue) ?? quotes[0];
+  if (!selected) {
+    preview.warnings.push(
+      failures.length > 0
+        ? `No venue could quote this swap: ${failures.map(({ venueName, error }) => `${venueName}: ${error}`).join("; ")}`
+        : "No liquidity connects these tokens on any venue, so this swap cannot be executed."
+    );
+    return preview;
+  }
+  if (venue && selected.venue !== venue) {
+    preview.warnings.push(`${getVenueAdapter(venue).name} could not quote this swap, so the best other venue is shown.`);
+  }
+
+  preview.swap.venue = selected.venue;
+  preview.swap.venueName = selected.venueName;
+  preview.swap.expectedOutput = ethers.utils.formatUnits(selected.amountOut, toToken.decimals);
+  preview.swap.minimumReceived = ethers.utils.formatUnits(selected.amountOutMin, toToken.decimals);
+  if (selected.priceImpact !== undefined) {
+    preview.swap.priceImpact = selected.priceImpact;
+    preview.swap.priceImpactTier = getPriceImpactTier(selected.priceImpact);
+  }
+  const spender = selected.spender;
+  const spenderName = `${selected.venueName} ${selected.venue === "cow" ? "Vault Relayer" : "Router"}`;
+  const adapter = getVenueAdapter(selected.venue);
+
+  const tokenContract = new ethers.Contract(fromAsset, ERC20_ABI, provider);
+  // The native currency is sent along with the swap, so it never needs an approval
+  const allowance: ethers.BigNumber = isNativeToken(fromAsset)
+    ? ethers.constants.MaxUint256
+    : await tokenContract.allowance(owner, spender);
+  const gasless = () => {
+    // CoW orders are signed off-chain and settled by solvers, so no gas is paid
+    preview.gas = { units: "0", cost: `0 ${nativeCurrency.symbol} (gasless order)` };
+  };
+
+  if (allowance.lt(amountIn)) {
+    const permit = selected.gasless && (await supportsPermit(provider, chainId, fromAsset));
+    preview.approval = { spender, spenderName, exactAmount: amount, permit };
+    if (permit) {
+      gasless();
+    } else {
+      await simulate(
+        preview,
+        provider,
+        { ...(await tokenContract.populateTransaction.approve!(spender, amountIn)), from: owner },
+        "Gas estimation for the approval"
+      );
+    }
+  } else if (adapter.buildSwap) {
+    await simulate(
+      preview,
+      provider,
+      { ...(await adapter.buildSwap(selected, request)), from: owner },
+      "Swap simulation"
+    );
+  } else {
+    gasless();
+  }
+  return preview;
+}
+
+/**
+ * Builds the intent to execute after the user confirms a preview. The recipient
+ * is pinned to the address that was shown, so a name that resolves differently
+ * by the time the transaction is sent can't redirect the funds.
+ * @param preview Preview the user confirmed
+ * @returns The intent to pass to the executor
+ */
+export function toConfirmedIntent(preview: IntentPreview): ExecutableIntent {
+  const { intent, recipient } = preview;
+  if (intent.transaction_type === "transfer" && recipient?.address) {
+    return {
+      ...intent,
+      response: { ...intent.response, recipientAddress: recipient.address },
+    };
+  }
+  return intent;
+}
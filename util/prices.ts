@@ -0,0 +1,122 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+// USD spot prices, used to show what network fees and balances are worth in
+// fiat. Prices come from a swappable source and are cached for a minute.
+
+export interface PriceSource {
+  name: string;
+  /**
+   * @param symbol Upper-case asset symbol, e.g. "ETH"
+   * @returns The USD price of one unit
+   * @throws Error if the source has no price for the asset
+   */
+  fetchUsdPrice(symbol: string): Promise<number>;
+}
+
+const PRICE_TTL_MS = 60_000;
+
+// Wrapped tokens trade one-for-one with their underlying asset, which is the
+// symbol price sources list
+const UNDERLYING_SYMBOLS: Record<string, string> = {
+  WETH: "ETH",
+  WBTC: "BTC",
+  WMATIC: "MATIC",
+  WPOL: "POL",
+};
+
+// Failed lookups are cached too, so a missing price is not asked for again on every render
+const prices = new Map<string, { price: number | undefined; fetchedAt: number }>();
+
+/**
+ * Spot prices from the public Coinbase API
+ */
+export const coinbasePriceSource: PriceSource = {
+  name: "Coinbase",
+  fetchUsdPrice: async (symbol) => {
+    const response = await fetch(`https://api.coinbase.com/v2/prices/${symbol}-USD/spot`);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const body = await response.json();
+    const price = Number(body?.data?.amount);
+    if (!Number.isFinite(price)) {
+      throw new Error("Response has no price");
+    }
+    return price;
+  },
+};
+
+let priceSource: PriceSource = coinbasePriceSource;
+
+/**
+ * Replaces the source prices are fetched from, dropping prices cached from the old one
+ * @param source New price source
+ */
+export function setPriceSource(source: PriceSource) {
+  priceSource = source;
+  prices.clear();
+}
+
+/**
+ * Returns the source prices are currently fetched from
+ */
+export const getPriceSource = (): PriceSource => priceSource;
+
+/**
+ * Returns the USD spot price of an asset, cached for a minute whether or not
+ * it could be fetched. Wrapped tokens are priced as their underlying asset.
+ * @param symbol Asset symbol, e.g. "ETH" or "WETH"
+ * @returns The price, or undefined if it could not be fetched
+ */
+export async function getUsdPrice(symbol: string): Promise<number | undefined> {
+  const upper = symbol.toUpperCase();
+  const key = UNDERLYING_SYMBOLS[upper] ?? upper;
+  const cached = prices.get(key);
+  if (cached && Date.now() - cached.fetchedAt < PRICE_TTL_MS) {
+    return cached.price;
+  }
+
+  let price: number | undefined;
+  try {
+    price = await priceSource.fetchUsdPrice(key);
+  } catch (error) {
+    console.warn(`Failed to fetch the USD price of ${key} from ${priceSource.name}:`, error);
+  }
+  prices.set(key, { price, fetchedAt: Date.now() });
+  return price;
+}
+
+/**
+ * Formats a native-currency amount as an approximate USD value
+ * @param amount Amount in whole units, e.g. "0.0012"
+ * @param price USD price of one unit
+ */
+export const formatUsd = (amount: string, price: number): string => formatUsdValue(Number(amount) * price);
+
+/**
+ * Formats a USD value to the cent
+ * @param value Value in USD
+ */
+export const formatUsdValue = (value: number): string =>
+  value > 0 && value < 0.01 ? "< $0.01" : `$${value.toFixed(2)}`;
@@ -0,0 +1,348 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+
+// Asks every swap venue on a chain for a quote and ranks them by what the
+// user ends up with once network fees are paid. Each venue sits behind a
+// `VenueAdapter`, so supporting another DEX is one more adapter in `ADAPTERS`.
+
+import { ethers } from "ethers";
+import { SupportedChainId } from "@cowprotocol/cow-sdk";
+import { Chain, requireChain } from "./chains";
+import { SwapVenue } from "./config";
+import { TokenMetadata, isNativeToken, resolveToken, toWrappedAddress } from "./tokens";
+import {
+  CowOrderSubmission,
+  UNISWAP_V2_ROUTER_ABI,
+  WalletProvider,
+  populateUniswapV2Swap,
+  quoteCowOrder,
+  quoteUniswapV2,
+  sendOrder,
+  uniswapV2Swap,
+} from "./utils";
+import { populateUniswapV3Swap, quoteUniswapV3, uniswapV3Swap } from "./uniswapV3";
+import { estimateFees, FeeSpeed } from "./fees";
+import { ApprovalMode } from "./approvals";
+import { getUsdPrice } from "./prices";
+
+export interface QuoteRequest {
+  chain: string;
+  // Address that would sign and receive the swap
+  owner: string;
+  fromAsset: string;
+  toAsset: string;
+  // Input amount in the token's smallest unit
+  amountIn: ethers.BigNumber;
+  // Slippage tolerance as a fraction
+  slippage: number;
+}
+
+// What a venue reports for a swap, before fees are compared
+export interface AdapterQuote {
+  // Contract the input token has to be approved for
+  spender: string;
+  // Tokens along the route
+  path: string[];
+  // Uniswap V3 pool fee tier between each pair of tokens
+  poolFees?: number[];
+  amountOut: ethers.BigNumber;
+  amountOutMin: ethers.BigNumber;
+  // Gas the user pays for the swap; zero for gasless orders
+  gasUnits: ethers.BigNumber;
+  // How far the trade moves the price, as a fraction, for venues that can tell
+  priceImpact?: number;
+}
+
+export interface VenueQuote extends AdapterQuote {
+  venue: SwapVenue;
+  venueName: string;
+  gasless: boolean;
+  // Network fee in the chain's native currency
+  gasCost: ethers.BigNumber;
+  // Network fee valued in the output token, when prices are available
+  gasCostInOutput?: ethers.BigNumber;
+  // Output minus the network fee, the figure quotes are ranked by. Unset when
+  // the fee could not be valued in the output token
+  netOutput?: ethers.BigNumber;
+}
+
+export type SwapSubmission = { transactionHash: string } | CowOrderSubmission;
+
+export interface VenueAdapter {
+  venue: SwapVenue;
+  name: string;
+  // Whether the venue is deployed on the chain
+  supports: (chain: Chain) => boolean;
+  /**
+   * @returns The venue's quote, or null if it has no route for the pair
+   * @throws Error if the venue could not be reached
+   */
+  quote: (provider: ethers.providers.Provider, request: QuoteRequest) => Promise<AdapterQuote | null>;
+  // Builds the swap transaction for a quote, for venues that settle on-chain
+  buildSwap?: (quote: AdapterQuote, request: QuoteRequest) => Promise<ethers.PopulatedTransaction>;
+  // Approves if necessary and submits the swap
+  swap: (
+    wallets: WalletProvider[],
+    chain: string,
+    fromAsset: string,
+    toAsset: string,
+    amount: string,
+    speed?: FeeSpeed,
+    approval?: ApprovalMode,
+    slippage?: number
+  ) => Promise<SwapSubmission>;
+}
+
+export interface QuoteFailure {
+  venueName: string;
+  error: string;
+}
+
+// Gas a Uniswap V2 swap takes, which grows with every pool along the route
+const UNISWAP_V2_BASE_GAS = 90_000;
+const UNISWAP_V2_GAS_PER_HOP = 60_000;
+
+// Transaction and router overhead on top of what the V3 quoter measures
+const UNISWAP_V3_OVERHEAD_GAS = 60_000;
+
+const uniswapV2Adapter: VenueAdapter = {
+  venue: "uniswap-v2",
+  name: "Uniswap V2",
+  supports: (chain) => Boolean(chain.uniswapV2Router && chain.uniswapV2Factory),
+  quote: async (provider, { chain, fromAsset, toAsset, amountIn, slippage }) => {
+    const quote = await quoteUniswapV2(provider, chain, fromAsset, toAsset, amountIn, slippage);
+    if (!quote) return null;
+    return {
+      spender: quote.router,
+      path: quote.path,
+      amountOut: quote.amountOut,
+      amountOutMin: quote.amountOutMin,
+      priceImpact: quote.priceImpact,
+      gasUnits: ethers.BigNumber.from(UNISWAP_V2_BASE_GAS + UNISWAP_V2_GAS_PER_HOP * (quote.path.length - 1)),
+    };
+  },
+  buildSwap: async (quote, { fromAsset, toAsset, amountIn, owner }) =>
+    populateUniswapV2Swap(
+      new ethers.Contract(quote.spender, UNISWAP_V2_ROUTER_ABI),
+      fromAsset,
+      toAsset,
+      amountIn,
+      quote.amountOutMin,
+      quote.path,
+      owner
+    ),
+  swap: async (...args) => ({ transactionHash: await uniswapV2Swap(...args) }),
+};
+
+const uniswapV3Adapter: VenueAdapter = {
+  venue: "uniswap-v3",
+  name: "Uniswap V3",
+  supports: (chain) => Boolean(chain.uniswapV3Quoter && chain.uniswapV3Router),
+  quote: async (provider, { chain, fromAsset, toAsset, amountIn, slippage }) => {
+    const quote = await quoteUniswapV3(provider, chain, fromAsset, toAsset, amountIn, slippage);
+    if (!quote) return null;
+    return {
+      spender: quote.router,
+      path: quote.path,
+      poolFees: quote.fees,
+      amountOut: quote.amountOut,
+      amountOutMin: quote.amountOutMin,
+      priceImpact: quote.priceImpact,
+      gasUnits: quote.gasEstimate.add(UNISWAP_V3_OVERHEAD_GAS),
+    };
+  },
+  buildSwap: async (quote, { fromAsset, toAsset, amountIn, owner }) =>
+    populateUniswapV3Swap(
+      {
+        router: quote.spender,
+        path: quote.path,
+        fees: quote.poolFees ?? [],
+        amountOut: quote.amountOut,
+        amountOutMin: quote.amountOutMin,
+        gasEstimate: quote.gasUnits,
+        priceImpact: quote.priceImpact ?? 0,
+      },
+      amountIn,
+      owner,
+      { nativeIn: isNativeToken(fromAsset), nativeOut: isNativeToken(toAsset) }
+    ),
+  swap: async (...args) => ({ transactionHash: await uniswapV3Swap(...args) }),
+};
+
+const cowAdapter: VenueAdapter = {
+  venue: "cow",
+  name: "CoW Protocol",
+  supports: (chain) => Object.values(SupportedChainId).includes(chain.chainId),
+  quote: async (_provider, { chain, owner, fromAsset, toAsset, amountIn, slippage }) => {
+    // Orders can buy the native currency, but selling it takes an on-chain eth-flow order
+    if (isNativeToken(fromAsset)) return null;
+    // Solver fees are already taken out of the quoted buy amount
+    const quote = await quoteCowOrder(chain, owner, fromAsset, toAsset, amountIn, slippage);
+    return {
+      spender: quote.vaultRelayer,
+      path: [fromAsset, toAsset],
+      amountOut: quote.buyAmount,
+      amountOutMin: quote.minBuyAmount,
+      gasUnits: ethers.constants.Zero,
+    };
+  },
+  swap: sendOrder,
+};
+
+const ADAPTERS: VenueAdapter[] = [uniswapV2Adapter, uniswapV3Adapter, cowAdapter];
+
+/**
+ * Looks up the adapter for a venue
+ * @param venue Venue id
+ * @throws Error if no adapter handles the venue
+ */
+export function getVenueAdapter(venue: SwapVenue): VenueAdapter {
+  const adapter = ADAPTERS.find((candidate) => candidate.venue === venue);
+  if (!adapter) {
+    throw new Error(`No adapter for swap venue: ${venue}`);
+  }
+  return adapter;
+}
+
+/**
+ * Lists the venues that can be quoted on a chain
+ * @param chain Chain name
+ */
+export function getVenueAdapters(chain: string): VenueAdapter[] {
+  const settings = requireChain(chain);
+  return ADAPTERS.filter((adapter) => settings.swapVenues.includes(adapter.venue) && adapter.supports(settings));
+}
+
+// Converts an amount of the native currency into the output token, through
+// USD prices unless the output is the native currency or its wrapped token
+const toOutputToken = async (
+  chain: Chain,
+  nativeAmount: ethers.BigNumber,
+  outputToken: TokenMetadata
+): Promise<ethers.BigNumber | undefined> => {
+  if (outputToken.isNative || outputToken.address.toLowerCase() === chain.weth.toLowerCase()) {
+    return nativeAmount;
+  }
+  const [nativePrice, outputPrice] = await Promise.all([
+    getUsdPrice(chain.nativeCurrency.symbol),
+    outputToken.fiatPeg === "USD" ? Promise.resolve(1) : getUsdPrice(outputToken.symbol),
+  ]);
+  if (nativePrice === undefined || outputPrice === undefined || outputPrice <= 0) {
+    return undefined;
+  }
+  const native = Number(ethers.utils.formatUnits(nativeAmount, chain.nativeCurrency.decimals));
+  return ethers.utils.parseUnits(((native * nativePrice) / outputPrice).toFixed(outputToken.decimals), outputToken.decimals);
+};
+
+const reason = (error: unknown): string => (error instanceof Error ? error.message : "Unknown error");
+
+// Ranks quotes by net output. A quote whose network fee could not be priced
+// cannot be compared fairly, so it goes after every priced one
+const compareQuotes = (a: VenueQuote, b: VenueQuote): number => {
+  if (a.netOutput && !b.netOutput) return -1;
+  if (!a.netOutput && b.netOutput) return 1;
+  const left = a.netOutput ?? a.amountOut;
+  const right = b.netOutput ?? b.amountOut;
+  return right.gt(left) ? 1 : right.lt(left) ? -1 : 0;
+};
+
+/**
+ * Quotes a swap on every venue available on the chain
+ * @param provider Ethers provider connected to the swap's chain
+ * @param request Tokens, amount and owner of the swap
+ * @param adapters Venues to ask, by default every one enabled on the chain
+ * @returns Quotes ranked by net output, best first, with quotes whose network
+ * fee could not be priced last, and the venues that could not quote
+ * @throws Error if the swap is between the native currency and its wrapped token
+ */
+export async function getSwapQuotes(
+  provider: ethers.providers.Provider,
+  request: QuoteRequest,
+  adapters: VenueAdapter[] = getVenueAdapters(request.chain)
+): Promise<{ quotes: VenueQuote[]; failures: QuoteFailure[] }> {
+  const chain = requireChain(request.chain);
+  const from = toWrappedAddress(chain.chainId, request.fromAsset);
+  const to = toWrappedAddress(chain.chainId, request.toAsset);
+  const wrapping = isNativeToken(request.fromAsset) || isNativeToken(request.toAsset);
+  if (wrapping && from.toLowerCase() === to.toLowerCase()) {
+    throw new Error(`No pool trades ${chain.nativeCurrency.symbol} for its wrapped token. Ask to wrap or unwrap it instead.`);
+  }
+  const [outputToken, { expectedFeePerGas }] = await Promise.all([
+    resolveToken(provider, chain.chainId, request.toAsset),
+    estimateFees(provider, "normal"),
+  ]);
+
+  const quotes: VenueQuote[] = [];
+  const failures: QuoteFailure[] = [];
+  await Promise.all(
+    adapters.map(async (adapter) => {
+      try {
+        const quote = await adapter.quote(provider, request);
+        if (!quote) return;
+        const gasCost = quote.gasUnits.mul(expectedFeePerGas);
+        const gasCostInOutput = gasCost.isZero()
+          ? ethers.constants.Zero
+          : await toOutputToken(chain, gasCost, outputToken);
+        const venueQuote: VenueQuote = {
+          ...quote,
+          venue: adapter.venue,
+          venueName: adapter.name,
+          gasless: quote.gasUnits.isZero(),
+          gasCost,
+        };
+        if (gasCostInOutput) {
+          venueQuote.gasCostInOutput = gasCostInOutput;
+          venueQuote.netOutput = quote.amountOut.sub(gasCostInOutput);
+        }
+        quotes.push(venueQuote);
+      } catch (error) {
+        console.error(`${adapter.name} quote failed:`, error);
+        failures.push({ venueName: adapter.name, error: reason(error) });
+      }
+    })
+  );
+
+  quotes.sort(compareQuotes);
+  return { quotes, failures };
+}
+
+/**
+ * Quotes a swap on every available venue and returns the best one
+ * @param provider Ethers provider connected to the swap's chain
+ * @param request Tokens, amount and owner of the swap
+ * @param adapters Venues to ask, by default every one enabled on the chain
+ * @throws Error if no venue returned a quote
+ */
+export async function getBestQuote(
+  provider: ethers.providers.Provider,
+  request: QuoteRequest,
+  adapters: VenueAdapter[] = getVenueAdapters(request.chain)
+): Promise<VenueQuote> {
+  const { quotes, failures } = await getSwapQuotes(provider, request, adapters);
+  if (!quotes[0]) {
+    const details = failures.map(({ venueName, error }) => `${venueName}: ${error}`).join("; ");
+    throw new Error(`No venue could quote this swap${details ? ` (${details})` : ""}`);
+  }
+  return quotes[0];
+}
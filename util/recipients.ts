@@ -0,0 +1,220 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+
+// Checks run on a transfer's recipient before anything is signed. Every check
+// reads through the providers it is given, so they run the same against a
+// local node as against the configured RPCs.
+
+import { ethers } from "ethers";
+import { getConfig } from "./config";
+import { getChains } from "./chains";
+import { getToken } from "./tokens";
+import { Contact } from "./addressBook";
+
+export interface RecipientCheck {
+  address: string;
+  // Primary ENS name, only when it resolves back to the same address
+  ensName?: string;
+  avatar?: string;
+  // The address has contract code rather than being a plain wallet
+  isContract: boolean;
+  // Symbol of the token whose contract the address is
+  token?: string;
+  // Nickname of a saved contact whose address differs by only a few characters
+  lookalikeOf?: string;
+  denylisted: boolean;
+}
+
+export interface RecipientCheckOptions {
+  // Provider on the chain the transfer is sent on
+  provider: ethers.providers.Provider;
+  // Provider ENS lives on, usually Ethereum mainnet
+  ensProvider: ethers.providers.BaseProvider;
+  chainId: number;
+  contacts: Contact[];
+  // Defaults to the configured denylist
+  denylist?: string[];
+}
+
+// EIP-7702 accounts carry a delegation designator as code but are still wallets
+const DELEGATION_PREFIX = "0xef0100";
+
+// Poisoning addresses are generated to share the start and end a wallet shows
+const LOOKALIKE_AFFIX_LENGTH = 4;
+const LOOKALIKE_MAX_DIFFERENCES = 4;
+
+const TOKEN_PROBE_ABI = [
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function totalSupply() view returns (uint256)",
+];
+
+const hexBody = (address: string) => address.toLowerCase().replace(/^0x/, "");
+
+/**
+ * Tells whether two different addresses are close enough to be mistaken for
+ * each other: the same first and last characters, or only a few characters apart
+ * @param a 0x address
+ * @param b 0x address
+ */
+export function isLookalikeAddress(a: string, b: string): boolean {
+  const left = hexBody(a);
+  const right = hexBody(b);
+  if (left === right || left.length !== right.length) {
+    return false;
+  }
+  const sameAffixes =
+    left.slice(0, LOOKALIKE_AFFIX_LENGTH) === right.slice(0, LOOKALIKE_AFFIX_LENGTH) &&
+    left.slice(-LOOKALIKE_AFFIX_LENGTH) === right.slice(-LOOKALIKE_AFFIX_LENGTH);
+  let differences = 0;
+  for (let i = 0; i < left.length; i++) {
+    if (left[i] !== right[i]) differences++;
+  }
+  return sameAffixes || differences <= LOOKALIKE_MAX_DIFFERENCES;
+}
+
+/**
+ * Finds a saved contact whose address looks like, but is not, the given one
+ * @param contacts Address book; contacts saved by ENS name are skipped
+ * @param address Resolved recipient address
+ */
+export function findLookalikeContact(contacts: Contact[], address: string): Contact | undefined {
+  // Sending to the contact itself is not a lookalike of some other contact
+  if (contacts.some((contact) => contact.address.toLowerCase() === address.toLowerCase())) {
+    return undefined;
+  }
+  return contacts.find(
+    (contact) => ethers.utils.isAddress(contact.address.toLowerCase()) && isLookalikeAddress(contact.address, address)
+  );
+}
+
+/**
+ * Tells whether an address is on the denylist
+ * @param address Resolved recipient address
+ * @param denylist Addresses to refuse, the configured denylist by default
+ */
+export function isDenylisted(address: string, denylist: string[] = getConfig().recipients.denylist): boolean {
+  return denylist.some((entry) => entry.toLowerCase() === address.toLowerCase());
+}
+
+/**
+ * Looks up an address's primary ENS name and avatar. ethers only returns a
+ * name whose forward record points back at the address.
+ * @param ensProvider Provider ENS lives on
+ * @param address Address to look up
+ * @returns The name and avatar, each omitted when there is none
+ */
+export async function lookupPrimaryName(
+  ensProvider: ethers.providers.BaseProvider,
+  address: string
+): Promise<{ ensName?: string; avatar?: string }> {
+  let ensName: string | null;
+  try {
+    ensName = await ensProvider.lookupAddress(address);
+  } catch (error) {
+    console.warn(`Reverse ENS lookup failed for ${address}:`, error);
+    return {};
+  }
+  if (!ensName) {
+    return {};
+  }
+  const avatar = await ensProvider.getAvatar(ensName).catch(() => null);
+  return avatar ? { ensName, avatar } : { ensName };
+}
+
+// Known tokens are matched on every chain, since a token address pasted from
+// another chain is just as wrong; unknown contracts are probed for ERC20 calls
+const detectToken = async (
+  provider: ethers.providers.Provider,
+  chainId: number,
+  address: string,
+  isContract: boolean
+): Promise<string | undefined> => {
+  const chainIds = [chainId, ...getChains().map((chain) => chain.chainId).filter((id) => id !== chainId)];
+  for (const id of chainIds) {
+    const known = getToken(id, address);
+    if (known) return known.symbol;
+  }
+  if (!isContract) {
+    return undefined;
+  }
+  const contract = new ethers.Contract(address, TOKEN_PROBE_ABI, provider);
+  try {
+    const [symbol] = await Promise.all([contract.symbol(), contract.decimals(), contract.totalSupply()]);
+    return typeof symbol === "string" && symbol ? symbol : address;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Runs every recipient check on a resolved address
+ * @param address Resolved recipient address
+ * @param options Providers, chain, address book and denylist to check against
+ * @returns What was found; lookups that fail are left out rather than thrown
+ * @throws Error if the address's code cannot be read from the chain
+ */
+export async function checkRecipient(address: string, options: RecipientCheckOptions): Promise<RecipientCheck> {
+  const { provider, ensProvider, chainId, contacts, denylist } = options;
+  const [code, primaryName] = await Promise.all([
+    provider.getCode(address),
+    lookupPrimaryName(ensProvider, address),
+  ]);
+  const isContract = code !== "0x" && !code.toLowerCase().startsWith(DELEGATION_PREFIX);
+
+  const check: RecipientCheck = {
+    address,
+    ...primaryName,
+    isContract,
+    denylisted: isDenylisted(address, denylist),
+  };
+  const token = await detectToken(provider, chainId, address, isContract);
+  if (token) check.token = token;
+  const lookalike = findLookalikeContact(contacts, address);
+  if (lookalike) check.lookalikeOf = lookalike.nickname;
+  return check;
+}
+
+/**
+ * Explains each risk a check found, worst first
+ * @param check Result of checkRecipient
+ * @param chainName Display name of the chain the transfer is on
+ */
+export function describeRecipientRisks(check: RecipientCheck, chainName: string): string[] {
+  const risks: string[] = [];
+  if (check.denylisted) {
+    risks.push("This address is on the denylist. Transfers to it are refused.");
+  }
+  if (check.lookalikeOf) {
+    risks.push(
+      `This address looks like your contact ${check.lookalikeOf}'s but is a different address. Scammers send tiny transfers from lookalike addresses so they show up in your history.`
+    );
+  }
+  if (check.token) {
+    risks.push(`This is the ${check.token} token contract, not a wallet. Tokens sent to it are usually lost.`);
+  } else if (check.isContract) {
+    risks.push(`This address is a contract on ${chainName}. Make sure it can receive and move tokens, or they may be stuck.`);
+  }
+  return risks;
+}
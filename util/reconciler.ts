@@ -0,0 +1,242 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+
+// Brings pending ledger entries up to date with the chain, for transactions and
+// CoW orders whose outcome the page didn't stay open long enough to see
+
+import { ethers } from "ethers";
+import { OrderStatus } from "@cowprotocol/cow-sdk";
+import { requireChain } from "./chains";
+import {
+  TransactionHistoryItem,
+  TransactionUpdate,
+  queryTransactions,
+  updateTransaction,
+} from "./ledger";
+import { getReadProvider } from "./utils";
+import { describeOrderFill, getOrderState } from "./orders";
+
+// How often pending entries are re-checked while the dashboard is open
+export const RECONCILE_INTERVAL_MS = 30_000;
+
+// A transaction neither mined nor in the mempool for this long is treated as dropped
+const DROPPED_AFTER_MS = 30 * 60 * 1000;
+
+export interface ReconcileResult {
+  checked: number;
+  updated: number;
+}
+
+const labels: Record<TransactionHistoryItem["type"], string> = {
+  transfer: "Transfer",
+  swap: "Swap",
+  wrap: "Wrap",
+  buy: "Purchase",
+  remittance: "Remittance step",
+};
+
+const settle = (
+  item: TransactionHistoryItem,
+  chain: string,
+  receipt: ethers.providers.TransactionReceipt
+): TransactionUpdate => {
+  const { nativeCurrency } = requireChain(chain);
+  const label = labels[item.type];
+  const fee = receipt.gasUsed.mul(receipt.effectiveGasPrice);
+  const data: TransactionUpdate["data"] = {
+    transactionHash: receipt.transactionHash,
+    blockNumber: receipt.blockNumber,
+    gasUsed: receipt.gasUsed.toString(),
+    networkFee: `${ethers.utils.formatUnits(fee, nativeCurrency.decimals)} ${nativeCurrency.symbol}`,
+  };
+
+  if (receipt.status === 0) {
+    return { status: "failed", data, message: `${label} reverted in block ${receipt.blockNumber}` };
+  }
+  const cancelled =
+    item.data.replacement === "cancel" &&
+    receipt.transactionHash.toLowerCase() === item.data.transactionHash?.toLowerCase();
+  if (cancelled) {
+    return {
+      status: "failed",
+      data: { ...data, outcome: "cancelled" },
+      message: `${label} was cancelled in block ${receipt.blockNumber}`,
+    };
+  }
+  return { status: "completed", data, message: `${label} confirmed in block ${receipt.blockNumber}` };
+};
+
+const reconcileTransaction = async (
+  item: TransactionHistoryItem,
+  chain: string,
+  hash: string
+): Promise<TransactionUpdate | null> => {
+  const provider = getReadProvider(chain);
+  const label = labels[item.type];
+
+  const receipt = await provider.getTransactionReceipt(hash);
+  if (receipt) {
+    return settle(item, chain, receipt);
+  }
+
+  const tx = await provider.getTransaction(hash);
+  if (tx) {
+    // Still in the mempool. Remember who sent it so a replacement can be spotted later.
+    return item.data.nonce === undefined ? { data: { from: tx.from, nonce: tx.nonce } } : null;
+  }
+
+  // After a speed-up or cancel, the transaction it replaced may be the one mined
+  for (const earlier of item.data.replacedHashes ?? []) {
+    const earlierReceipt = await provider.getTransactionReceipt(earlier);
+    if (earlierReceipt) {
+      return settle(item, chain, earlierReceipt);
+    }
+  }
+
+  const { from, nonce } = item.data;
+  if (from !== undefined && nonce !== undefined) {
+    const confirmedNonce = await provider.getTransactionCount(from, "latest");
+    if (confirmedNonce > nonce) {
+      return {
+        status: "failed",
+        data: { outcome: "replaced" },
+        message: `${label} was replaced by another transaction with the same nonce (sped up or cancelled). Check the explorer for the replacement.`,
+      };
+    }
+  }
+
+  if (Date.now() - item.timestamp > DROPPED_AFTER_MS) {
+    return {
+      status: "failed",
+      data: { outcome: "dropped" },
+      message: `${label} was dropped by the network without being mined`,
+    };
+  }
+  return null;
+};
+
+const reconcileOrder = async (
+  item: TransactionHistoryItem,
+  chain: string,
+  orderId: string
+): Promise<TransactionUpdate | null> => {
+  const state = await getOrderState(orderId, chain);
+  const label = labels[item.type];
+  const shortId = `${orderId.substring(0, 8)}...`;
+
+  const fill =
+    item.data.toAsset && state.filled > 0
+      ? await describeOrderFill(chain, item.data.toAsset, state, item.data.quotedBuyAmount)
+      : undefined;
+  const data: TransactionUpdate["data"] = { validTo: state.validTo, ...fill };
+
+  switch (state.status) {
+    case OrderStatus.FULFILLED:
+      return {
+        status: "completed",
+        data: { ...data, transactionHash: state.transactionHash },
+        message: `${label} order ${shortId} was filled${fill ? `, receiving ${fill.received}` : ""}`,
+      };
+    case OrderStatus.CANCELLED:
+      return {
+        status: "failed",
+        data: { ...data, outcome: "cancelled" },
+        message: `${label} order ${shortId} was cancelled`,
+      };
+    case OrderStatus.EXPIRED:
+      return {
+        status: "failed",
+        data: { ...data, outcome: "expired" },
+        message:
+          state.filled > 0
+            ? `${label} order ${shortId} expired ${fill?.filledPercent ?? 0}% filled`
+            : `${label} order ${shortId} expired without being filled`,
+      };
+    default:
+      // Still open: record progress on partially fillable orders
+      return state.filled > 0 && fill?.filledPercent !== item.data.filledPercent ? { data } : null;
+  }
+};
+
+/**
+ * Re-checks every pending ledger entry that has a transaction hash or a CoW
+ * order id, and records the outcome of those that have settled
+ * @returns How many entries were checked and how many changed
+ */
+export async function reconcilePending(): Promise<ReconcileResult> {
+  const { items } = await queryTransactions({ statuses: ["pending"] }, 0, Number.MAX_SAFE_INTEGER);
+  const result: ReconcileResult = { checked: 0, updated: 0 };
+
+  for (const item of items) {
+    const { chain, transactionHash, orderId } = item.data;
+    if (!chain || (!transactionHash && !orderId)) {
+      continue;
+    }
+
+    result.checked++;
+    try {
+      const update = orderId
+        ? await reconcileOrder(item, chain, orderId)
+        : await reconcileTransaction(item, chain, transactionHash!);
+      if (update) {
+        await updateTransaction(item.id, update);
+        result.updated++;
+      }
+    } catch (error) {
+      // Leave the entry pending and try again on the next run
+      console.warn(`Failed to reconcile transaction ${item.id}:`, error);
+    }
+  }
+  return result;
+}
+
+/**
+ * Reconciles pending entries now and then every `intervalMs`
+ * @param onUpdate Called after a run that changed at least one entry
+ * @param intervalMs Time between runs
+ * @returns A function that stops the reconciler
+ */
+export function startReconciler(
+  onUpdate: () => void,
+  intervalMs: number = RECONCILE_INTERVAL_MS
+): () => void {
+  let running = false;
+  const run = async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) return;
+    running = true;
+    try {
+      const { updated } = await reconcilePending();
+      if (updated > 0) onUpdate();
+    } catch (error) {
+      console.error("Failed to reconcile pending transactions:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  const timer = setInterval(() => void run(), intervalMs);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,288 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+// Step-by-step execution state of a remittance, persisted so a reload resumes
+// exactly where the user left off
+
+import { RemittanceResponse } from "./intents";
+
+export type StepState =
+  | "idle"
+  | "awaiting_signature"
+  | "submitted"
+  | "confirmed"
+  | "failed"
+  | "skipped";
+
+export interface StepProgress {
+  key: string;
+  state: StepState;
+  transactionHash?: string;
+  // EIP-5792 batch the step was sent in; its hash is known once the batch lands
+  batchId?: string;
+  // Ledger entry recording this step's transaction
+  historyId?: string;
+  error?: string;
+  updatedAt: number;
+}
+
+export type RemittanceStatus = "ready" | "in_progress" | "completed";
+
+// "auto" runs each step as soon as the previous one settles; "step" waits for
+// the user to execute every step
+export type RemittanceMode = "auto" | "step";
+
+export interface RemittanceFlow {
+  response: RemittanceResponse;
+  // Ledger entry summarizing the whole remittance
+  historyId: string | null;
+  status: RemittanceStatus;
+  mode: RemittanceMode;
+  steps: StepProgress[];
+  startedAt: number;
+}
+
+export type RemittanceAction =
+  | { type: "start"; mode: RemittanceMode }
+  | { type: "set_mode"; mode: RemittanceMode }
+  // Signs the current step, or the given steps when they are sent as one batch
+  | { type: "sign"; steps?: string[] }
+  | { type: "submitted"; step: string; transactionHash?: string; batchId?: string; historyId?: string }
+  | { type: "confirmed"; step: string; transactionHash?: string }
+  | { type: "failed"; step: string; error: string }
+  | { type: "skip" };
+
+const REMITTANCE_FLOW_KEY = "brinco_remittance_flow";
+
+// States each step state may move to
+const TRANSITIONS: Record<StepState, StepState[]> = {
+  idle: ["awaiting_signature", "confirmed", "failed", "skipped"],
+  awaiting_signature: ["submitted", "confirmed", "failed"],
+  submitted: ["confirmed", "failed", "skipped"],
+  failed: ["awaiting_signature", "skipped"],
+  // A skipped transaction may still be mined later
+  skipped: ["confirmed"],
+  confirmed: [],
+};
+
+const isSettled = (step: StepProgress) => step.state === "confirmed" || step.state === "skipped";
+
+/**
+ * Creates the state of a remittance that has not started yet
+ * @param response Validated remittance response from the backend
+ * @param historyId Ledger entry summarizing the remittance
+ */
+export function createRemittanceFlow(
+  response: RemittanceResponse,
+  historyId: string | null
+): RemittanceFlow {
+  const now = Date.now();
+  return {
+    response,
+    historyId,
+    status: "ready",
+    mode: "step",
+    steps: Object.keys(response.transaction_flow).map((key) => ({
+      key,
+      state: "idle",
+      updatedAt: now,
+    })),
+    startedAt: now,
+  };
+}
+
+/**
+ * Returns the index of the first step that is neither confirmed nor skipped
+ * @param flow Remittance state
+ * @returns The step index, or `flow.steps.length` once every step is settled
+ */
+export function currentStepIndex(flow: RemittanceFlow): number {
+  const index = flow.steps.findIndex((step) => !isSettled(step));
+  return index === -1 ? flow.steps.length : index;
+}
+
+const setStep = (
+  flow: RemittanceFlow,
+  key: string,
+  state: StepState,
+  changes: Partial<StepProgress> = {}
+): RemittanceFlow => {
+  const step = flow.steps.find((s) => s.key === key);
+  if (!step) {
+    throw new Error(`Unknown remittance step: ${key}`);
+  }
+  // Receipts can arrive from both the executor and the background watcher
+  if (step.state === state) {
+    return flow;
+  }
+  if (!TRANSITIONS[step.state].includes(state)) {
+    throw new Error(`Cannot move remittance ${key} from ${step.state} to ${state}`);
+  }
+
+  const steps = flow.steps.map((s) => {
+    if (s !== step) return s;
+    const next: StepProgress = { ...s, ...changes, state, updatedAt: Date.now() };
+    if (state !== "failed") delete next.error;
+    return next;
+  });
+  const updated = { ...flow, steps };
+  if (updated.status === "in_progress" && currentStepIndex(updated) === steps.length) {
+    updated.status = "completed";
+  }
+  return updated;
+};
+
+const requireCurrentStep = (flow: RemittanceFlow): StepProgress => {
+  if (flow.status !== "in_progress") {
+    throw new Error(`Remittance is ${flow.status.replace("_", " ")}`);
+  }
+  return flow.steps[currentStepIndex(flow)]!;
+};
+
+/**
+ * Applies an action to a remittance. The input is never modified.
+ * @param flow Current state
+ * @param action What happened
+ * @returns The next state
+ * @throws Error if the action is not valid in the current state
+ */
+export function transition(flow: RemittanceFlow, action: RemittanceAction): RemittanceFlow {
+  switch (action.type) {
+    case "start":
+      if (flow.status !== "ready") {
+        throw new Error(`Remittance is already ${flow.status.replace("_", " ")}`);
+      }
+      return { ...flow, status: "in_progress", mode: action.mode, startedAt: Date.now() };
+    case "set_mode":
+      return { ...flow, mode: action.mode };
+    case "sign": {
+      const keys = action.steps ?? [requireCurrentStep(flow).key];
+      return keys.reduce((next, key) => setStep(next, key, "awaiting_signature"), flow);
+    }
+    case "submitted": {
+      const changes: Partial<StepProgress> = {};
+      if (action.transactionHash) changes.transactionHash = action.transactionHash;
+      if (action.batchId) changes.batchId = action.batchId;
+      if (action.historyId) changes.historyId = action.historyId;
+      return setStep(flow, action.step, "submitted", changes);
+    }
+    case "confirmed":
+      return setStep(
+        flow,
+        action.step,
+        "confirmed",
+        action.transactionHash ? { transactionHash: action.transactionHash } : {}
+      );
+    case "failed":
+      return setStep(flow, action.step, "failed", { error: action.error });
+    case "skip":
+      return setStep(flow, requireCurrentStep(flow).key, "skipped");
+  }
+}
+
+/**
+ * Returns the step auto-run mode should execute next, if any. Auto-run stops
+ * at a failed step until the user retries or skips it, and waits while a
+ * transaction is pending.
+ * @param flow Remittance state
+ * @returns The key of the idle current step, or undefined
+ */
+export function getAutoRunStep(flow: RemittanceFlow): string | undefined {
+  if (flow.status !== "in_progress" || flow.mode !== "auto") return undefined;
+  const step = flow.steps[currentStepIndex(flow)];
+  return step?.state === "idle" ? step.key : undefined;
+}
+
+/**
+ * Lists the steps whose transaction was sent but has no receipt yet
+ * @param flow Remittance state
+ */
+export function getSubmittedSteps(flow: RemittanceFlow): StepProgress[] {
+  return flow.steps.filter((step) => step.state === "submitted" && step.transactionHash);
+}
+
+/**
+ * Lists the batches with steps still waiting to land
+ * @param flow Remittance state
+ * @returns Distinct batch identifiers
+ */
+export function getSubmittedBatches(flow: RemittanceFlow): string[] {
+  const batches = flow.steps
+    .filter((step) => step.state === "submitted" && step.batchId && !step.transactionHash)
+    .map((step) => step.batchId!);
+  return Array.from(new Set(batches));
+}
+
+/**
+ * Persists the remittance in progress, or forgets it
+ * @param flow Remittance state, or null to clear it
+ */
+export function saveRemittanceFlow(flow: RemittanceFlow | null) {
+  if (typeof window === "undefined") return;
+  if (flow) {
+    localStorage.setItem(REMITTANCE_FLOW_KEY, JSON.stringify(flow));
+  } else {
+    localStorage.removeItem(REMITTANCE_FLOW_KEY);
+  }
+}
+
+/**
+ * Restores the persisted remittance, including the `{ data, step, historyId }`
+ * shape saved by earlier versions
+ * @returns The remittance state, or null if none was saved
+ */
+export function loadRemittanceFlow(): RemittanceFlow | null {
+  if (typeof window === "undefined") return null;
+  const stored = localStorage.getItem(REMITTANCE_FLOW_KEY);
+  if (!stored) return null;
+
+  try {
+    const parsed = JSON.parse(stored);
+    if (Array.isArray(parsed?.steps) && parsed.response) {
+      const flow = parsed as RemittanceFlow;
+      // A wallet prompt doesn't survive a reload, and no hash was recorded,
+      // so the step has to be signed again. Auto-run is paused, so the page
+      // doesn't open wallet prompts on its own.
+      return {
+        ...flow,
+        mode: "step",
+        steps: flow.steps.map((step) =>
+          step.state === "awaiting_signature" ? { ...step, state: "idle" } : step
+        ),
+      };
+    }
+
+    if (parsed?.data?.transaction_flow) {
+      const flow = createRemittanceFlow(parsed.data as RemittanceResponse, parsed.historyId ?? null);
+      const step = Number(parsed.step) || 1;
+      return {
+        ...flow,
+        status: step > 1 ? "in_progress" : "ready",
+        steps: flow.steps.map((s, i) => (i < step - 1 ? { ...s, state: "confirmed" } : s)),
+      };
+    }
+  } catch (e) {
+    console.error("Failed to parse stored remittance flow data:", e);
+  }
+  return null;
+}
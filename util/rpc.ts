@@ -0,0 +1,424 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+
+// Read providers spread over each chain's configured RPC endpoints. Requests
+// go to the fastest healthy endpoint and fail over to the next one; rate
+// limits are retried with backoff first, and state reads can require several
+// endpoints to agree.
+
+import { ethers } from "ethers";
+import { AppConfig, getConfig } from "./config";
+import { requireChain } from "./chains";
+
+export interface RpcEndpointMetrics {
+  url: string;
+  healthy: boolean;
+  // Smoothed response time of successful requests
+  latencyMs?: number;
+  // Latest block seen by the last health check
+  blockNumber?: number;
+  requests: number;
+  errors: number;
+  rateLimited: number;
+  retries: number;
+  lastError?: string;
+  lastCheckedAt?: number;
+}
+
+interface Endpoint extends RpcEndpointMetrics {
+  provider: ethers.providers.StaticJsonRpcProvider;
+  // Failures in a row; each one doubles how long the endpoint is set aside
+  failures: number;
+  retryAt: number;
+}
+
+type RpcSettings = AppConfig["rpc"];
+
+type FailureKind = "rate-limited" | "unavailable" | "rpc-error";
+
+// Results that are the same on every synced node, unlike the latest block or
+// fees, with the position of their block tag
+const QUORUM_METHODS: Record<string, number | null> = {
+  eth_call: 1,
+  eth_getBalance: 1,
+  eth_getCode: 1,
+  eth_getStorageAt: 2,
+  eth_chainId: null,
+};
+
+// Tags that resolve to a different block on endpoints a block or two apart
+const MOVING_BLOCK_TAGS = new Set(["latest", "pending"]);
+
+// Endpoints further behind the best one than this are treated as unhealthy
+const MAX_BLOCK_LAG = 5;
+const LATENCY_SMOOTHING = 0.3;
+const RATE_LIMIT_BACKOFF_MS = 500;
+const COOLDOWN_BASE_MS = 5_000;
+const COOLDOWN_MAX_MS = 5 * 60_000;
+const RATE_LIMIT_PATTERN = /rate limit|too many requests|exceeded/i;
+// How often a pending transaction's sender is checked for a replacement
+const REPLACEMENT_POLL_MS = 4_000;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+// ethers reports HTTP errors with their status and wraps JSON-RPC errors, which
+// mean the node answered, e.g. with a revert, and another node would say the same
+const classifyError = (error: unknown): FailureKind => {
+  const err = error as { status?: unknown; error?: { code?: unknown; message?: unknown } } | null;
+  if (err?.status === 429) {
+    return "rate-limited";
+  }
+  if (typeof err?.error?.code === "number") {
+    const message = typeof err.error.message === "string" ? err.error.message : "";
+    return err.error.code === -32005 || RATE_LIMIT_PATTERN.test(message) ? "rate-limited" : "rpc-error";
+  }
+  return "unavailable";
+};
+
+const toMetrics = ({ provider, failures, retryAt, ...metrics }: Endpoint): RpcEndpointMetrics => ({ ...metrics });
+
+/**
+ * JSON-RPC provider for one chain that spreads requests over all of the
+ * chain's endpoints. Everything ethers reads, from balances to ENS records and
+ * receipts, goes through `send`, so the provider drops in anywhere a
+ * JsonRpcProvider is expected.
+ */
+export class RpcProvider extends ethers.providers.StaticJsonRpcProvider {
+  readonly chain: string;
+  private readonly endpoints: Endpoint[];
+  private readonly settings: RpcSettings;
+  private healthCheck: Promise<void> | null = null;
+  private lastHealthCheck = 0;
+
+  /**
+   * @param chain Chain key, e.g. "base"
+   * @param chainId Chain id, so the network never has to be detected
+   * @param urls RPC endpoints, in the order they are tried until ranked
+   * @param settings Quorum, timeout, retry and health check settings
+   * @throws Error if no endpoint is given
+   */
+  constructor(chain: string, chainId: number, urls: string[], settings: RpcSettings) {
+    if (urls.length === 0) {
+      throw new Error(`No RPC endpoints configured for ${chain}`);
+    }
+    super({ url: urls[0]!, timeout: settings.timeoutMs }, chainId);
+    this.chain = chain;
+    this.settings = settings;
+    this.endpoints = urls.map((url) => ({
+      url,
+      // Rate limits are retried here rather than by ethers, so they can fail over
+      provider: new ethers.providers.StaticJsonRpcProvider(
+        { url, timeout: settings.timeoutMs, throttleCallback: () => Promise.resolve(false) },
+        chainId
+      ),
+      healthy: true,
+      requests: 0,
+      errors: 0,
+      rateLimited: 0,
+      retries: 0,
+      failures: 0,
+      retryAt: 0,
+    }));
+  }
+
+  override async send(method: string, params: unknown[]): Promise<unknown> {
+    await this.ensureHealthChecked();
+    const quorum = Math.min(this.settings.quorum, this.endpoints.length);
+    if (quorum > 1 && method in QUORUM_METHODS) {
+      return this.sendWithQuorum(method, params, quorum);
+    }
+
+    let lastError: unknown;
+    for (const endpoint of this.rank()) {
+      try {
+        return await this.sendTo(endpoint, method, params);
+      } catch (error) {
+        if (classifyError(error) === "rpc-error") throw error;
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Probes every endpoint for its latest block and re-ranks them
+   * @returns Metrics for each endpoint after the check
+   */
+  async checkHealth(): Promise<RpcEndpointMetrics[]> {
+    await Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        const started = Date.now();
+        try {
+          const blockNumber = await endpoint.provider.send("eth_blockNumber", []);
+          this.recordSuccess(endpoint, Date.now() - started);
+          endpoint.blockNumber = ethers.BigNumber.from(blockNumber).toNumber();
+        } catch (error) {
+          this.recordFailure(endpoint, error);
+        }
+        endpoint.lastCheckedAt = Date.now();
+      })
+    );
+
+    const best = Math.max(...this.endpoints.map((endpoint) => endpoint.blockNumber ?? 0));
+    for (const endpoint of this.endpoints) {
+      if (endpoint.healthy && endpoint.blockNumber !== undefined && best - endpoint.blockNumber > MAX_BLOCK_LAG) {
+        endpoint.healthy = false;
+        endpoint.lastError = `${best - endpoint.blockNumber} blocks behind`;
+      }
+    }
+    this.lastHealthCheck = Date.now();
+    return this.getMetrics();
+  }
+
+  /**
+   * Reports request counts, latency and health for each endpoint, best ranked first
+   */
+  getMetrics(): RpcEndpointMetrics[] {
+    return this.rank().map(toMetrics);
+  }
+
+  // Only the first request waits for a health check; later ones re-rank in the background
+  private async ensureHealthChecked() {
+    if (this.endpoints.length < 2) return;
+    const stale = Date.now() - this.lastHealthCheck > this.settings.healthCheckIntervalMs;
+    if (stale && !this.healthCheck) {
+      this.healthCheck = this.checkHealth()
+        .then(() => undefined)
+        .finally(() => {
+          this.healthCheck = null;
+        });
+    }
+    if (this.lastHealthCheck === 0 && this.healthCheck) {
+      await this.healthCheck;
+    }
+  }
+
+  // Healthy endpoints by latency, then ones due a retry, then ones still set
+  // aside, which are only tried when everything else has failed
+  private rank(): Endpoint[] {
+    const now = Date.now();
+    const group = (endpoint: Endpoint) => (endpoint.healthy ? 0 : endpoint.retryAt <= now ? 1 : 2);
+    return [...this.endpoints].sort(
+      (a, b) =>
+        group(a) - group(b) ||
+        (group(a) === 2 ? a.retryAt - b.retryAt : (a.latencyMs ?? 0) - (b.latencyMs ?? 0))
+    );
+  }
+
+  private async sendTo(endpoint: Endpoint, method: string, params: unknown[]): Promise<unknown> {
+    for (let attempt = 0; ; attempt++) {
+      const started = Date.now();
+      endpoint.requests++;
+      try {
+        const result: unknown = await endpoint.provider.send(method, params);
+        this.recordSuccess(endpoint, Date.now() - started);
+        return result;
+      } catch (error) {
+        const kind = classifyError(error);
+        if (kind === "rpc-error") {
+          this.recordSuccess(endpoint, Date.now() - started);
+          throw error;
+        }
+        if (kind === "rate-limited") {
+          endpoint.rateLimited++;
+          if (attempt < this.settings.maxRetries) {
+            endpoint.retries++;
+            await wait(RATE_LIMIT_BACKOFF_MS * 2 ** attempt + Math.random() * RATE_LIMIT_BACKOFF_MS);
+            continue;
+          }
+        }
+        this.recordFailure(endpoint, error);
+        throw error;
+      }
+    }
+  }
+
+  // Asks the best endpoints at once, and more only when they fail or disagree
+  private async sendWithQuorum(method: string, params: unknown[], quorum: number): Promise<unknown> {
+    const votes = new Map<string, { result: unknown; count: number }>();
+    let ranked = this.rank();
+    const tagIndex = QUORUM_METHODS[method];
+    if (typeof tagIndex === "number" && MOVING_BLOCK_TAGS.has(String(params[tagIndex] ?? "latest"))) {
+      const pinned = await this.pinBlock(ranked);
+      ranked = pinned.endpoints;
+      params = [...params];
+      params[tagIndex] = ethers.utils.hexValue(pinned.blockNumber);
+    }
+    let next = 0;
+    let lastError: unknown;
+    while (next < ranked.length) {
+      const agreed = Math.max(0, ...Array.from(votes.values(), (vote) => vote.count));
+      const batch = ranked.slice(next, next + quorum - agreed);
+      next += batch.length;
+      const outcomes = await Promise.allSettled(batch.map((endpoint) => this.sendTo(endpoint, method, params)));
+      for (const outcome of outcomes) {
+        if (outcome.status === "rejected") {
+          if (classifyError(outcome.reason) === "rpc-error") throw outcome.reason;
+          lastError = outcome.reason;
+          continue;
+        }
+        const key = JSON.stringify(outcome.value);
+        const vote = votes.get(key) ?? { result: outcome.value, count: 0 };
+        vote.count++;
+        votes.set(key, vote);
+        if (vote.count >= quorum) return vote.result;
+      }
+    }
+    if (votes.size > 1) {
+      throw new Error(`RPC endpoints for ${this.chain} disagree on ${method}`);
+    }
+    throw lastError ?? new Error(`Fewer than ${quorum} RPC endpoints for ${this.chain} answered ${method}`);
+  }
+
+  // Pins a read at a moving block tag to the newest block that every endpoint
+  // taking part has reached. Endpoints too far behind, or that do not answer,
+  // sit the read out rather than pull the block back.
+  private async pinBlock(ranked: Endpoint[]): Promise<{ endpoints: Endpoint[]; blockNumber: number }> {
+    const heights = await Promise.all(
+      ranked.map(async (endpoint) => {
+        try {
+          const blockNumber = ethers.BigNumber.from(await this.sendTo(endpoint, "eth_blockNumber", [])).toNumber();
+          endpoint.blockNumber = blockNumber;
+          return blockNumber;
+        } catch {
+          return undefined;
+        }
+      })
+    );
+    const best = Math.max(...heights.map((height) => height ?? -1));
+    const endpoints = ranked.filter((_, i) => heights[i] !== undefined && best - heights[i]! <= MAX_BLOCK_LAG);
+    if (endpoints.length === 0) {
+      throw new Error(`No RPC endpoint for ${this.chain} reported its latest block`);
+    }
+    return { endpoints, blockNumber: Math.min(...endpoints.map((endpoint) => endpoint.blockNumber!)) };
+  }
+
+  private recordSuccess(endpoint: Endpoint, latencyMs: number) {
+    endpoint.healthy = true;
+    endpoint.failures = 0;
+    endpoint.retryAt = 0;
+    endpoint.latencyMs =
+      endpoint.latencyMs === undefined
+        ? latencyMs
+        : endpoint.latencyMs + LATENCY_SMOOTHING * (latencyMs - endpoint.latencyMs);
+  }
+
+  private recordFailure(endpoint: Endpoint, error: unknown) {
+    endpoint.errors++;
+    endpoint.failures++;
+    endpoint.healthy = false;
+    endpoint.retryAt = Date.now() + Math.min(COOLDOWN_BASE_MS * 2 ** (endpoint.failures - 1), COOLDOWN_MAX_MS);
+    endpoint.lastError = errorMessage(error);
+  }
+}
+
+const providers = new Map<string, RpcProvider>();
+
+/**
+ * Returns the shared read provider for a chain, created on first use so it
+ * picks up the loaded configuration
+ * @param chain Chain key, e.g. "base"
+ * @throws Error if the chain is not configured
+ */
+export function getRpcProvider(chain: string): RpcProvider {
+  let provider = providers.get(chain);
+  if (!provider) {
+    const { chainId, rpcUrls } = requireChain(chain);
+    provider = new RpcProvider(chain, chainId, rpcUrls, getConfig().rpc);
+    providers.set(chain, provider);
+  }
+  return provider;
+}
+
+/**
+ * Reports endpoint metrics for every chain a provider has been created for
+ * @returns Metrics keyed by chain, best ranked endpoint first
+ */
+export function getRpcMetrics(): Record<string, RpcEndpointMetrics[]> {
+  return Object.fromEntries(Array.from(providers, ([chain, provider]) => [chain, provider.getMetrics()]));
+}
+
+/**
+ * Waits for a transaction sent from the user's wallet through the chain's read
+ * provider rather than the wallet's. The sender's nonce is watched meanwhile,
+ * so a transaction replaced by a speed-up or cancellation fails instead of
+ * being waited on forever; the reconciler settles whatever replaced it.
+ * @param chain Chain key the transaction was sent on
+ * @param tx Transaction as returned by the wallet's signer
+ * @param confirmations Blocks to wait for
+ * @param timeoutMs How long to wait before giving up; no limit by default
+ * @returns The receipt
+ * @throws Error with code CALL_EXCEPTION if the transaction reverts,
+ * TRANSACTION_REPLACED if another transaction took its nonce, or TIMEOUT
+ */
+export async function waitForReceipt(
+  chain: string,
+  tx: ethers.providers.TransactionResponse,
+  confirmations = 1,
+  timeoutMs?: number
+): Promise<ethers.providers.TransactionReceipt> {
+  const provider = getRpcProvider(chain);
+  let done = false;
+  const watchReplacement = async (): Promise<never> => {
+    while (!done) {
+      await wait(REPLACEMENT_POLL_MS);
+      let replaced = false;
+      try {
+        const confirmedNonce = await provider.getTransactionCount(tx.from, "latest");
+        // Checked after the nonce, so the transaction's own confirmation is not taken for a replacement
+        replaced = !done && confirmedNonce > tx.nonce && !(await provider.getTransactionReceipt(tx.hash));
+      } catch (error) {
+        console.warn(`Could not check ${tx.hash} for a replacement:`, error);
+      }
+      if (replaced) {
+        ethers.logger.throwError("transaction was replaced", ethers.utils.Logger.errors.TRANSACTION_REPLACED, {
+          hash: tx.hash,
+          reason: "replaced",
+          cancelled: true,
+        });
+      }
+    }
+    return new Promise<never>(() => undefined);
+  };
+
+  try {
+    const receipt = await Promise.race([
+      provider.waitForTransaction(tx.hash, confirmations, timeoutMs),
+      watchReplacement(),
+    ]);
+    if (receipt.status === 0) {
+      ethers.logger.throwError("transaction failed", ethers.utils.Logger.errors.CALL_EXCEPTION, {
+        transactionHash: tx.hash,
+        transaction: tx,
+        receipt,
+      });
+    }
+    return receipt;
+  } finally {
+    done = true;
+  }
+}
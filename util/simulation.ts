@@ -0,0 +1,263 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+// Pre-flight simulation of outbound transactions, so a revert is reported
+// before the wallet asks the user to sign
+
+import { ethers } from "ethers";
+
+export type SimulationResult =
+  | { success: true; gasLimit: ethers.BigNumber }
+  | { success: false; reason: string };
+
+/**
+ * Thrown when a transaction would revert if it were sent
+ */
+export class SimulationError extends Error {
+  readonly reason: string;
+
+  constructor(reason: string) {
+    super(`Transaction would fail: ${reason}`);
+    this.name = "SimulationError";
+    this.reason = reason;
+  }
+}
+
+const ERROR_SELECTOR = "0x08c379a0"; // Error(string)
+const PANIC_SELECTOR = "0x4e487b71"; // Panic(uint256)
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division by zero",
+  0x21: "invalid enum value",
+  0x22: "corrupted storage byte array",
+  0x31: "pop from an empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+  0x51: "call to an uninitialized function",
+};
+
+// OpenZeppelin v5 ERC20 custom errors, mapped to the v4 revert strings they
+// replaced so the hints below apply to both
+const CUSTOM_ERRORS: Record<string, string> = {
+  "0xe450d38c": "transfer amount exceeds balance", // ERC20InsufficientBalance(address,uint256,uint256)
+  "0xfb8f41b2": "insufficient allowance", // ERC20InsufficientAllowance(address,uint256,uint256)
+};
+
+// Explanations for revert strings users commonly run into
+const REVERT_HINTS: [string, string][] = [
+  ["INSUFFICIENT_OUTPUT_AMOUNT", "The price moved beyond your slippage tolerance"],
+  ["EXPIRED", "The swap deadline has passed"],
+  ["TRANSFER_FROM_FAILED", "The router could not pull your tokens. Check your balance and approval"],
+  ["transfer amount exceeds balance", "The amount is more than your balance"],
+  ["insufficient allowance", "The spender is not approved for this amount"],
+  ["USDC transfer failed", "The simulator could not pull your USDC. Check your balance and approval"],
+  ["EURC transfer failed", "The simulator could not pull your EURC. Check your balance and approval"],
+];
+
+/**
+ * Turns ABI-encoded revert data into a readable reason
+ * @param data Revert data returned by the node
+ * @returns The `require` message, a panic description, a known custom error,
+ * or the custom error selector
+ */
+export function decodeRevertReason(data: string): string {
+  if (!data || data === "0x") {
+    return "reverted without a reason";
+  }
+  const selector = data.slice(0, 10).toLowerCase();
+  try {
+    if (selector === ERROR_SELECTOR) {
+      const [message] = ethers.utils.defaultAbiCoder.decode(["string"], `0x${data.slice(10)}`);
+      return message;
+    }
+    if (selector === PANIC_SELECTOR) {
+      const [code] = ethers.utils.defaultAbiCoder.decode(["uint256"], `0x${data.slice(10)}`);
+      return `panic: ${PANIC_REASONS[code.toNumber()] ?? `code ${code.toHexString()}`}`;
+    }
+  } catch (error) {
+    console.warn("Could not decode revert data:", data, error);
+  }
+  return CUSTOM_ERRORS[selector] ?? `custom error ${selector}`;
+}
+
+const isRevertData = (value: unknown): value is string =>
+  typeof value === "string" && /^0x([0-9a-fA-F]{8})?([0-9a-fA-F]{64})*$/.test(value);
+
+// Ethers, the node and the wallet each wrap the revert data differently. An
+// outer layer may report an empty "0x" while an inner one has the actual data
+const findRevertData = (error: unknown, depth = 0): string | undefined => {
+  if (depth > 5 || typeof error !== "object" || error === null) {
+    return undefined;
+  }
+  const err = error as { data?: unknown; error?: unknown; body?: unknown };
+  const candidates = [isRevertData(err.data) ? err.data : undefined];
+  if (typeof err.body === "string") {
+    try {
+      candidates.push(findRevertData(JSON.parse(err.body), depth + 1));
+    } catch {
+      // Not JSON
+    }
+  }
+  candidates.push(findRevertData(err.error, depth + 1), findRevertData(err.data, depth + 1));
+  return (
+    candidates.find((data) => data !== undefined && data !== "0x") ??
+    candidates.find((data) => data !== undefined)
+  );
+};
+
+const isRevert = (error: unknown): boolean => {
+  const err = error as { code?: unknown; message?: unknown } | null;
+  const message = typeof err?.message === "string" ? err.message : "";
+  return (
+    err?.code === "CALL_EXCEPTION" ||
+    err?.code === "UNPREDICTABLE_GAS_LIMIT" ||
+    message.includes("execution reverted") ||
+    findRevertData(error) !== undefined
+  );
+};
+
+/**
+ * Extracts a human-readable revert reason from an error thrown by ethers
+ * @param error Error from `call` or `estimateGas`
+ */
+export function getRevertReason(error: unknown): string {
+  const data = findRevertData(error);
+  let reason: string;
+  if (data) {
+    reason = decodeRevertReason(data);
+  } else {
+    const err = error as { reason?: unknown; message?: unknown } | null;
+    const message = typeof err?.message === "string" ? err.message : "";
+    const match = message.match(/execution reverted:? ?([^"\n]*)/);
+    reason =
+      typeof err?.reason === "string" ? err.reason : match?.[1]?.trim() || "reverted without a reason";
+  }
+
+  const hint = REVERT_HINTS.find(([needle]) => reason.includes(needle));
+  return hint ? `${hint[1]} (${reason})` : reason;
+}
+
+/**
+ * Runs a transaction with `eth_call` against the pending block, then
+ * estimates its gas
+ * @param provider Provider connected to the transaction's chain
+ * @param tx Transaction to simulate; `from` must be set
+ * @returns The gas estimate, or the decoded revert reason
+ * @throws Error if the node could not be reached
+ */
+export async function simulateTransaction(
+  provider: ethers.providers.Provider,
+  tx: ethers.providers.TransactionRequest
+): Promise<SimulationResult> {
+  try {
+    await provider.call(tx, "pending");
+    const gasLimit = await provider.estimateGas(tx);
+    return { success: true, gasLimit };
+  } catch (error) {
+    if (isRevert(error)) {
+      return { success: false, reason: getRevertReason(error) };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Simulates a transaction and throws if it would revert
+ * @param provider Provider connected to the transaction's chain
+ * @param tx Transaction to simulate; `from` must be set
+ * @returns The gas estimate
+ * @throws SimulationError with the decoded reason if the transaction would revert
+ */
+export async function requireSuccessfulSimulation(
+  provider: ethers.providers.Provider,
+  tx: ethers.providers.TransactionRequest
+): Promise<ethers.BigNumber> {
+  const result = await simulateTransaction(provider, tx);
+  if (!result.success) {
+    throw new SimulationError(result.reason);
+  }
+  return result.gasLimit;
+}
+
+// Whether each node answers eth_simulateV1, probed once per provider
+const sequenceSupport = new WeakMap<ethers.providers.JsonRpcProvider, boolean>();
+
+/**
+ * Checks whether a node can simulate transactions in sequence
+ * @param provider Provider connected to the chain's RPC endpoints
+ */
+export async function supportsSequenceSimulation(provider: ethers.providers.JsonRpcProvider): Promise<boolean> {
+  const cached = sequenceSupport.get(provider);
+  if (cached !== undefined) {
+    return cached;
+  }
+  let supported = false;
+  try {
+    const blocks = await provider.send("eth_simulateV1", [{ blockStateCalls: [{ calls: [] }] }, "latest"]);
+    supported = Array.isArray(blocks);
+  } catch {
+    // The node does not implement eth_simulateV1
+  }
+  sequenceSupport.set(provider, supported);
+  return supported;
+}
+
+interface SimulatedCall {
+  status: string;
+  returnData: string;
+  gasUsed: string;
+  error?: { code: number; message: string; data?: string };
+}
+
+/**
+ * Runs transactions one after another in a single simulated block with
+ * `eth_simulateV1`, so each sees the state the earlier ones left, such as an
+ * approval or bought tokens
+ * @param provider Provider connected to the chain's RPC endpoints
+ * @param txs Transactions in the order they would be sent; `from` must be set
+ * @returns The gas used or the decoded revert reason of each transaction
+ * @throws Error if the node could not simulate the sequence
+ */
+export async function simulateSequence(
+  provider: ethers.providers.JsonRpcProvider,
+  txs: ethers.providers.TransactionRequest[]
+): Promise<SimulationResult[]> {
+  const calls = txs.map(({ from, to, data, value }) => ({
+    from,
+    to,
+    data,
+    value: ethers.utils.hexValue(ethers.BigNumber.from(value ?? 0)),
+  }));
+  const [block] = await provider.send("eth_simulateV1", [{ blockStateCalls: [{ calls }] }, "latest"]);
+  const results: SimulatedCall[] | undefined = block?.calls;
+  if (!results || results.length !== txs.length) {
+    throw new Error("The node returned an incomplete simulation");
+  }
+  return results.map((call) =>
+    ethers.BigNumber.from(call.status).eq(1)
+      ? { success: true, gasLimit: ethers.BigNumber.from(call.gasUsed) }
+      : { success: false, reason: getRevertReason(call.error ?? { data: call.returnData }) }
+  );
+}
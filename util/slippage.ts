@@ -0,0 +1,157 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+
+// Slippage tolerance for swaps and CoW orders, and how price impact is graded.
+// Amounts are adjusted in integer basis points so 18-decimal outputs stay exact.
+
+import { ethers } from "ethers";
+import { TokenMetadata } from "./tokens";
+
+export type SlippageSetting = { mode: "auto" } | { mode: "custom"; tolerance: number };
+
+// Auto tolerance for a swap between two tokens pegged to the same currency
+export const STABLE_SLIPPAGE = 0.001;
+
+// Auto tolerance for any other swap
+export const DEFAULT_SLIPPAGE = 0.005;
+
+// Tolerances above this are flagged in the review
+export const HIGH_SLIPPAGE = 0.05;
+
+// Custom tolerances are limited to this range
+export const MIN_SLIPPAGE = 0.0001;
+export const MAX_SLIPPAGE = 0.5;
+
+export type PriceImpactTier = "low" | "medium" | "high";
+
+// Lower bounds of the medium and high price impact tiers
+const MEDIUM_PRICE_IMPACT = 0.01;
+const HIGH_PRICE_IMPACT = 0.03;
+
+const SLIPPAGE_KEY = "brinco_slippage";
+
+const BPS = 10_000;
+
+/**
+ * Lowers a quoted output by a slippage tolerance
+ * @param amountOut Quoted output in the token's smallest unit
+ * @param tolerance Slippage as a fraction, e.g. 0.005 for 0.5%
+ * @returns The minimum output to accept
+ */
+export function applySlippage(amountOut: ethers.BigNumber, tolerance: number): ethers.BigNumber {
+  const bps = Math.round(tolerance * BPS);
+  if (bps < 0 || bps >= BPS) {
+    throw new Error(`Slippage tolerance must be between 0% and 100%, got ${tolerance * 100}%`);
+  }
+  return amountOut.mul(BPS - bps).div(BPS);
+}
+
+/**
+ * Checks a custom tolerance
+ * @param tolerance Slippage as a fraction
+ * @returns Why the tolerance can't be used, or undefined if it can
+ */
+export function validateSlippage(tolerance: number): string | undefined {
+  if (!Number.isFinite(tolerance) || tolerance < MIN_SLIPPAGE || tolerance > MAX_SLIPPAGE) {
+    return `Slippage must be between ${formatSlippage(MIN_SLIPPAGE)} and ${formatSlippage(MAX_SLIPPAGE)}`;
+  }
+  return undefined;
+}
+
+/**
+ * Turns a setting into the tolerance used for a swap. Auto is tighter for
+ * swaps between tokens pegged to the same currency.
+ * @param setting Auto or custom setting
+ * @param fromToken Token being sold
+ * @param toToken Token being bought
+ * @returns Slippage as a fraction
+ */
+export function resolveSlippage(
+  setting: SlippageSetting,
+  fromToken: Pick<TokenMetadata, "fiatPeg">,
+  toToken: Pick<TokenMetadata, "fiatPeg">
+): number {
+  if (setting.mode === "custom") {
+    return setting.tolerance;
+  }
+  const samePeg = fromToken.fiatPeg !== undefined && fromToken.fiatPeg === toToken.fiatPeg;
+  return samePeg ? STABLE_SLIPPAGE : DEFAULT_SLIPPAGE;
+}
+
+/**
+ * Formats a fraction as a percentage, e.g. 0.005 as "0.5%"
+ * @param fraction Slippage or price impact as a fraction
+ */
+export const formatSlippage = (fraction: number): string => `${Number((fraction * 100).toFixed(2))}%`;
+
+/**
+ * Grades how far a swap moves the price
+ * @param priceImpact Price impact as a fraction
+ */
+export function getPriceImpactTier(priceImpact: number): PriceImpactTier {
+  if (priceImpact >= HIGH_PRICE_IMPACT) return "high";
+  if (priceImpact >= MEDIUM_PRICE_IMPACT) return "medium";
+  return "low";
+}
+
+/**
+ * Reads a slippage tolerance asked for in a prompt, such as
+ * "swap with max 0.5% slippage" or "slippage 1%"
+ * @param prompt The user's request
+ * @returns Slippage as a fraction, or undefined if none was asked for
+ */
+export function parseSlippageFromPrompt(prompt: string): number | undefined {
+  const match =
+    /(\d+(?:\.\d+)?)\s*%\s*(?:max(?:imum)?\s+)?slippage/i.exec(prompt) ??
+    /slippage\s*(?:of|to|at|under|below|:)?\s*(?:max(?:imum)?|at most|up to)?\s*(\d+(?:\.\d+)?)\s*%/i.exec(prompt);
+  if (!match) return undefined;
+  const tolerance = Number(match[1]) / 100;
+  return validateSlippage(tolerance) ? undefined : tolerance;
+}
+
+/**
+ * Reads the user's saved slippage setting
+ * @returns The saved setting, or auto
+ */
+export function loadSlippageSetting(): SlippageSetting {
+  if (typeof window === "undefined") return { mode: "auto" };
+  try {
+    const stored = JSON.parse(localStorage.getItem(SLIPPAGE_KEY) ?? "null");
+    if (stored?.mode === "custom" && !validateSlippage(stored.tolerance)) {
+      return { mode: "custom", tolerance: stored.tolerance };
+    }
+  } catch (e) {
+    console.error("Failed to parse slippage setting:", e);
+  }
+  return { mode: "auto" };
+}
+
+/**
+ * Saves the user's slippage setting
+ * @param setting Auto or custom setting
+ */
+export function saveSlippageSetting(setting: SlippageSetting) {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(SLIPPAGE_KEY, JSON.stringify(setting));
+}
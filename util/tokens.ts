@@ -0,0 +1,314 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+// Per-chain token metadata, seeded from Uniswap-style token lists and
+// backfilled from the token contracts themselves
+
+import { ethers } from "ethers";
+import { getConfig } from "./config";
+import { getChainById } from "./chains";
+import defaultTokenList from "./tokenlists/default.tokenlist.json";
+
+export interface TokenMetadata {
+  chainId: number;
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+  isStablecoin: boolean;
+  // ISO currency code the token tracks, e.g. "USD"
+  fiatPeg?: string;
+  // The chain's native currency rather than an ERC20 contract
+  isNative?: boolean;
+}
+
+// Shape of an entry in a token list (https://tokenlists.org)
+interface TokenListEntry {
+  chainId: number;
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+  extensions?: {
+    stablecoin?: boolean;
+    peg?: string;
+  };
+}
+
+// Stands in for the chain's native currency wherever a token address is
+// expected, following the convention CoW Protocol and most aggregators use
+export const NATIVE_TOKEN_ADDRESS = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+const TOKEN_CACHE_KEY = "brinco_token_cache";
+
+const TOKEN_METADATA_ABI = [
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+  "function name() view returns (string)",
+];
+
+const registry = new Map<string, TokenMetadata>();
+const pendingLookups = new Map<string, Promise<TokenMetadata>>();
+let remoteListsLoaded: Promise<void> | null = null;
+
+/**
+ * Normalizes an address to its checksummed form, whatever case it came in
+ * @param address Hex address in any case
+ * @returns The EIP-55 checksummed address
+ * @throws Error if the value is not an address
+ */
+export const normalizeAddress = (address: string): string =>
+  ethers.utils.getAddress(address.toLowerCase());
+
+/**
+ * Tells whether an address is the native currency sentinel
+ * @param address Token address in any case
+ */
+export const isNativeToken = (address: string): boolean =>
+  address.toLowerCase() === NATIVE_TOKEN_ADDRESS.toLowerCase();
+
+/**
+ * Maps the native currency sentinel to the chain's wrapped native token, which
+ * is what DEX pools hold; other addresses are returned unchanged
+ * @param chainId Chain the token lives on
+ * @param address Token address in any case
+ * @throws Error if the address is the sentinel and the chain is not configured
+ */
+export function toWrappedAddress(chainId: number, address: string): string {
+  if (!isNativeToken(address)) {
+    return address;
+  }
+  const chain = getChainById(chainId);
+  if (!chain) {
+    throw new Error(`Unsupported chain id: ${chainId}`);
+  }
+  return chain.weth;
+}
+
+const nativeToken = (chainId: number): TokenMetadata | undefined => {
+  const chain = getChainById(chainId);
+  if (!chain) return undefined;
+  return {
+    chainId,
+    address: NATIVE_TOKEN_ADDRESS,
+    symbol: chain.nativeCurrency.symbol,
+    name: chain.nativeCurrency.name,
+    decimals: chain.nativeCurrency.decimals,
+    isStablecoin: false,
+    isNative: true,
+  };
+};
+
+const tokenKey = (chainId: number, address: string) =>
+  `${chainId}:${address.toLowerCase()}`;
+
+const isTokenListEntry = (value: unknown): value is TokenListEntry => {
+  const entry = value as Partial<TokenListEntry> | null;
+  return (
+    typeof entry === "object" &&
+    entry !== null &&
+    Number.isInteger(entry.chainId) &&
+    typeof entry.address === "string" &&
+    ethers.utils.isAddress(entry.address.toLowerCase()) &&
+    typeof entry.symbol === "string" &&
+    typeof entry.name === "string" &&
+    Number.isInteger(entry.decimals) &&
+    (entry.decimals as number) >= 0 &&
+    (entry.decimals as number) <= 255
+  );
+};
+
+const register = (token: TokenMetadata) => {
+  registry.set(tokenKey(token.chainId, token.address), token);
+};
+
+const readCache = (): TokenMetadata[] => {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = localStorage.getItem(TOKEN_CACHE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error("Failed to parse token cache:", e);
+    return [];
+  }
+};
+
+const writeCache = (token: TokenMetadata) => {
+  if (typeof window === "undefined") return;
+  const cached = readCache().filter(
+    (entry) => tokenKey(entry.chainId, entry.address) !== tokenKey(token.chainId, token.address)
+  );
+  localStorage.setItem(TOKEN_CACHE_KEY, JSON.stringify([...cached, token]));
+};
+
+/**
+ * Adds every valid token of a Uniswap-style token list to the registry
+ * @param list Parsed token list JSON
+ * @returns The number of tokens registered
+ */
+export function loadTokenList(list: unknown): number {
+  const tokens = (list as { tokens?: unknown } | null)?.tokens;
+  if (!Array.isArray(tokens)) {
+    throw new Error("Token list must contain a tokens array");
+  }
+
+  let count = 0;
+  for (const entry of tokens) {
+    if (!isTokenListEntry(entry)) {
+      console.warn("Skipping invalid token list entry:", entry);
+      continue;
+    }
+    const token: TokenMetadata = {
+      chainId: entry.chainId,
+      address: normalizeAddress(entry.address),
+      symbol: entry.symbol,
+      name: entry.name,
+      decimals: entry.decimals,
+      isStablecoin: entry.extensions?.stablecoin === true,
+    };
+    if (entry.logoURI) token.logoURI = entry.logoURI;
+    if (entry.extensions?.peg) token.fiatPeg = entry.extensions.peg;
+    register(token);
+    count++;
+  }
+  return count;
+}
+
+loadTokenList(defaultTokenList);
+readCache().forEach((token) => {
+  // Token lists take precedence over metadata read from contracts
+  if (!registry.has(tokenKey(token.chainId, token.address))) register(token);
+});
+
+/**
+ * Fetches the token lists named in the configuration, once
+ */
+export function loadRemoteTokenLists(): Promise<void> {
+  if (!remoteListsLoaded) {
+    remoteListsLoaded = Promise.all(
+      getConfig().tokenListUrls.map(async (url) => {
+        try {
+          const response = await fetch(url);
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+          }
+          loadTokenList(await response.json());
+        } catch (error) {
+          console.error(`Failed to load token list ${url}:`, error);
+        }
+      })
+    ).then(() => undefined);
+  }
+  return remoteListsLoaded;
+}
+
+/**
+ * Looks up a token in the registry without touching the network
+ * @param chainId Chain the token lives on
+ * @param address Token address in any case
+ * @returns The token's metadata, or undefined if it is unknown
+ */
+export function getToken(chainId: number, address: string): TokenMetadata | undefined {
+  if (isNativeToken(address)) {
+    return nativeToken(chainId);
+  }
+  return registry.get(tokenKey(chainId, address));
+}
+
+/**
+ * Lists every registered ERC20 token on a chain, leaving out the native currency
+ * @param chainId Chain to list
+ */
+export function getTokensForChain(chainId: number): TokenMetadata[] {
+  return Array.from(registry.values()).filter((token) => token.chainId === chainId);
+}
+
+/**
+ * Returns a token's metadata, reading `decimals()`, `symbol()` and `name()`
+ * from the contract when it isn't in any token list. On-chain results are cached.
+ * @param provider Provider connected to the token's chain
+ * @param chainId Chain the token lives on
+ * @param address Token address in any case
+ * @returns The token's metadata
+ * @throws Error if the address is not an ERC20 token on this chain
+ */
+export async function resolveToken(
+  provider: ethers.providers.Provider,
+  chainId: number,
+  address: string
+): Promise<TokenMetadata> {
+  await loadRemoteTokenLists();
+
+  const known = getToken(chainId, address);
+  if (known) {
+    return known;
+  }
+
+  const key = tokenKey(chainId, address);
+  let lookup = pendingLookups.get(key);
+  if (!lookup) {
+    lookup = (async () => {
+      const checksummed = normalizeAddress(address);
+      const contract = new ethers.Contract(checksummed, TOKEN_METADATA_ABI, provider);
+      let decimals: number;
+      try {
+        decimals = await contract.decimals();
+      } catch (error) {
+        throw new Error(`Could not read decimals for token ${checksummed} on chain ${chainId}. Is it an ERC20 token?`);
+      }
+      // symbol() and name() are optional in ERC20
+      const [symbol, name] = await Promise.all([
+        contract.symbol().catch(() => abbreviateAddress(checksummed)),
+        contract.name().catch(() => ""),
+      ]);
+
+      const token: TokenMetadata = {
+        chainId,
+        address: checksummed,
+        symbol,
+        name,
+        decimals,
+        isStablecoin: false,
+      };
+      register(token);
+      writeCache(token);
+      return token;
+    })().finally(() => pendingLookups.delete(key));
+    pendingLookups.set(key, lookup);
+  }
+  return lookup;
+}
+
+const abbreviateAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Returns a short label for a token, falling back to its abbreviated address
+ * @param chainId Chain the token lives on, if known
+ * @param address Token address
+ */
+export function getTokenLabel(chainId: number | undefined, address: string): string {
+  const token = chainId === undefined ? undefined : getToken(chainId, address);
+  return token ? token.symbol : abbreviateAddress(address);
+}
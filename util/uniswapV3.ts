@@ -0,0 +1,273 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+
+// Uniswap V3 quotes from QuoterV2 and swaps through SwapRouter02
+
+import { ethers } from "ethers";
+import { PriceImpactError, WalletProvider, checkAllowanceAndApproveIfNecessary } from "./utils";
+import { requireChain } from "./chains";
+import { getConfig } from "./config";
+import { isNativeToken, resolveToken, toWrappedAddress } from "./tokens";
+import { requireSuccessfulSimulation } from "./simulation";
+import { DEFAULT_FEE_SPEED, FeeSpeed, getTransactionOverrides } from "./fees";
+import { ApprovalMode, DEFAULT_APPROVAL_MODE } from "./approvals";
+import { DEFAULT_SLIPPAGE, applySlippage } from "./slippage";
+
+const QUOTER_V2_ABI = [
+  "function quoteExactInput(bytes path, uint256 amountIn) returns (uint256 amountOut, uint160[] sqrtPriceX96AfterList, uint32[] initializedTicksCrossedList, uint256 gasEstimate)",
+];
+
+const SWAP_ROUTER_02_ABI = [
+  "function exactInput((bytes path, address recipient, uint256 amountIn, uint256 amountOutMinimum) params) payable returns (uint256 amountOut)",
+  "function multicall(uint256 deadline, bytes[] data) payable returns (bytes[] results)",
+  "function unwrapWETH9(uint256 amountMinimum, address recipient) payable",
+];
+
+// SwapRouter02 reads this recipient as itself, so the output can be unwrapped
+// in the same multicall before it is sent on
+const ROUTER_AS_RECIPIENT = "0x0000000000000000000000000000000000000002";
+
+// Pool fee tiers in hundredths of a basis point
+const FEE_TIERS = [100, 500, 3000, 10000];
+
+// Routes through the wrapped native token only try the common tiers, which
+// keeps the number of quoter calls down
+const HOP_FEE_TIERS = [500, 3000];
+
+// Price impact is measured against a quote for this fraction of the amount
+const REFERENCE_DIVISOR = 1000;
+
+export interface UniswapV3Quote {
+  router: string;
+  // Tokens along the route and the fee tier of each pool between them
+  path: string[];
+  fees: number[];
+  amountOut: ethers.BigNumber;
+  amountOutMin: ethers.BigNumber;
+  // Gas the quoter measured for the swap itself
+  gasEstimate: ethers.BigNumber;
+  // How far the trade moves the price, as a fraction
+  priceImpact: number;
+}
+
+// Which sides of a swap are the native currency rather than its wrapped token
+export interface NativeLegs {
+  nativeIn?: boolean;
+  nativeOut?: boolean;
+}
+
+/**
+ * Packs a route into the path format the quoter and router expect
+ * @param path Token addresses along the route
+ * @param fees Fee tier of each pool, one fewer than the tokens
+ */
+export function encodeUniswapV3Path(path: string[], fees: number[]): string {
+  if (fees.length !== path.length - 1) {
+    throw new Error("A Uniswap V3 path needs one fee tier per pool");
+  }
+  const types: string[] = [];
+  const values: (string | number)[] = [];
+  path.forEach((token, i) => {
+    types.push("address");
+    values.push(token);
+    if (i < fees.length) {
+      types.push("uint24");
+      values.push(fees[i]!);
+    }
+  });
+  return ethers.utils.solidityPack(types, values);
+}
+
+/**
+ * Quotes a Uniswap V3 swap over the direct pools and the routes through the
+ * wrapped native token, without sending any transaction. The native currency
+ * is quoted as its wrapped token, which is what the returned path holds.
+ * @param provider Ethers provider connected to the swap's chain
+ * @param chain Chain to quote on
+ * @param fromAsset Token address to swap from
+ * @param toAsset Token address to swap to
+ * @param amountIn Input amount in the token's smallest unit
+ * @param slippage Slippage tolerance as a fraction
+ * @returns The route with the highest output, or null if no pool connects the tokens
+ * @throws PriceImpactError if the route's price impact exceeds the configured limit
+ */
+export async function quoteUniswapV3(
+  provider: ethers.providers.Provider,
+  chain: string,
+  fromAsset: string,
+  toAsset: string,
+  amountIn: ethers.BigNumber,
+  slippage: number = DEFAULT_SLIPPAGE
+): Promise<UniswapV3Quote | null> {
+  const { chainId, uniswapV3Quoter, uniswapV3Router, weth } = requireChain(chain);
+  if (!uniswapV3Quoter || !uniswapV3Router) {
+    throw new Error(`No Uniswap V3 deployment found for chain: ${chain}`);
+  }
+  fromAsset = toWrappedAddress(chainId, fromAsset);
+  toAsset = toWrappedAddress(chainId, toAsset);
+
+  const routes: { path: string[]; fees: number[] }[] = FEE_TIERS.map((fee) => ({
+    path: [fromAsset, toAsset],
+    fees: [fee],
+  }));
+  const touchesWeth = [fromAsset, toAsset].some((token) => token.toLowerCase() === weth.toLowerCase());
+  if (!touchesWeth) {
+    for (const first of HOP_FEE_TIERS) {
+      for (const second of HOP_FEE_TIERS) {
+        routes.push({ path: [fromAsset, weth, toAsset], fees: [first, second] });
+      }
+    }
+  }
+
+  // The quoter simulates the swap and reverts with the result, so it is
+  // called statically; routes without a pool revert and are skipped
+  const quoter = new ethers.Contract(uniswapV3Quoter, QUOTER_V2_ABI, provider);
+  const quotePath = async (path: string[], fees: number[], amount: ethers.BigNumber) => {
+    try {
+      const [amountOut, , , gasEstimate]: [ethers.BigNumber, unknown, unknown, ethers.BigNumber] =
+        await quoter.callStatic.quoteExactInput!(encodeUniswapV3Path(path, fees), amount);
+      return { path, fees, amountOut, gasEstimate };
+    } catch {
+      return null;
+    }
+  };
+  const quotes = await Promise.all(routes.map(({ path, fees }) => quotePath(path, fees, amountIn)));
+
+  const best = quotes.reduce<(typeof quotes)[number]>(
+    (current, quote) => (quote && (!current || quote.amountOut.gt(current.amountOut)) ? quote : current),
+    null
+  );
+  if (!best || best.amountOut.isZero()) {
+    return null;
+  }
+
+  // A quote for a sliver of the amount shows the rate before this trade
+  // moves the pools; both rates include the pool fees, so they cancel out
+  let priceImpact = 0;
+  const referenceIn = amountIn.div(REFERENCE_DIVISOR);
+  const reference = referenceIn.isZero() ? null : await quotePath(best.path, best.fees, referenceIn);
+  if (reference && !reference.amountOut.isZero()) {
+    const ratio = best.amountOut.mul(referenceIn).mul(1_000_000).div(reference.amountOut.mul(amountIn));
+    priceImpact = Math.max(0, 1 - ratio.toNumber() / 1_000_000);
+  }
+
+  const { maxPriceImpact } = getConfig().swaps;
+  if (priceImpact > maxPriceImpact) {
+    const symbols = await Promise.all(
+      best.path.map(async (token) => (await resolveToken(provider, chainId, token)).symbol)
+    );
+    throw new PriceImpactError(priceImpact, maxPriceImpact, `${symbols.join(" → ")} on Uniswap V3`);
+  }
+
+  return {
+    router: uniswapV3Router,
+    ...best,
+    amountOutMin: applySlippage(best.amountOut, slippage),
+    priceImpact,
+  };
+}
+
+/**
+ * Builds the router call for a quoted swap, with a 20 minute deadline. Native
+ * input is sent as the call's value, which the router wraps; native output is
+ * unwrapped by the router before it reaches the recipient.
+ * @param quote Quote from `quoteUniswapV3`
+ * @param amountIn Input amount the quote was made for
+ * @param recipient Address receiving the output
+ * @param legs Which sides of the swap are the native currency
+ */
+export async function populateUniswapV3Swap(
+  quote: UniswapV3Quote,
+  amountIn: ethers.BigNumber,
+  recipient: string,
+  { nativeIn = false, nativeOut = false }: NativeLegs = {}
+): Promise<ethers.PopulatedTransaction> {
+  const router = new ethers.Contract(quote.router, SWAP_ROUTER_02_ABI);
+  const calls = [
+    router.interface.encodeFunctionData("exactInput", [
+      {
+        path: encodeUniswapV3Path(quote.path, quote.fees),
+        recipient: nativeOut ? ROUTER_AS_RECIPIENT : recipient,
+        amountIn,
+        amountOutMinimum: quote.amountOutMin,
+      },
+    ]),
+  ];
+  if (nativeOut) {
+    calls.push(router.interface.encodeFunctionData("unwrapWETH9", [quote.amountOutMin, recipient]));
+  }
+  const deadline = Math.floor(Date.now() / 1000) + 60 * 20;
+  return router.populateTransaction["multicall(uint256,bytes[])"]!(deadline, calls, {
+    value: nativeIn ? amountIn : 0,
+  });
+}
+
+/**
+ * Performs a token swap using Uniswap V3, over the best route the quoter finds
+ * @param wallets Connected wallets
+ * @param chain Chain to use for the swap
+ * @param fromAsset Token address to swap from, or the native currency sentinel
+ * @param toAsset Token address to swap to, or the native currency sentinel
+ * @param amount Amount to swap in human readable format
+ * @param speed Fee preset
+ * @param approval Exact or unlimited approval, if one is needed
+ * @param slippage Slippage tolerance as a fraction
+ * @returns The transaction hash
+ */
+export async function uniswapV3Swap(
+  wallets: WalletProvider[],
+  chain: string,
+  fromAsset: string,
+  toAsset: string,
+  amount: string,
+  speed: FeeSpeed = DEFAULT_FEE_SPEED,
+  approval: ApprovalMode = DEFAULT_APPROVAL_MODE,
+  slippage: number = DEFAULT_SLIPPAGE
+): Promise<string> {
+  if (!wallets[0]) {
+    throw new Error("No wallet is connected!");
+  }
+
+  const { chainId } = requireChain(chain);
+  await wallets[0].switchChain(chainId);
+  const provider = await wallets[0].getEthersProvider();
+  const signer = provider.getSigner();
+  const fromAddress = await signer.getAddress();
+
+  const { decimals } = await resolveToken(provider, chainId, fromAsset);
+  const amountIn = ethers.utils.parseUnits(amount, decimals);
+
+  const quote = await quoteUniswapV3(provider, chain, fromAsset, toAsset, amountIn, slippage);
+  if (!quote) {
+    throw new Error("No Uniswap V3 pool connects these tokens");
+  }
+
+  await checkAllowanceAndApproveIfNecessary(chain, quote.router, fromAsset, signer, amountIn, speed, approval);
+
+  const legs = { nativeIn: isNativeToken(fromAsset), nativeOut: isNativeToken(toAsset) };
+  const tx = { ...(await populateUniswapV3Swap(quote, amountIn, fromAddress, legs)), from: fromAddress };
+  const gas = await requireSuccessfulSimulation(provider, tx);
+  const sent = await signer.sendTransaction({ ...tx, ...(await getTransactionOverrides(provider, gas, speed)) });
+  return sent.hash;
+}
@@ -22,7 +22,6 @@
  */
 
 import { ethers } from "ethers";
-import { ConnectedWallet } from "@privy-io/react-auth";
 import {
   OrderBookApi,
   OrderSigningUtils,
@@ -31,23 +30,38 @@ import {
   SigningScheme,
   COW_PROTOCOL_VAULT_RELAYER_ADDRESS,
   OrderQuoteRequest,
-  OrderStatus,
+  ORDER_BOOK_PROD_CONFIG,
+  ORDER_BOOK_STAGING_CONFIG,
 } from "@cowprotocol/cow-sdk";
+import { getConfig } from "./config";
+import { getChainById, getMoonPayCurrencyCode, requireChain } from "./chains";
+import { isNativeToken, resolveToken, toWrappedAddress } from "./tokens";
+import { SimulationError, requireSuccessfulSimulation } from "./simulation";
+import { DEFAULT_FEE_SPEED, FeeSpeed, getTransactionOverrides } from "./fees";
+import { DEFAULT_SLIPPAGE, applySlippage } from "./slippage";
+import { RpcProvider, getRpcProvider, waitForReceipt } from "./rpc";
+import {
+  ApprovalMode,
+  DEFAULT_APPROVAL_MODE,
+  getApprovalAmount,
+  signPermitHook,
+  supportsPermit,
+} from "./approvals";
 type Address = string;
 
-// Add Uniswap V2 constants
-const UNISWAP_V2_ROUTER: { [key: number]: string } = {
-  1: "0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D", // mainnet
-  11155111: "0xC532a74256D3Db42D0Bf7a0400fEFDbad7694008", // sepolia
-};
-
-const UNISWAP_V2_FACTORY: { [key: number]: string } = {
-  1: "0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f", // mainnet
-  11155111: "0x7E0987E5b3a30e3f2828572Bb659A548460a3003", // sepolia
-};
+/**
+ * The subset of a connected wallet the transaction helpers rely on. Privy's
+ * `ConnectedWallet` satisfies it, and so does a thin wrapper around any
+ * JSON-RPC node with unlocked accounts (e.g. a local Anvil instance).
+ */
+export interface WalletProvider {
+  address: string;
+  switchChain: (chainId: number) => Promise<void>;
+  getEthersProvider: () => Promise<ethers.providers.JsonRpcProvider>;
+}
 
 // Uniswap V2 Router ABI
-const UNISWAP_V2_ROUTER_ABI = [
+export const UNISWAP_V2_ROUTER_ABI = [
   "function getAmountsOut(uint amountIn, address[] memory path) public view returns (uint[] memory amounts)",
   "function swapExactTokensForTokens(uint amountIn, uint amountOutMin, address[] calldata path, address to, uint deadline) external returns (uint[] memory amounts)",
   "function swapExactTokensForETH(uint amountIn, uint amountOutMin, address[] calldata path, address to, uint deadline) external returns (uint[] memory amounts)",
@@ -57,73 +71,79 @@ const UNISWAP_V2_ROUTER_ABI = [
 // Add Uniswap V2 Factory ABI
 const UNISWAP_V2_FACTORY_ABI = [
   "function getPair(address tokenA, address tokenB) external view returns (address pair)",
-  "function createPair(address tokenA, address tokenB) external returns (address pair)"
 ];
 
-const decimalConverter: { [key: number]: { [key: string]: number } } = {
-  11155111: {
-    // sepolia
-    "0x7b79995e5f793A07Bc00c21412e50Ecae098E7f9": 18, // Sepolia WETH
-    "0x94a9d9ac8a22534e3faca9f4e7f2e2cf85d5e4c8": 6, // cowswap testnet USDC (cowswap liquidity address)
-    "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238": 6, // transfer testnet USDC
-    "0x08210F9170F89Ab7658F0B5E3fF39b0E03C594D4": 6, // testnet EURC
-    "0xB4F1737Af37711e9A5890D9510c9bB60e170CB0D": 18, // cowswap test DAI
-    "0xbe72E441BF55620febc26715db68d3494213D8Cb": 18, // cowswap test USDC (if applicable)
-  },
-  1: {
-    // mainnet
-    "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2": 18, // WETH
-    "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48": 6, // USDC
-    "0x6B175474E89094C44Da98b954EedeAC495271d0F": 18, // DAI
-    "0x1aBaEA1f7C830bD89Acc67eC4af516284b1bC33c": 6, // EURC
-  },
-};
+const UNISWAP_V2_PAIR_ABI = [
+  "function getReserves() external view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)",
+  "function token0() external view returns (address)",
+];
 
-export const chainToUrl: Record<string, string> = {
-  sepolia: "https://sepolia.etherscan.io/tx/",
-  base: "https://basescan.org/tx/",
-  mainnet: "https://etherscan.io/tx",
-};
+// Identifies orders placed from this app in CoW Protocol app data
+const COW_APP_CODE = "Brinco";
 
-const supportedChains: { [key: string]: number } = {
-  sepolia: 11155111,
-  mainnet: 1,
-  base: 8453,
+let defaultMainnetProvider: ethers.providers.BaseProvider | null = null;
+
+/**
+ * Returns the Ethereum mainnet provider ENS names are resolved against
+ */
+export const getMainnetProvider = (): ethers.providers.BaseProvider => {
+  // ENS lives on Ethereum mainnet, whatever chain the user transacts on
+  const mainnet = getChainById(1);
+  if (mainnet) {
+    return getRpcProvider(mainnet.key);
+  }
+  // Without a configured mainnet, fall back to the public endpoints ethers knows
+  defaultMainnetProvider ??= ethers.getDefaultProvider("mainnet");
+  return defaultMainnetProvider;
 };
 
-const mainnetRpcUrls = [
-  "https://eth.llamarpc.com",
-  "https://ethereum.publicnode.com",
-  "https://1rpc.io/eth",
-  "https://rpc.ankr.com/eth", 
-];
+/**
+ * Returns a read-only provider for a chain from its configured RPC endpoints,
+ * independent of the chain the user's wallet is on
+ * @param chain Chain name
+ * @returns A provider that fails over between the chain's RPC endpoints
+ */
+export const getReadProvider = (chain: string): RpcProvider => getRpcProvider(chain);
 
-// Create a provider with fallback mechanism
-const createMainnetProvider = (): ethers.providers.Provider => {
-  // Try JsonRpcProviders first
-  for (const url of mainnetRpcUrls) {
-    try {
-      return new ethers.providers.JsonRpcProvider(url);
-    } catch (e) {
-      console.warn(`Failed to connect to RPC ${url}`, e);
-    }
-  }
-  
-  // If all else fails, use Ethers' built-in default provider which has its own fallbacks
-  console.warn("All RPC connections failed, using default provider");
-  return ethers.getDefaultProvider('mainnet');
+/**
+ * Creates a CoW Protocol order book client using the configured API endpoints
+ * @param chainId Chain the order book serves
+ */
+export const createOrderBookApi = (chainId: number): OrderBookApi => {
+  if (!Object.values(SupportedChainId).includes(chainId)) {
+    throw new Error(`CoW Protocol does not support chain ${chainId}`);
+  }
+  const { env, baseUrls } = getConfig().aggregators.cow;
+  if (!baseUrls) {
+    return new OrderBookApi({ chainId, env });
+  }
+  return new OrderBookApi({
+    chainId,
+    env,
+    baseUrls: {
+      ...(env === "prod" ? ORDER_BOOK_PROD_CONFIG : ORDER_BOOK_STAGING_CONFIG),
+      ...baseUrls,
+    },
+  });
 };
 
-// Create the provider once
-const mainnetProvider = createMainnetProvider();
-
-const resolveNameOrAddress = async (addressOrENS: string): Promise<string> => {
+/**
+ * Forward-resolves an ENS name; addresses are returned unchanged
+ * @param addressOrENS 0x address or ENS name
+ * @param provider Provider to resolve against, Ethereum mainnet by default
+ * @returns The address
+ * @throws Error if the name does not resolve
+ */
+export const resolveNameOrAddress = async (
+  addressOrENS: string,
+  provider: ethers.providers.Provider = getMainnetProvider()
+): Promise<string> => {
   if (ethers.utils.isAddress(addressOrENS)) {
     return addressOrENS;
   }
   
   try {
-    const resolved = await mainnetProvider.resolveName(addressOrENS);
+    const resolved = await provider.resolveName(addressOrENS);
     if (resolved) {
       return resolved;
     }
@@ -134,7 +154,7 @@ const resolveNameOrAddress = async (addressOrENS: string): Promise<string> => {
   }
 };
 
-const ERC20_ABI = [
+export const ERC20_ABI = [
   // Read-Only Functions
   "function balanceOf(address owner) view returns (uint256)",
   "function decimals() view returns (uint8)",
@@ -149,13 +169,63 @@ const ERC20_ABI = [
   "event Transfer(address indexed from, address indexed to, uint amount)",
 ];
 
-// Helper function to check allowance and submit an approval if necessary
-async function checkAllowanceAndApproveIfNecessary(
+/**
+ * Sends an ERC20 approval after simulating it
+ * @param signer Token owner
+ * @param tokenAddress Token contract
+ * @param spender Address being allowed to spend
+ * @param amount Allowance to set; zero revokes it
+ * @param speed Fee preset
+ * @returns The approval transaction
+ */
+export async function approveToken(
+  signer: ethers.providers.JsonRpcSigner,
+  tokenAddress: string,
+  spender: string,
+  amount: ethers.BigNumber,
+  speed: FeeSpeed = DEFAULT_FEE_SPEED
+): Promise<ethers.providers.TransactionResponse> {
+  const token = new ethers.Contract(tokenAddress, ERC20_ABI, signer);
+  const gas = await requireSuccessfulSimulation(signer.provider, {
+    ...(await token.populateTransaction.approve!(spender, amount)),
+    from: await signer.getAddress(),
+  });
+  return token.approve(spender, amount, await getTransactionOverrides(signer.provider, gas, speed));
+}
+
+/**
+ * Reads a balance of an ERC20 token or of the native currency
+ * @param provider Provider connected to the token's chain
+ * @param tokenAddress Token contract, or the native currency sentinel
+ * @param owner Address holding the balance
+ * @returns The balance in the token's smallest unit
+ */
+export async function getTokenBalance(
+  provider: ethers.providers.Provider,
+  tokenAddress: string,
+  owner: string
+): Promise<ethers.BigNumber> {
+  if (isNativeToken(tokenAddress)) {
+    return provider.getBalance(owner);
+  }
+  const token = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
+  return token.balanceOf(owner);
+}
+
+// Helper function to check allowance and submit an approval if necessary.
+// The native currency is sent along with the call, so it never needs one.
+export async function checkAllowanceAndApproveIfNecessary(
+  chain: string,
   targetContract: string,
   tokenContract: string,
   signer: ethers.providers.JsonRpcSigner,
-  requiredAmount: ethers.BigNumber
+  requiredAmount: ethers.BigNumber,
+  speed: FeeSpeed = DEFAULT_FEE_SPEED,
+  approval: ApprovalMode = DEFAULT_APPROVAL_MODE
 ): Promise<void> {
+  if (isNativeToken(tokenContract)) {
+    return;
+  }
   const sellTokenContract = new ethers.Contract(
     tokenContract,
     ERC20_ABI,
@@ -171,16 +241,26 @@ async function checkAllowanceAndApproveIfNecessary(
   if (existingAllowance.gte(sellAmountBn)) {
     console.log("existing allowance is sufficient");
   } else {
-    const sellTokenSigner = sellTokenContract.connect(signer);
-    const tx = await await sellTokenSigner.approve(
-      targetContract,
-      ethers.constants.MaxUint256
-    );
-    console.log("Sending approval transaction...");
-    // Waiting for the transaction to be mined
-    const receipt = await tx.wait();
-    // The transaction is now on chain!
-    console.log(`Approval finalized in block ${receipt.blockNumber}`);
+    const amount = getApprovalAmount(approval, sellAmountBn);
+    const approve = async (value: ethers.BigNumber) => {
+      const tx = await approveToken(signer, tokenContract, targetContract, value, speed);
+      console.log("Sending approval transaction...");
+      // Waiting for the transaction to be mined
+      const receipt = await waitForReceipt(chain, tx);
+      // The transaction is now on chain!
+      console.log(`Approval finalized in block ${receipt.blockNumber}`);
+    };
+
+    try {
+      await approve(amount);
+    } catch (error) {
+      // Tokens like USDT refuse to change one non-zero allowance into another
+      if (!(error instanceof SimulationError) || existingAllowance.isZero()) {
+        throw error;
+      }
+      await approve(ethers.constants.Zero);
+      await approve(amount);
+    }
   }
 }
 
@@ -189,101 +269,94 @@ export const abbreviateTransactionHash = (hash: string) => {
   return `${hash.slice(0, 6)}...${hash.slice(-4)}`;
 };
 
-export const BACKEND_URL = "http://localhost:8000/";
-
 /**
  * Asynchronously waits for the specified number of milliseconds.
  * @param ms - The number of milliseconds to wait.
- * @returns {Promise<void>} - A Promise that resolves after the specified time.
+ * @param signal - Ends the wait early when aborted.
+ * @returns {Promise<void>} - A Promise that resolves after the specified time, or once the signal aborts.
  */
-async function sleep(ms: number): Promise<void> {
+export async function sleep(ms: number, signal?: AbortSignal): Promise<void> {
   return new Promise((resolve) => {
-    setTimeout(() => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
       resolve();
-    }, ms);
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done);
   });
 }
 
 export async function sendTransaction(
-  wallets: ConnectedWallet[],
+  wallets: WalletProvider[],
   receiver: Address,
   amount: string,
   chain: string,
-  erc20ContractAddress: Address
+  erc20ContractAddress: Address,
+  speed: FeeSpeed = DEFAULT_FEE_SPEED
 ): Promise<ethers.providers.TransactionResponse> {
   if (!wallets[0]) {
     throw new Error("No wallet is connected!");
   }
 
-  const chainId = supportedChains[chain];
-  if (chainId === undefined) {
-    throw new Error("Unsupported chain");
-  }
+  const { chainId } = requireChain(chain);
 
   await wallets[0].switchChain(chainId);
   const provider = await wallets[0].getEthersProvider();
   const signer = provider.getSigner();
 
-  const contract = new ethers.Contract(erc20ContractAddress, ERC20_ABI, signer);
-
-  const chainDecimals = decimalConverter[chainId];
-  if (chainDecimals === undefined) {
-    throw new Error(`No decimals for chain: ${chain}`);
-  }
+  const { decimals } = await resolveToken(provider, chainId, erc20ContractAddress);
+  const amount_decimals = ethers.utils.parseUnits(amount, decimals);
 
-  const decimals = chainDecimals[erc20ContractAddress];
-  if (decimals === undefined) {
-    throw new Error(`No decimals for token: ${erc20ContractAddress}`);
-  }
+  // The mainnet read provider already fails over between endpoints
+  const receiverAddress = await resolveNameOrAddress(receiver);
 
-  const amount_decimals = ethers.utils.parseUnits(amount, decimals);
-  const contractSigner = contract.connect(signer);
+  // The native currency is sent as the transaction's value, tokens through transfer()
+  const contract = new ethers.Contract(erc20ContractAddress, ERC20_ABI, signer);
+  const request: ethers.PopulatedTransaction = isNativeToken(erc20ContractAddress)
+    ? { to: receiverAddress, value: amount_decimals }
+    : await contract.populateTransaction.transfer!(receiverAddress, amount_decimals);
 
-  let receiverAddress: string;
-  try {
-    receiverAddress = await resolveNameOrAddress(receiver);
-  } catch (error) {
-    // Try one more time with direct wallet provider if possible
-    if (!ethers.utils.isAddress(receiver) && chain === 'mainnet') {
-      try {
-        // If we're on mainnet, try to resolve directly with the wallet's provider
-        console.log("Trying to resolve ENS with wallet provider");
-        const resolved = await provider.resolveName(receiver);
-        if (resolved) {
-          receiverAddress = resolved;
-        } else {
-          throw error; // Re-throw if still null
-        }
-      } catch (secondError) {
-        // If both resolution attempts fail, throw a user-friendly error
-        console.error("Both ENS resolution attempts failed:", secondError);
-        throw new Error(`Could not resolve name '${receiver}'. Please use a valid ENS name or Ethereum address.`);
-      }
-    } else {
-      throw error;
-    }
-  }
+  const gas = await requireSuccessfulSimulation(provider, { ...request, from: wallets[0].address });
 
   console.log("Sending transaction...");
-  const tx = await contractSigner.transfer(receiverAddress, amount_decimals);
+  const tx = await signer.sendTransaction({
+    ...request,
+    ...(await getTransactionOverrides(provider, gas, speed)),
+  });
   return tx;
 }
 
+export interface CowOrderSubmission {
+  orderId: string;
+  // Buy amount the order was quoted at, before slippage, in the token's smallest unit
+  quotedBuyAmount: string;
+  // Unix time in seconds after which the order expires
+  validTo: number;
+}
+
 export async function sendOrder(
-  wallets: ConnectedWallet[],
+  wallets: WalletProvider[],
   chain: string,
   fromAsset: string,
   toAsset: string,
-  amount: string
-): Promise<string> {
-  const chainId = supportedChains[chain];
-  if (chainId === undefined) {
-    throw new Error("Unsupported chain");
-  }
+  amount: string,
+  speed: FeeSpeed = DEFAULT_FEE_SPEED,
+  approval: ApprovalMode = DEFAULT_APPROVAL_MODE,
+  slippage: number = DEFAULT_SLIPPAGE
+): Promise<CowOrderSubmission> {
+  const { chainId } = requireChain(chain);
 
   if (!wallets[0]) {
     throw new Error("No wallet is connected!");
   }
+  if (isNativeToken(fromAsset)) {
+    throw new Error("CoW Protocol orders can't sell the native currency directly. Wrap it first.");
+  }
 
   await wallets[0].switchChain(chainId);
 
@@ -291,18 +364,31 @@ export async function sendOrder(
   const signer = provider.getSigner();
   const fromAddress = await signer.getAddress();
 
-  const chainDecimals = decimalConverter[chainId];
-  if (chainDecimals === undefined) {
-    throw new Error(`No decimals for chain: ${chain}`);
-  }
+  const { decimals } = await resolveToken(provider, chainId, fromAsset);
+  const amountDecimals = ethers.utils.parseUnits(amount, decimals).toString();
 
-  const decimals = chainDecimals[fromAsset];
-  if (decimals === undefined) {
-    throw new Error(`No decimals for token: ${fromAsset}`);
-  }
+  const vaultAddr =
+    COW_PROTOCOL_VAULT_RELAYER_ADDRESS[chainId as SupportedChainId];
+  const sellAmount = ethers.BigNumber.from(amountDecimals);
 
-  const amountDecimals = ethers.utils.parseUnits(amount, decimals).toString();
-  const slippage = 0.05;
+  // Tokens with EIP-2612 permits are approved by a signed permit that the
+  // settlement runs as a pre-hook, so no approval transaction is sent
+  const allowance: ethers.BigNumber = await new ethers.Contract(fromAsset, ERC20_ABI, provider).allowance(
+    fromAddress,
+    vaultAddr
+  );
+  let appData: { appData: string; appDataHash: string } | undefined;
+  if (allowance.lt(sellAmount) && (await supportsPermit(provider, chainId, fromAsset))) {
+    const hook = await signPermitHook(signer, chainId, fromAsset, vaultAddr, getApprovalAmount(approval, sellAmount));
+    const document = JSON.stringify({
+      appCode: COW_APP_CODE,
+      metadata: { hooks: { pre: [hook], version: "0.1.0" } },
+      version: "1.1.0",
+    });
+    appData = { appData: document, appDataHash: ethers.utils.keccak256(ethers.utils.toUtf8Bytes(document)) };
+  } else {
+    await checkAllowanceAndApproveIfNecessary(chain, vaultAddr, fromAsset, signer, sellAmount, speed, approval);
+  }
 
   const quoteRequest: OrderQuoteRequest = {
     sellToken: fromAsset,
@@ -311,26 +397,20 @@ export async function sendOrder(
     receiver: fromAddress,
     sellAmountBeforeFee: amountDecimals,
     kind: OrderQuoteSideKindSell.SELL,
+    validFor: getConfig().aggregators.cow.orderValiditySeconds,
+    ...appData,
   };
 
-  const vaultAddr =
-    COW_PROTOCOL_VAULT_RELAYER_ADDRESS[chainId as SupportedChainId];
-  await checkAllowanceAndApproveIfNecessary(
-    vaultAddr,
-    fromAsset,
-    signer,
-    ethers.BigNumber.from(amountDecimals)
-  );
-
-  const orderBookApi = new OrderBookApi({ chainId: chainId });
+  const orderBookApi = createOrderBookApi(chainId);
   try {
     const { quote, ...quoteParams } = await orderBookApi.getQuote(quoteRequest);
 
+    // Orders are placed with a zero fee: the quoted fee goes back into the
+    // sell amount, and solvers take their fee out of it at settlement
+    quote.sellAmount = ethers.BigNumber.from(quote.sellAmount).add(quote.feeAmount).toString();
     quote.feeAmount = "0";
-    quote.sellAmount = amountDecimals;
-    quote.buyAmount = Math.round(
-      Number(quote.buyAmount) * (1 - slippage)
-    ).toString();
+    const quotedBuyAmount = quote.buyAmount;
+    quote.buyAmount = applySlippage(ethers.BigNumber.from(quote.buyAmount), slippage).toString();
 
     const orderSigningResult = await OrderSigningUtils.signOrder(
       { ...quote, receiver: fromAddress },
@@ -344,9 +424,11 @@ export async function sendOrder(
       signingScheme: SigningScheme.EIP712,
       quoteId: quoteParams.id,
       from: fromAddress,
+      ...appData,
     };
 
-    return await orderBookApi.sendOrder(orderObj);
+    const orderId = await orderBookApi.sendOrder(orderObj);
+    return { orderId, quotedBuyAmount, validTo: quote.validTo };
   } catch (error: any) {
     // Properly propagate NoLiquidity error with appropriate message
     if (error.body && error.body.errorType === "NoLiquidity") {
@@ -357,110 +439,328 @@ export async function sendOrder(
   }
 }
 
-export async function waitForOrderStatus(
-  orderId: string,
-  chain: string
-): Promise<OrderStatus> {
-  const chainId = supportedChains[chain];
-  if (chainId === undefined) {
-    throw new Error("Unsupported chain");
+/**
+ * Thrown when the best route for a swap would move the price by more than the
+ * configured limit, which happens when its pools hold too little liquidity
+ */
+export class PriceImpactError extends Error {
+  readonly priceImpact: number;
+
+  constructor(priceImpact: number, maxPriceImpact: number, route: string) {
+    super(
+      `This swap would move the price by ${formatPercent(priceImpact)} through ${route}, more than the ` +
+        `${formatPercent(maxPriceImpact)} limit. The pools on this route don't hold enough liquidity for this amount; ` +
+        `try a smaller amount.`
+    );
+    this.name = "PriceImpactError";
+    this.priceImpact = priceImpact;
   }
+}
 
-  const orderBookApi = new OrderBookApi({ chainId: chainId });
-  let orderStatus: OrderStatus = OrderStatus.OPEN;
-  while (orderStatus == OrderStatus.OPEN) {
-    // wait three seconds
-    await sleep(3000);
-    const enrichedOrder = await orderBookApi.getOrder(orderId);
-    orderStatus = enrichedOrder.status;
-  }
-  return orderStatus;
+const formatPercent = (fraction: number) => `${(fraction * 100).toFixed(2)}%`;
+
+interface PairReserves {
+  // Reserves ordered as [tokenA, tokenB] for the pair key they were read for
+  reserveA: ethers.BigNumber;
+  reserveB: ethers.BigNumber;
 }
 
+const pairKey = (tokenA: string, tokenB: string) => `${tokenA.toLowerCase()}:${tokenB.toLowerCase()}`;
+
 /**
- * Checks if a liquidity pool exists between two tokens
+ * Reads the reserves of a Uniswap V2 pair
  * @param provider Ethers provider
  * @param factoryAddress Uniswap V2 Factory address
  * @param tokenA First token address
  * @param tokenB Second token address
- * @returns True if a pool exists, false otherwise
+ * @returns The reserves in the order of the tokens given, or null if the pair doesn't exist or is empty
  */
-async function checkLiquidityPoolExists(
+async function readPairReserves(
   provider: ethers.providers.Provider,
   factoryAddress: string,
   tokenA: string,
   tokenB: string
-): Promise<boolean> {
+): Promise<PairReserves | null> {
   try {
-    const factory = new ethers.Contract(
-      factoryAddress,
-      UNISWAP_V2_FACTORY_ABI,
-      provider
-    );
-    
-    const pairAddress = await factory.getPair(tokenA, tokenB);
-    return pairAddress !== ethers.constants.AddressZero;
+    const factory = new ethers.Contract(factoryAddress, UNISWAP_V2_FACTORY_ABI, provider);
+    const pairAddress: string = await factory.getPair(tokenA, tokenB);
+    if (pairAddress === ethers.constants.AddressZero) {
+      return null;
+    }
+    const pair = new ethers.Contract(pairAddress, UNISWAP_V2_PAIR_ABI, provider);
+    const [[reserve0, reserve1], token0]: [[ethers.BigNumber, ethers.BigNumber], string] = await Promise.all([
+      pair.getReserves(),
+      pair.token0(),
+    ]);
+    if (reserve0.isZero() || reserve1.isZero()) {
+      return null;
+    }
+    return token0.toLowerCase() === tokenA.toLowerCase()
+      ? { reserveA: reserve0, reserveB: reserve1 }
+      : { reserveA: reserve1, reserveB: reserve0 };
   } catch (error) {
-    console.error("Error checking liquidity pool:", error);
-    return false;
+    console.error("Error reading liquidity pool:", error);
+    return null;
   }
 }
 
+// Output of a Uniswap V2 pool for an input, after its 0.3% fee
+const getAmountOut = (amountIn: ethers.BigNumber, reserveIn: ethers.BigNumber, reserveOut: ethers.BigNumber) => {
+  const amountInWithFee = amountIn.mul(997);
+  return amountInWithFee.mul(reserveOut).div(reserveIn.mul(1000).add(amountInWithFee));
+};
+
+/**
+ * Lists the direct route and the routes through one or two base tokens
+ * @param fromAsset Token to swap from
+ * @param toAsset Token to swap to
+ * @param baseTokens Tokens routes may hop through
+ */
+const candidatePaths = (fromAsset: string, toAsset: string, baseTokens: string[]): string[][] => {
+  const hops = baseTokens.filter(
+    (token, i) =>
+      ![fromAsset, toAsset].some((end) => end.toLowerCase() === token.toLowerCase()) &&
+      baseTokens.findIndex((other) => other.toLowerCase() === token.toLowerCase()) === i
+  );
+  const paths = [[fromAsset, toAsset], ...hops.map((hop) => [fromAsset, hop, toAsset])];
+  for (const first of hops) {
+    for (const second of hops) {
+      if (first !== second) paths.push([fromAsset, first, second, toAsset]);
+    }
+  }
+  return paths;
+};
+
+export interface UniswapV2Quote {
+  router: string;
+  path: string[];
+  amountOut: ethers.BigNumber;
+  amountOutMin: ethers.BigNumber;
+  // How far the trade moves the price, as a fraction, not counting pool fees
+  priceImpact: number;
+}
+
+/**
+ * Quotes a Uniswap V2 swap without sending any transaction. Routes are found
+ * from pair reserves: the direct pool and every route through one or two of
+ * the chain's base tokens are priced, and the one with the highest output wins.
+ * The native currency is routed as the wrapped native token, which is what the
+ * returned path holds.
+ * @param provider Ethers provider connected to the swap's chain
+ * @param chain Chain to quote on
+ * @param fromAsset Token address to swap from
+ * @param toAsset Token address to swap to
+ * @param amountIn Input amount in the token's smallest unit
+ * @param slippage Slippage tolerance as a fraction
+ * @returns The route and expected output, or null if no pools with liquidity connect the tokens
+ * @throws PriceImpactError if the best route's price impact exceeds the configured limit
+ */
+export async function quoteUniswapV2(
+  provider: ethers.providers.Provider,
+  chain: string,
+  fromAsset: string,
+  toAsset: string,
+  amountIn: ethers.BigNumber,
+  slippage: number = DEFAULT_SLIPPAGE
+): Promise<UniswapV2Quote | null> {
+  const {
+    uniswapV2Router: routerAddress,
+    uniswapV2Factory: factoryAddress,
+    weth: wethAddress,
+    baseTokens,
+  } = requireChain(chain);
+  if (!routerAddress || !factoryAddress) {
+    throw new Error(`No Uniswap V2 deployment found for chain: ${chain}`);
+  }
+
+  const { chainId } = requireChain(chain);
+  const paths = candidatePaths(
+    toWrappedAddress(chainId, fromAsset),
+    toWrappedAddress(chainId, toAsset),
+    [wethAddress, ...baseTokens]
+  );
+
+  // Read every pair the candidate routes use once
+  const reserves = new Map<string, PairReserves | null>();
+  const pairs = new Map<string, [string, string]>();
+  for (const path of paths) {
+    for (let i = 0; i < path.length - 1; i++) {
+      pairs.set(pairKey(path[i]!, path[i + 1]!), [path[i]!, path[i + 1]!]);
+    }
+  }
+  await Promise.all(
+    Array.from(pairs.entries()).map(async ([key, [tokenA, tokenB]]) => {
+      reserves.set(key, await readPairReserves(provider, factoryAddress, tokenA, tokenB));
+    })
+  );
+
+  let best: { path: string[]; amountOut: ethers.BigNumber; priceImpact: number } | null = null;
+  for (const path of paths) {
+    let amountOut = amountIn;
+    // Output at the pools' current prices, fees included, for the price impact
+    let spotOut = amountIn;
+    let routable = true;
+    for (let i = 0; i < path.length - 1; i++) {
+      const pair = reserves.get(pairKey(path[i]!, path[i + 1]!));
+      if (!pair) {
+        routable = false;
+        break;
+      }
+      amountOut = getAmountOut(amountOut, pair.reserveA, pair.reserveB);
+      spotOut = spotOut.mul(997).mul(pair.reserveB).div(pair.reserveA.mul(1000));
+    }
+    if (!routable || amountOut.isZero() || spotOut.isZero()) {
+      continue;
+    }
+    const priceImpact = 1 - amountOut.mul(1_000_000).div(spotOut).toNumber() / 1_000_000;
+    if (!best || amountOut.gt(best.amountOut)) {
+      best = { path, amountOut, priceImpact };
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+
+  const { maxPriceImpact } = getConfig().swaps;
+  if (best.priceImpact > maxPriceImpact) {
+    const symbols = await Promise.all(
+      best.path.map(async (token) => (await resolveToken(provider, chainId, token)).symbol)
+    );
+    throw new PriceImpactError(best.priceImpact, maxPriceImpact, `${symbols.join(" → ")} on Uniswap V2`);
+  }
+
+  return {
+    router: routerAddress,
+    path: best.path,
+    amountOut: best.amountOut,
+    amountOutMin: applySlippage(best.amountOut, slippage),
+    priceImpact: best.priceImpact,
+  };
+}
+
+export interface CowQuote {
+  vaultRelayer: string;
+  buyAmount: ethers.BigNumber;
+  minBuyAmount: ethers.BigNumber;
+}
+
+/**
+ * Requests a CoW Protocol quote without signing an order
+ * @param chain Chain to quote on
+ * @param owner Address that would place the order
+ * @param fromAsset Token address to sell
+ * @param toAsset Token address to buy
+ * @param amountIn Sell amount in the token's smallest unit
+ * @param slippage Slippage tolerance as a fraction
+ * @returns The quoted buy amount and the minimum accepted after slippage
+ */
+export async function quoteCowOrder(
+  chain: string,
+  owner: string,
+  fromAsset: string,
+  toAsset: string,
+  amountIn: ethers.BigNumber,
+  slippage: number = DEFAULT_SLIPPAGE
+): Promise<CowQuote> {
+  const { chainId } = requireChain(chain);
+
+  const orderBookApi = createOrderBookApi(chainId);
+  const { quote } = await orderBookApi.getQuote({
+    sellToken: fromAsset,
+    buyToken: toAsset,
+    from: owner,
+    receiver: owner,
+    sellAmountBeforeFee: amountIn.toString(),
+    kind: OrderQuoteSideKindSell.SELL,
+  });
+
+  const buyAmount = ethers.BigNumber.from(quote.buyAmount);
+  return {
+    vaultRelayer: COW_PROTOCOL_VAULT_RELAYER_ADDRESS[chainId as SupportedChainId],
+    buyAmount,
+    minBuyAmount: applySlippage(buyAmount, slippage),
+  };
+}
+
+/**
+ * Builds the router call for a Uniswap V2 swap with a 20 minute deadline,
+ * sending or receiving the native currency when either side is the sentinel
+ * @param router Uniswap V2 Router contract
+ * @param fromAsset Token address to swap from, or the native currency sentinel
+ * @param toAsset Token address to swap to, or the native currency sentinel
+ * @param amountIn Input amount in the token's smallest unit
+ * @param amountOutMin Minimum output after slippage
+ * @param path Route through wrapped tokens, as quoted
+ * @param recipient Address receiving the output
+ */
+export async function populateUniswapV2Swap(
+  router: ethers.Contract,
+  fromAsset: string,
+  toAsset: string,
+  amountIn: ethers.BigNumber,
+  amountOutMin: ethers.BigNumber,
+  path: string[],
+  recipient: string
+): Promise<ethers.PopulatedTransaction> {
+  const deadline = Math.floor(Date.now() / 1000) + 60 * 20;
+  if (isNativeToken(fromAsset)) {
+    return router.populateTransaction.swapExactETHForTokens!(amountOutMin, path, recipient, deadline, {
+      value: amountIn,
+    });
+  }
+  if (isNativeToken(toAsset)) {
+    return router.populateTransaction.swapExactTokensForETH!(amountIn, amountOutMin, path, recipient, deadline);
+  }
+  return router.populateTransaction.swapExactTokensForTokens!(amountIn, amountOutMin, path, recipient, deadline);
+}
+
 /**
  * Performs a token swap using Uniswap V2
  * @param wallets Connected wallets
  * @param chain Chain to use for the swap
- * @param fromAsset Token address to swap from
- * @param toAsset Token address to swap to
+ * @param fromAsset Token address to swap from, or the native currency sentinel
+ * @param toAsset Token address to swap to, or the native currency sentinel
  * @param amount Amount to swap in human readable format
+ * @param speed Fee preset
+ * @param approval Exact or unlimited approval, if one is needed
+ * @param slippage Slippage tolerance as a fraction
  * @returns The transaction hash
  */
 export async function uniswapV2Swap(
-  wallets: ConnectedWallet[],
+  wallets: WalletProvider[],
   chain: string,
   fromAsset: string,
   toAsset: string,
-  amount: string
+  amount: string,
+  speed: FeeSpeed = DEFAULT_FEE_SPEED,
+  approval: ApprovalMode = DEFAULT_APPROVAL_MODE,
+  slippage: number = DEFAULT_SLIPPAGE
 ): Promise<string> {
   if (!wallets[0]) {
     throw new Error("No wallet is connected!");
   }
 
-  const chainId = supportedChains[chain];
-  if (chainId === undefined) {
-    throw new Error(`Unsupported chain: ${chain}`);
-  }
+  const { chainId, uniswapV2Router: routerAddress, weth, baseTokens } = requireChain(chain);
 
   // Get router contract address for this chain
-  const routerAddress = UNISWAP_V2_ROUTER[chainId];
   if (!routerAddress) {
     throw new Error(`No Uniswap Router found for chain: ${chain}`);
   }
-  
-  // Get factory address for this chain
-  const factoryAddress = UNISWAP_V2_FACTORY[chainId];
-  if (!factoryAddress) {
-    throw new Error(`No Uniswap Factory found for chain: ${chain}`);
-  }
 
   await wallets[0].switchChain(chainId);
   const provider = await wallets[0].getEthersProvider();
   const signer = provider.getSigner();
   const fromAddress = await signer.getAddress();
 
-  const chainDecimals = decimalConverter[chainId];
-  if (chainDecimals === undefined) {
-    throw new Error(`No decimals for chain: ${chain}`);
-  }
-
-  const decimals = chainDecimals[fromAsset];
-  if (decimals === undefined) {
-    throw new Error(`No decimals for token: ${fromAsset}`);
-  }
+  const [fromToken, toToken] = await Promise.all([
+    resolveToken(provider, chainId, fromAsset),
+    resolveToken(provider, chainId, toAsset),
+  ]);
 
   // Parse the amount with correct decimals
-  const amountDecimals = ethers.utils.parseUnits(amount, decimals);
-  
+  const amountDecimals = ethers.utils.parseUnits(amount, fromToken.decimals);
+
   // Initialize the Uniswap Router contract
   const uniswapRouter = new ethers.Contract(
     routerAddress,
@@ -468,126 +768,57 @@ export async function uniswapV2Swap(
     signer
   );
 
-  // Create the token contract to approve spending
-  const tokenContract = new ethers.Contract(
-    fromAsset,
-    ERC20_ABI,
-    signer
-  );
-  
+  // Find the route before anything is signed, so a pair without liquidity
+  // fails here instead of after an approval
+  const quote = await quoteUniswapV2(provider, chain, fromAsset, toAsset, amountDecimals, slippage);
+  if (!quote) {
+    const bases = await Promise.all(
+      [weth, ...baseTokens].map(async (token) => (await resolveToken(provider, chainId, token)).symbol)
+    );
+    throw new Error(
+      `No Uniswap V2 pools with liquidity connect ${fromToken.symbol} and ${toToken.symbol}, ` +
+        `directly or through ${bases.join(", ")}.`
+    );
+  }
+  const { path, amountOutMin } = quote;
+
   // Check and set allowance
   await checkAllowanceAndApproveIfNecessary(
+    chain,
     routerAddress,
     fromAsset,
     signer,
-    amountDecimals
+    amountDecimals,
+    speed,
+    approval
   );
 
-  // Define WETH address for the chain
-  const WETH_ADDRESS = chainId === 11155111 
-    ? "0x7b79995e5f793A07Bc00c21412e50Ecae098E7f9" // Sepolia WETH
-    : "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2"; // Mainnet WETH
-    
-  // Check if direct pool exists
-  const directPoolExists = await checkLiquidityPoolExists(
-    provider,
-    factoryAddress,
-    fromAsset,
-    toAsset
-  );
-  
-  console.log(`Direct pool between tokens exists: ${directPoolExists}`);
-  
-  // Check if pools with WETH exist
-  const fromWethPoolExists = await checkLiquidityPoolExists(
-    provider,
-    factoryAddress,
-    fromAsset,
-    WETH_ADDRESS
-  );
-  
-  const toWethPoolExists = await checkLiquidityPoolExists(
-    provider,
-    factoryAddress,
-    WETH_ADDRESS,
-    toAsset
-  );
-  
-  console.log(`Pool from asset to WETH exists: ${fromWethPoolExists}`);
-  console.log(`Pool from WETH to target asset exists: ${toWethPoolExists}`);
-  
-  // Determine the best path
-  let path: string[];
-  
-  if (directPoolExists) {
-    path = [fromAsset, toAsset];
-    console.log("Using direct swap path");
-  } else if (fromWethPoolExists && toWethPoolExists) {
-    path = [fromAsset, WETH_ADDRESS, toAsset];
-    console.log("Using WETH as intermediary");
-  } else {
-    console.log("No viable swap path found. Attempting to create necessary pools...");
-    
-    try {
-      // Try to create direct pool first
-      if (!directPoolExists) {
-        try {
-          await createLiquidityPoolIfNeeded(signer, factoryAddress, fromAsset, toAsset);
-          path = [fromAsset, toAsset];
-          console.log("Created direct pool and using direct swap path");
-        } catch (error) {
-          console.error("Failed to create direct pool:", error);
-          
-          // If direct pool creation fails, try creating pools with WETH
-          if (!fromWethPoolExists) {
-            await createLiquidityPoolIfNeeded(signer, factoryAddress, fromAsset, WETH_ADDRESS);
-          }
-          
-          if (!toWethPoolExists) {
-            await createLiquidityPoolIfNeeded(signer, factoryAddress, WETH_ADDRESS, toAsset);
-          }
-          
-          path = [fromAsset, WETH_ADDRESS, toAsset];
-          console.log("Created WETH intermediary pools and using WETH as intermediary");
-        }
-      } else {
-        // This should never happen, but initialize path to avoid linter error
-        path = [fromAsset, WETH_ADDRESS, toAsset];
-      }
-    } catch (error) {
-      console.error("Failed to create necessary liquidity pools:", error);
-      throw new Error("No viable swap path found and failed to create necessary liquidity pools. There is no liquidity for this pair.");
-    }
-  }
-
-  // Set up the swap parameters with WETH as an intermediary
-  const deadline = Math.floor(Date.now() / 1000) + 60 * 20; // 20 minutes from now
-  const slippage = 0.05; // 5% slippage
-
   try {
-    // Get the expected output amount
-    const amounts = await uniswapRouter.getAmountsOut(amountDecimals, path);
-    const outputIndex = path.length - 1;
-    const amountOutMin = amounts[outputIndex].mul(ethers.BigNumber.from(100 - Math.floor(slippage * 100))).div(ethers.BigNumber.from(100));
-
-    console.log(`Swapping ${amount} of ${fromAsset} to ${toAsset}`);
-    console.log(`Expected output amount: ${ethers.utils.formatUnits(amounts[outputIndex], chainDecimals[toAsset] || 18)}`);
-    console.log(`Minimum output amount: ${ethers.utils.formatUnits(amountOutMin, chainDecimals[toAsset] || 18)}`);
-    
-    // Execute the swap transaction
-    const tx = await uniswapRouter.swapExactTokensForTokens(
+    const request = await populateUniswapV2Swap(
+      uniswapRouter,
+      fromAsset,
+      toAsset,
       amountDecimals,
       amountOutMin,
       path,
-      fromAddress,
-      deadline,
-      { gasLimit: 500000 } // Add explicit gas limit to avoid underestimation
+      fromAddress
     );
+    const gas = await requireSuccessfulSimulation(provider, { ...request, from: fromAddress });
+
+    // Execute the swap transaction
+    const tx = await signer.sendTransaction({
+      ...request,
+      ...(await getTransactionOverrides(provider, gas, speed)),
+    });
 
     console.log(`Swap transaction sent! Hash: ${tx.hash}`);
     return tx.hash;
   } catch (error: any) {
     console.error("Uniswap swap error:", error);
+
+    if (error instanceof SimulationError) {
+      throw error;
+    }
     
     // Check if it's a liquidity issue
     if (error.message && error.message.includes("INSUFFICIENT_OUTPUT_AMOUNT")) {
@@ -599,53 +830,6 @@ export async function uniswapV2Swap(
   }
 }
 
-/**
- * Creates a liquidity pool between two tokens if it doesn't exist
- * @param signer Ethers signer
- * @param factoryAddress Uniswap V2 Factory address
- * @param tokenA First token address
- * @param tokenB Second token address
- * @returns The pair address
- */
-async function createLiquidityPoolIfNeeded(
-  signer: ethers.providers.JsonRpcSigner,
-  factoryAddress: string,
-  tokenA: string,
-  tokenB: string
-): Promise<string> {
-  try {
-    const factory = new ethers.Contract(
-      factoryAddress,
-      UNISWAP_V2_FACTORY_ABI,
-      signer
-    );
-    
-    // Check if pair already exists
-    const pairAddress = await factory.getPair(tokenA, tokenB);
-    if (pairAddress !== ethers.constants.AddressZero) {
-      console.log(`Pair already exists at ${pairAddress}`);
-      return pairAddress;
-    }
-    
-    // Create the pair
-    console.log(`Creating pair between ${tokenA} and ${tokenB}`);
-    const tx = await factory.createPair(tokenA, tokenB);
-    await tx.wait();
-    
-    // Get the new pair address
-    const newPairAddress = await factory.getPair(tokenA, tokenB);
-    console.log(`Created new pair at ${newPairAddress}`);
-    return newPairAddress;
-  } catch (error) {
-    console.error("Error creating liquidity pool:", error);
-    throw new Error("Failed to create liquidity pool");
-  }
-}
-
-// MoonPay URLs
-const MOONPAY_BASE_URL = "https://buy.moonpay.com";
-const MOONPAY_API_KEY = "pk_live_YOUR_ACTUAL_MOONPAY_KEY"; 
-
 /**
  * Processes a fiat-to-crypto purchase request by creating a MoonPay widget URL
  * @param wallets Connected wallets
@@ -656,7 +840,7 @@ const MOONPAY_API_KEY = "pk_live_YOUR_ACTUAL_MOONPAY_KEY";
  * @returns A URL to the MoonPay widget pre-configured with the user's details
  */
 export async function processBuyRequest(
-  wallets: ConnectedWallet[],
+  wallets: WalletProvider[],
   buyAmount: string,
   cryptoAsset: string,
   chain: string,
@@ -666,23 +850,16 @@ export async function processBuyRequest(
     throw new Error("No wallet is connected!");
   }
 
-  const chainId = supportedChains[chain];
-  if (chainId === undefined) {
-    throw new Error(`Unsupported chain: ${chain}`);
-  }
+  const { chainId } = requireChain(chain);
 
   // Switch to the target chain
   await wallets[0].switchChain(chainId);
   const walletAddress = await wallets[0].address;
 
   // Get the currency code for MoonPay based on the token and chain
-  let currencyCode = "usdc";
-  if (chain === "mainnet") {
-    currencyCode = "usdc"; // Ethereum mainnet USDC
-  } else if (chain === "base") {
-    currencyCode = "usdc_base"; // Base USDC
-  } else if (chain === "sepolia") {
-    currencyCode = "usdc_ethereum_sepolia"; // Sepolia testnet USDC
+  const currencyCode = getMoonPayCurrencyCode(chain, cryptoAsset);
+  if (!currencyCode) {
+    throw new Error(`MoonPay does not sell token ${cryptoAsset} on ${chain}`);
   }
 
   // Map our payment method to MoonPay's payment method parameter
@@ -698,7 +875,7 @@ export async function processBuyRequest(
 
   // Build the MoonPay URL with all required parameters
   const params = new URLSearchParams({
-    apiKey: MOONPAY_API_KEY,
+    apiKey: getConfig().moonpay.apiKey,
     currencyCode: currencyCode,
     walletAddress: walletAddress,
     baseCurrencyCode: "usd",
@@ -713,46 +890,9 @@ export async function processBuyRequest(
   }
 
   // Create the final URL
-  const moonpayUrl = `${MOONPAY_BASE_URL}?${params.toString()}`;
+  const moonpayUrl = `${getConfig().moonpay.baseUrl}?${params.toString()}`;
   
   return {
     moonpayUrl: moonpayUrl
   };
 }
-
-export async function sendRemittanceTransaction(
-  wallets: ConnectedWallet[],
-  txData: any,
-  chain: string
-): Promise<ethers.providers.TransactionResponse> {
-  if (!wallets[0]) {
-    throw new Error("No wallet is connected!");
-  }
-
-  const chainId = supportedChains[chain];
-  if (chainId === undefined) {
-    throw new Error("Unsupported chain");
-  }
-
-  await wallets[0].switchChain(chainId);
-  const provider = await wallets[0].getEthersProvider();
-  const signer = provider.getSigner();
-  const userAddress = await signer.getAddress();
-
-  // Prepare the transaction for signing
-  const tx = {
-    to: txData.to,
-    from: userAddress,
-    data: txData.data,
-    value: txData.value || 0,
-    gasLimit: ethers.BigNumber.from(txData.gas || 300000),
-    gasPrice: ethers.BigNumber.from(txData.gasPrice || (await provider.getGasPrice())),
-    chainId: chainId,
-    nonce: txData.nonce !== undefined ? 
-      txData.nonce : 
-      await provider.getTransactionCount(userAddress, "latest")
-  };
-
-  console.log("Sending remittance transaction:", tx);
-  return await signer.sendTransaction(tx);
-}
@@ -0,0 +1,87 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+
+// Wrapping the native currency into its ERC20 token and back, through the
+// chain's wrapped native contract (WETH, WPOL, ...)
+
+import { ethers } from "ethers";
+import { WalletProvider } from "./utils";
+import { requireChain } from "./chains";
+import { requireSuccessfulSimulation } from "./simulation";
+import { DEFAULT_FEE_SPEED, FeeSpeed, getTransactionOverrides } from "./fees";
+
+export type WrapDirection = "wrap" | "unwrap";
+
+const WRAPPED_NATIVE_ABI = [
+  "function deposit() payable",
+  "function withdraw(uint256 wad)",
+];
+
+/**
+ * Builds the call that wraps or unwraps the native currency
+ * @param chain Chain to wrap on
+ * @param direction "wrap" deposits the native currency, "unwrap" withdraws it
+ * @param amount Amount in the native currency's smallest unit
+ */
+export async function populateWrap(
+  chain: string,
+  direction: WrapDirection,
+  amount: ethers.BigNumber
+): Promise<ethers.PopulatedTransaction> {
+  const wrapped = new ethers.Contract(requireChain(chain).weth, WRAPPED_NATIVE_ABI);
+  return direction === "wrap"
+    ? wrapped.populateTransaction.deposit!({ value: amount })
+    : wrapped.populateTransaction.withdraw!(amount);
+}
+
+/**
+ * Wraps or unwraps the native currency after simulating the call
+ * @param wallets Connected wallets
+ * @param chain Chain to wrap on
+ * @param direction "wrap" or "unwrap"
+ * @param amount Amount in human readable format
+ * @param speed Fee preset
+ * @returns The sent transaction
+ */
+export async function wrapNative(
+  wallets: WalletProvider[],
+  chain: string,
+  direction: WrapDirection,
+  amount: string,
+  speed: FeeSpeed = DEFAULT_FEE_SPEED
+): Promise<ethers.providers.TransactionResponse> {
+  if (!wallets[0]) {
+    throw new Error("No wallet is connected!");
+  }
+
+  const { chainId, nativeCurrency } = requireChain(chain);
+  await wallets[0].switchChain(chainId);
+  const provider = await wallets[0].getEthersProvider();
+  const signer = provider.getSigner();
+
+  // The wrapped token has the same decimals as the currency it wraps
+  const tx = await populateWrap(chain, direction, ethers.utils.parseUnits(amount, nativeCurrency.decimals));
+  const gas = await requireSuccessfulSimulation(provider, { ...tx, from: wallets[0].address });
+  return signer.sendTransaction({ ...tx, ...(await getTransactionOverrides(provider, gas, speed)) });
+}